@@ -1,4 +1,4 @@
-import TOSBase from './methods/base';
+import TOSBase, { TOSConstructorOptions } from './methods/base';
 import {
   listBuckets,
   createBucket,
@@ -16,6 +16,7 @@ import putObject, { putObjectFromFile } from './methods/object/putObject';
 import { fetchObject, putFetchTask } from './methods/object/fetch';
 import { listObjectVersions, listObjects } from './methods/object/listObjects';
 import getPreSignedUrl from './methods/object/getPreSignedUrl';
+import presign from './methods/object/presign';
 import headObject from './methods/object/headObject';
 import deleteObject from './methods/object/deleteObject';
 import renameObject from './methods/object/renameObject';
@@ -35,7 +36,12 @@ import appendObject from './methods/object/appendObject';
 import setObjectMeta from './methods/object/setObjectMeta';
 import { uploadPartCopy } from './methods/object/multipart/uploadPartCopy';
 import uploadFile from './methods/object/multipart/uploadFile';
+import {
+  createDirectUpload,
+  signDirectUploadParts,
+} from './methods/object/multipart/directUpload';
 import { calculatePostSignature } from './methods/object/calculatePostSignature';
+import buildPostForm from './methods/object/buildPostForm';
 
 import { resumableCopyObject } from './methods/object/multipart/resumableCopyObject';
 import {
@@ -48,6 +54,7 @@ import {
   putBucketVersioning,
 } from './methods/bucket/versioning';
 import { preSignedPolicyURL } from './methods/object/preSignedPolicyURL';
+import { createShareLink } from './methods/object/createShareLink';
 import downloadFile from './methods/object/downloadFile';
 import { getBucketLocation } from './methods/bucket/getBucketLocation';
 import {
@@ -189,6 +196,11 @@ import { getBucketTrash, putBucketTrash } from './methods/bucket/trash';
 
 // refer https://stackoverflow.com/questions/23876782/how-do-i-split-a-typescript-class-into-multiple-files
 export class InnerClient extends TOSBase {
+  constructor(opts: TOSConstructorOptions) {
+    super(opts);
+    this.bindRequestContext();
+  }
+
   // bucket base
   createBucket = createBucket;
   headBucket = headBucket;
@@ -321,6 +333,8 @@ export class InnerClient extends TOSBase {
   completeMultipartUpload = completeMultipartUpload;
   abortMultipartUpload = abortMultipartUpload;
   uploadPartCopy = uploadPartCopy;
+  createDirectUpload = createDirectUpload;
+  signDirectUploadParts = signDirectUploadParts;
   listMultipartUploads = listMultipartUploads;
   listParts = listParts;
   downloadFile = downloadFile;
@@ -343,12 +357,15 @@ export class InnerClient extends TOSBase {
   // object others
   uploadFile = uploadFile;
   getPreSignedUrl = getPreSignedUrl;
+  presign = presign;
   /**
    * alias to preSignedPostSignature
    */
   calculatePostSignature = calculatePostSignature;
   preSignedPostSignature = calculatePostSignature;
+  buildPostForm = buildPostForm;
   preSignedPolicyURL = preSignedPolicyURL;
+  createShareLink = createShareLink;
   // object intelligenttiering
   getBucketIntelligenttiering = getBucketIntelligenttiering;
 
@@ -1,32 +1,58 @@
-import { TosClientError } from './browser-index';
+import TosClientError, {
+  TosClientErrorCode,
+  TosShareLinkExpiredError,
+  TosValidationError,
+} from './TosClientError';
+import TosServerError from './TosServerError';
 import { TOSBase, type TOSConstructorOptions } from './methods/base';
 import { paramsSerializer } from './utils';
-import { getObjectV2 } from './methods/object/getObject';
+import { getObjectToFile, getObjectV2 } from './methods/object/getObject';
 import headObject from './methods/object/headObject';
 import { listObjectVersions, listObjects } from './methods/object/listObjects';
 import downloadFile from './methods/object/downloadFile';
 import { listObjectsType2 } from './methods/object/listObjectsType2';
+import { parsePreSignedUrl } from './preSignedUrl';
+import { Middleware } from './middleware';
 
 export interface ShareLinkClientOptions
   extends Omit<
     TOSConstructorOptions,
     'region' | 'accessKeyId' | 'accessKeySecret' | 'endpoint' | 'bucket'
   > {
+  /**
+   * the url of `createShareLink` or `preSignedPolicyURL`
+   */
   policyUrl: string;
 }
 
+const LIST_OPERATIONS = [
+  'listObjects',
+  'listObjectsType2',
+  'listObjectVersions',
+];
+
 interface ParsedPolicyUrlVal {
   origin: string;
   host: string;
   search: string;
 }
 
-/** @private unstable */
+/**
+ * read and list the shared objects by the policy url without credentials.
+ * it throws `TosShareLinkExpiredError` after the url expires.
+ */
 export class ShareLinkClient extends TOSBase {
   shareLinkClientOpts: ShareLinkClientOptions;
 
   private parsedPolicyUrlVal: ParsedPolicyUrlVal;
 
+  /**
+   * the prefix of the `starts-with` condition of the policy
+   */
+  readonly prefix?: string;
+
+  readonly expiresAt?: Date;
+
   modifyAxiosInst() {
     const axiosInst = this.axiosInst;
 
@@ -59,13 +85,79 @@ export class ShareLinkClient extends TOSBase {
     this.shareLinkClientOpts = _opts;
     this.parsedPolicyUrlVal = this.initParsedPolicyUrlVal();
     this.modifyAxiosInst();
+
+    try {
+      // only the query is parsed, the host may be not a valid url host, eg: bucket.127.0.0.1
+      const parsed = parsePreSignedUrl(
+        `http://localhost/?${this.parsedPolicyUrlVal.search}`
+      );
+      this.expiresAt = parsed.expiresAt;
+      this.prefix = parsed.policy?.conditions.find(
+        (it) => it.key === 'key' && it.operator === 'starts-with'
+      )?.value;
+    } catch (err) {
+      // the url isn't signed by TOS SDK, TOS server checks it
+    }
+    this.middlewareStack
+      .use('build', this.checkShareLink, { name: 'checkShareLink' })
+      .use('onError', this.handleExpiredError, {
+        name: 'handleExpiredError',
+      });
+    this.bindRequestContext();
+  }
+
+  private isExpired() {
+    return !!this.expiresAt && this.clockSkew.now() > this.expiresAt.valueOf();
+  }
+
+  private makeExpiredError() {
+    return new TosShareLinkExpiredError(
+      `the share link expired at ${this.expiresAt!.toISOString()}`,
+      this.expiresAt!
+    );
   }
 
+  private checkShareLink: Middleware = (context) => {
+    if (this.isExpired()) {
+      throw this.makeExpiredError();
+    }
+
+    if (!this.prefix) {
+      return;
+    }
+    if (context.key != null && !context.key.startsWith(this.prefix)) {
+      throw new TosClientError(
+        `the key \`${context.key}\` isn't under the shared prefix \`${this.prefix}\``,
+        TosClientErrorCode.OperationNotAllowed
+      );
+    }
+    // the listing is limited in the shared prefix
+    if (
+      LIST_OPERATIONS.includes(context.operation) &&
+      !context.request.query.prefix
+    ) {
+      context.request.query.prefix = this.prefix;
+    }
+  };
+
+  private handleExpiredError: Middleware = (context) => {
+    if (
+      context.error instanceof TosServerError &&
+      context.error.statusCode === 403 &&
+      this.isExpired()
+    ) {
+      context.error = this.makeExpiredError();
+    }
+  };
+
   private initParsedPolicyUrlVal(): ParsedPolicyUrlVal {
     const reg = /(https?:\/\/(?:[^@]+@)?([^/?]+))[^?]*\?(.+)/;
-    const matched = this.shareLinkClientOpts.policyUrl.match(reg);
+    const matched = this.shareLinkClientOpts.policyUrl.split('#')[0].match(reg);
     if (!matched) {
-      throw new TosClientError('the `policyUrl` param is invalid');
+      throw new TosValidationError(
+        'the `policyUrl` param is invalid',
+        TosClientErrorCode.InvalidParam
+      );
     }
     return {
       origin: matched[1],
@@ -76,6 +168,7 @@ export class ShareLinkClient extends TOSBase {
 
   headObject = headObject;
   getObjectV2 = getObjectV2;
+  getObjectToFile = getObjectToFile;
   listObjects = listObjects;
   listObjectsType2 = listObjectsType2;
   listObjectVersions = listObjectVersions;
@@ -1,9 +1,134 @@
+export enum TosClientErrorCode {
+  Unknown = 'Unknown',
+  /**
+   * a required param isn't provided, eg: bucket
+   */
+  MissingParam = 'MissingParam',
+  InvalidParam = 'InvalidParam',
+  InvalidBucketName = 'InvalidBucketName',
+  InvalidObjectName = 'InvalidObjectName',
+  InvalidRegion = 'InvalidRegion',
+  InvalidEndpoint = 'InvalidEndpoint',
+  InvalidCredentials = 'InvalidCredentials',
+  /**
+   * the credentials of `credentialsProvider` are not loaded or have expired
+   */
+  CredentialsNotLoaded = 'CredentialsNotLoaded',
+  /**
+   * the config file or the profile of `fromEnv` is invalid
+   */
+  InvalidProfile = 'InvalidProfile',
+  /**
+   * the feature isn't supported in the current environment(browser or nodejs)
+   */
+  NotSupported = 'NotSupported',
+  ChecksumMismatch = 'ChecksumMismatch',
+  /**
+   * the response misses the necessary headers, eg: the `ETag` isn't exposed by CORS
+   */
+  InvalidResponse = 'InvalidResponse',
+  /**
+   * the method is called in the wrong state, eg: `update()` after `final()`
+   */
+  InvalidState = 'InvalidState',
+  NetworkError = 'NetworkError',
+  Timeout = 'Timeout',
+  /**
+   * the key isn't under the shared prefix of `ShareLinkClient`, see `createShareLink`
+   */
+  OperationNotAllowed = 'OperationNotAllowed',
+  ShareLinkExpired = 'ShareLinkExpired',
+}
+
 export class TosClientError extends Error {
-  constructor(message: string) {
+  /**
+   * stable code of the error, match it instead of the message
+   */
+  public code: TosClientErrorCode;
+
+  constructor(
+    message: string,
+    code: TosClientErrorCode = TosClientErrorCode.Unknown
+  ) {
     super(message);
 
     // https://www.dannyguo.com/blog/how-to-fix-instanceof-not-working-for-custom-errors-in-typescript/
     Object.setPrototypeOf(this, TosClientError.prototype);
+
+    this.code = code;
+  }
+}
+
+/**
+ * the params or options are invalid, the request isn't sent
+ */
+export class TosValidationError extends TosClientError {
+  constructor(message: string, code: TosClientErrorCode) {
+    super(message, code);
+    Object.setPrototypeOf(this, TosValidationError.prototype);
+  }
+}
+
+/**
+ * the checksum of the transferred data doesn't equal the server's
+ */
+export class TosChecksumMismatchError extends TosClientError {
+  constructor(
+    message: string,
+    public expected?: string,
+    public actual?: string
+  ) {
+    super(message, TosClientErrorCode.ChecksumMismatch);
+    Object.setPrototypeOf(this, TosChecksumMismatchError.prototype);
+  }
+}
+
+/**
+ * the request fails without a response of TOS server,
+ * eg: the connection is reset, or a proxy server responds an error
+ */
+export class TosNetworkError extends TosClientError {
+  /**
+   * the status code if a non-TOS server responds
+   */
+  public statusCode?: number;
+
+  /**
+   * the original error, eg: `ECONNRESET` error of nodejs
+   */
+  public cause: Error;
+
+  constructor(
+    message: string,
+    cause: Error,
+    statusCode?: number,
+    code: TosClientErrorCode = TosClientErrorCode.NetworkError
+  ) {
+    super(message, code);
+    Object.setPrototypeOf(this, TosNetworkError.prototype);
+
+    this.cause = cause;
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * connecting or `requestTimeout` is timeout
+ */
+export class TosTimeoutError extends TosNetworkError {
+  constructor(message: string, cause: Error) {
+    super(message, cause, undefined, TosClientErrorCode.Timeout);
+    Object.setPrototypeOf(this, TosTimeoutError.prototype);
+  }
+}
+
+/**
+ * the policy url of `ShareLinkClient` has expired, ask the sharer for a new one
+ */
+export class TosShareLinkExpiredError extends TosClientError {
+  constructor(message: string, public expiresAt: Date) {
+    super(message, TosClientErrorCode.ShareLinkExpired);
+    Object.setPrototypeOf(this, TosShareLinkExpiredError.prototype);
   }
 }
 
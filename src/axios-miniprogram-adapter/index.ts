@@ -14,10 +14,163 @@ import buildFullPath from 'axios/lib/core/buildFullPath';
 import encode from './utils/encoder';
 import {
   getRequest,
+  getPlatFormApi,
   transformError,
   transformResponse,
   transformConfig,
 } from './utils/platForm';
+import { copyMpFile, readMpFileText } from './utils/fileSystem';
+
+export const mpDownloadFileNamespace = '__mpDownloadFile__';
+
+export interface MpDownloadFileConfig {
+  /**
+   * the path to save the response body,
+   * the temp file of the platform is used if it's empty
+   */
+  filePath?: string;
+}
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /**
+     * save the response body to the file by the platform's `downloadFile`,
+     * and the `data` of the response is `{ filePath }`
+     */
+    __mpDownloadFile__?: MpDownloadFileConfig;
+  }
+}
+
+// `TextEncoder` isn't provided by some platforms, so count the UTF-8 bytes by the char codes
+function getUtf8ByteLength(str: string) {
+  let length = 0;
+  for (let i = 0; i < str.length; i++) {
+    const code = str.charCodeAt(i);
+    if (code < 0x80) {
+      length += 1;
+    } else if (code < 0x800) {
+      length += 2;
+    } else if (code >= 0xd800 && code <= 0xdbff) {
+      // the surrogate pair
+      length += 4;
+      i++;
+    } else {
+      length += 3;
+    }
+  }
+  return length;
+}
+
+function getByteLength(data: unknown) {
+  if (data instanceof ArrayBuffer) {
+    return data.byteLength;
+  }
+  if (typeof data === 'string') {
+    return getUtf8ByteLength(data);
+  }
+  return 0;
+}
+
+function getContentLength(headers: Record<string, unknown> | undefined) {
+  const key = Object.keys(headers || {}).find(
+    (it) => it.toLowerCase() === 'content-length'
+  );
+  return key ? +`${headers![key]}` || 0 : 0;
+}
+
+/**
+ * the body isn't buffered in memory, and the progress is reported by the platform
+ */
+function mpDownloadFileAdapter(
+  config: AxiosRequestConfig,
+  { filePath }: MpDownloadFileConfig
+): AxiosPromise {
+  const api = getPlatFormApi();
+  return new Promise((resolve, reject) => {
+    let downloadTask: any;
+    let responseHeaders: Record<string, string> = {};
+    const header: Record<string, string> = {};
+    utils.forEach(config.headers, (val: any, key: string) => {
+      if (!['content-type', 'referer'].includes(key.toLowerCase())) {
+        header[key] = val;
+      }
+    });
+
+    const mpDownloadOption: Record<string, any> = {
+      url: buildURL(
+        buildFullPath(config.baseURL, config.url),
+        config.params,
+        config.paramsSerializer
+      ),
+      header,
+      timeout: config.timeout,
+      success: async (mpResponse: any) => {
+        const status = mpResponse.statusCode || mpResponse.status;
+        const savedPath: string =
+          mpResponse.filePath ||
+          mpResponse.tempFilePath ||
+          mpResponse.apFilePath;
+        let data: any = { filePath: savedPath };
+        try {
+          if (status < 200 || status >= 300) {
+            // the body of the error is saved to the file too
+            data = await readMpFileText(savedPath).catch(() => '');
+          } else if (filePath && savedPath !== filePath) {
+            // some platforms(eg: alipay) can't specify the path of the downloaded file
+            await copyMpFile(savedPath, filePath);
+            data = { filePath };
+          }
+        } catch (err) {
+          reject(err);
+          return;
+        }
+        settle(resolve, reject, {
+          data,
+          status,
+          statusText: '',
+          headers: {
+            ...responseHeaders,
+            ...(mpResponse.header || mpResponse.headers),
+          },
+          config,
+          request: mpDownloadOption,
+        });
+      },
+      fail: (error: any) => {
+        transformError(error, reject, config);
+      },
+      complete() {
+        downloadTask = undefined;
+      },
+    };
+    if (filePath) {
+      mpDownloadOption.filePath = filePath;
+    }
+
+    if (config.cancelToken) {
+      config.cancelToken.promise.then(function onCanceled(cancel) {
+        if (!downloadTask) {
+          return;
+        }
+        downloadTask.abort();
+        reject(cancel);
+        downloadTask = undefined;
+      });
+    }
+
+    downloadTask = api.downloadFile(mpDownloadOption);
+    // the success result of `downloadFile` doesn't contain the headers on some platforms
+    downloadTask?.onHeadersReceived?.((res: any) => {
+      responseHeaders = res.header || res.headers || {};
+    });
+    downloadTask?.onProgressUpdate?.((res: any) => {
+      config.onDownloadProgress?.({
+        loaded: res.totalBytesWritten,
+        total: res.totalBytesExpectedToWrite,
+      });
+    });
+  });
+}
 
 const isJSONstr = (str: string | any[]) => {
   try {
@@ -31,6 +184,11 @@ const isJSONstr = (str: string | any[]) => {
     return false;
   }
 };
+
+/**
+ * the progress is reported by the task of `request` if the platform supports it,
+ * otherwise it's reported once after the request succeeds.
+ */
 export default function mpAdapter(
   config: AxiosRequestConfig,
   {
@@ -39,9 +197,16 @@ export default function mpAdapter(
     transformRequestOption?: (requestOption: any) => any;
   } = {}
 ): AxiosPromise {
+  const mpDownloadFile = config[mpDownloadFileNamespace];
+  if (mpDownloadFile) {
+    return mpDownloadFileAdapter(config, mpDownloadFile);
+  }
+
   const request = getRequest();
   return new Promise((resolve, reject) => {
     let requestTask: void | WechatMiniprogram.RequestTask;
+    let isUploadProgressReported = false;
+    let isDownloadProgressReported = false;
     let requestData = config.data;
     let requestHeaders = config.headers;
     // baidu miniprogram only support upperCase
@@ -66,6 +231,22 @@ export default function mpAdapter(
       // Listen for success
       success: (mpResponse: any) => {
         const response = transformResponse(mpResponse, config, mpRequestOption);
+        // report the progress once the request succeeds if the platform doesn't report it
+        if (response.status >= 200 && response.status < 300) {
+          if (!isUploadProgressReported) {
+            const uploaded = getByteLength(mpRequestOption.data);
+            config.onUploadProgress?.({ loaded: uploaded, total: uploaded });
+          }
+          if (!isDownloadProgressReported) {
+            const downloaded =
+              getContentLength(response.headers) ||
+              getByteLength(mpResponse.data);
+            config.onDownloadProgress?.({
+              loaded: downloaded,
+              total: downloaded,
+            });
+          }
+        }
         settle(resolve, reject, response);
       },
       // Handle request Exception
@@ -127,11 +308,50 @@ export default function mpAdapter(
     if (isJSONstr(requestData)) {
       requestData = JSON.parse(requestData);
     }
+    // the binary data must be ArrayBuffer, eg: Buffer of uploadPart
+    if (ArrayBuffer.isView(requestData)) {
+      requestData = requestData.buffer.slice(
+        requestData.byteOffset,
+        requestData.byteOffset + requestData.byteLength
+      );
+    }
     if (requestData !== undefined) {
       mpRequestOption.data = requestData;
     }
     requestTask = request(
       transformRequestOption(transformConfig(mpRequestOption))
     );
+
+    // `onProgressUpdate` and `onChunkReceived` of `request` are provided by some platforms only
+    const task: any = requestTask;
+    task?.onProgressUpdate?.((res: any) => {
+      if (res.totalBytesSent != null) {
+        isUploadProgressReported = true;
+        config.onUploadProgress?.({
+          loaded: res.totalBytesSent,
+          total: res.totalBytesExpectedToSend,
+        });
+      }
+      if (res.totalBytesWritten != null) {
+        isDownloadProgressReported = true;
+        config.onDownloadProgress?.({
+          loaded: res.totalBytesWritten,
+          total: res.totalBytesExpectedToWrite,
+        });
+      }
+    });
+    let contentLength = 0;
+    let receivedBytes = 0;
+    task?.onHeadersReceived?.((res: any) => {
+      contentLength = getContentLength(res.header || res.headers);
+    });
+    task?.onChunkReceived?.((res: any) => {
+      isDownloadProgressReported = true;
+      receivedBytes += getByteLength(res.data);
+      config.onDownloadProgress?.({
+        loaded: receivedBytes,
+        total: contentLength || receivedBytes,
+      });
+    });
   });
 }
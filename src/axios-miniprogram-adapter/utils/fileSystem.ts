@@ -0,0 +1,122 @@
+import { getPlatFormApi } from './platForm';
+
+/**
+ * the file system api of the mini-programs are callback style, so wrap them by promise
+ */
+function callFileSystem<T = any>(
+  method: string,
+  option: Record<string, unknown>
+): Promise<T> {
+  const fs = getPlatFormApi().getFileSystemManager();
+  return new Promise((resolve, reject) => {
+    fs[method]({
+      ...option,
+      success: resolve,
+      fail: (err: any) => {
+        reject(
+          new Error(
+            err?.errMsg ||
+              err?.errorMessage ||
+              `${method} failed in mini-program`
+          )
+        );
+      },
+    });
+  });
+}
+
+export interface MpFileStats {
+  size: number;
+  mtimeMs: number;
+}
+
+export async function statMpFile(filePath: string): Promise<MpFileStats> {
+  const { stats } = await callFileSystem('stat', { path: filePath });
+  return {
+    size: stats.size,
+    // unit of lastModifiedTime: second
+    mtimeMs: (stats.lastModifiedTime || 0) * 1000,
+  };
+}
+
+export async function existsMpFile(filePath: string) {
+  try {
+    await callFileSystem('access', { path: filePath });
+    return true;
+  } catch (_err) {
+    return false;
+  }
+}
+
+/**
+ * read `length` bytes from `position` of the file by the `read` api
+ */
+export async function readMpFile(
+  filePath: string,
+  position: number,
+  length: number
+): Promise<ArrayBuffer> {
+  if (!length) {
+    return new ArrayBuffer(0);
+  }
+  const { fd } = await callFileSystem('open', { filePath, flag: 'r' });
+  try {
+    const { bytesRead, arrayBuffer } = await callFileSystem('read', {
+      fd,
+      arrayBuffer: new ArrayBuffer(length),
+      offset: 0,
+      length,
+      position,
+    });
+    return arrayBuffer.slice(0, bytesRead);
+  } finally {
+    await callFileSystem('close', { fd }).catch(() => {});
+  }
+}
+
+export async function readMpFileText(filePath: string): Promise<string> {
+  const { data } = await callFileSystem('readFile', {
+    filePath,
+    encoding: 'utf8',
+  });
+  return data;
+}
+
+/**
+ * write the data to `position` of the file, the file must exist
+ */
+export async function writeMpFile(
+  filePath: string,
+  data: ArrayBuffer,
+  position: number
+) {
+  const { fd } = await callFileSystem('open', { filePath, flag: 'r+' });
+  try {
+    await callFileSystem('write', { fd, data, position });
+  } finally {
+    await callFileSystem('close', { fd }).catch(() => {});
+  }
+}
+
+export async function createMpFile(filePath: string) {
+  await callFileSystem('writeFile', { filePath, data: '', encoding: 'utf8' });
+}
+
+export async function safeMkdirMpRecursive(dirPath: string) {
+  if (!dirPath || (await existsMpFile(dirPath))) {
+    return;
+  }
+  await callFileSystem('mkdir', { dirPath, recursive: true });
+}
+
+export async function copyMpFile(srcPath: string, destPath: string) {
+  await callFileSystem('copyFile', { srcPath, destPath });
+}
+
+export async function renameMpFile(oldPath: string, newPath: string) {
+  await callFileSystem('rename', { oldPath, newPath });
+}
+
+export async function removeMpFile(filePath: string) {
+  await callFileSystem('unlink', { filePath });
+}
@@ -57,6 +57,43 @@ export function getRequest(): (
   }
 }
 
+/**
+ * 获取各个平台的 api 对象，用于调用 downloadFile、getFileSystemManager 等 api
+ */
+export function getPlatFormApi(): any {
+  switch (true) {
+    case typeof wx === 'object':
+      platFormName = EnumPlatForm.weixin;
+      return wx;
+    case typeof swan === 'object':
+      platFormName = EnumPlatForm.baidu;
+      return swan;
+    case typeof dd === 'object':
+      platFormName = EnumPlatForm.dingding;
+      return dd;
+    case typeof my === 'object':
+      platFormName = EnumPlatForm.zhifubao;
+      return my;
+    default:
+      return wx;
+  }
+}
+
+/**
+ * 是否运行在小程序中
+ */
+export function isMiniProgram() {
+  if (typeof window !== 'undefined' && typeof window.location !== 'undefined') {
+    return false;
+  }
+  return (
+    typeof wx !== 'undefined' ||
+    typeof swan !== 'undefined' ||
+    typeof dd !== 'undefined' ||
+    typeof my !== 'undefined'
+  );
+}
+
 /**
  * 处理各平台返回的响应数据，抹平差异
  * @param mpResponse
@@ -98,7 +135,8 @@ export function transformResponse(
 export function transformError(error: any, reject: any, config: any) {
   switch (platFormName) {
     case EnumPlatForm.weixin:
-      if (error.errMsg.indexOf('request:fail abort') !== -1) {
+      // request:fail abort, downloadFile:fail abort
+      if (error.errMsg.indexOf(':fail abort') !== -1) {
         // Handle request cancellation (as opposed to a manual cancellation)
         reject(createError('Request aborted', config, 'ECONNABORTED', ''));
       } else if (error.errMsg.indexOf('timeout') !== -1) {
@@ -1,8 +1,15 @@
-import axios from 'axios';
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
 import { Readable } from 'stream';
 import { getSortedQueryString, safeSync } from './utils';
 import { ISigV4Credentials, SignersV4 } from './signatureV4';
-import * as log from './log';
+import { LogFields, TosLogger } from './logger';
+import { ClockSkew } from './clockSkew';
+import {
+  isSafeToRetryNonIdempotent,
+  RetryStrategy,
+  RetryStrategyExecutor,
+  wait,
+} from './retryStrategy';
 
 export const retryNamespace = '__retryConfig__';
 export const retrySignatureNamespace = '__retrySignature__';
@@ -12,15 +19,46 @@ export interface RetryConfig {
   makeRetryStream?: () => NodeJS.ReadableStream | undefined;
 
   beforeRetry?: () => void;
+
+  /**
+   * non-idempotent requests are only retried when the server must not handle them
+   */
+  idempotent?: boolean;
+
+  /**
+   * called when a retried request fails, it can check whether the previous attempt has succeeded.
+   * return a response to accept the previous attempt, otherwise the error is thrown.
+   *
+   * non-idempotent requests which provide it are retried like idempotent requests.
+   */
+  resolveRetryError?: (error: any) => Promise<AxiosResponse | undefined>;
+
+  // stop retrying after aborting
+  abortSignal?: AbortSignal;
+
+  // override the `maxRetryCount` of axios instance
+  maxRetryCount?: number;
+
+  // the fields of retry logs
+  logFields?: LogFields;
+
+  // route the retried request to another host, the request is signed again for the new host
+  getRetryTarget?: () =>
+    | { host: string; baseURL: string; path: string }
+    | undefined;
 }
 
 interface InnerRetryConfig extends RetryConfig {
   retryCount?: number;
+  // the clock skew is corrected once for a request
+  clockSkewCorrected?: boolean;
 }
 
 interface RetrySignature {
   signOpt: any;
   sigInst: SignersV4;
+  // credentials maybe refreshed before retry, so make a new signer
+  makeSigInst?: () => Promise<SignersV4>;
 }
 
 declare module 'axios' {
@@ -30,30 +68,24 @@ declare module 'axios' {
   }
 }
 
-function isNetworkError(error: any) {
-  // no response or no requestId, ignore no network(error.code is undefined)
-  return (
-    (!error.response && Boolean(error.code)) ||
-    (error.response && !error.response.headers?.['x-tos-request-id'])
-  );
-}
-
-function isCanRetryStatusCode(error: any) {
-  if (!error.response) {
-    return false;
-  }
-
-  const { status } = error.response;
-  if (status === 429 || status >= 500) {
-    return true;
-  }
-  return false;
+/**
+ * the number of attempts which the request has been sent, it starts from 1
+ */
+export function getAttemptCount(config: AxiosRequestConfig | undefined) {
+  const retryConfig = config?.[retryNamespace] as InnerRetryConfig | undefined;
+  return (retryConfig?.retryCount ?? 0) + 1;
 }
 
 const BROWSER_NEED_DELETE_HEADERS = ['content-length', 'user-agent', 'host'];
 
-export const makeAxiosInst = (maxRetryCount: number) => {
+export const makeAxiosInst = (
+  maxRetryCount: number,
+  retryStrategy: RetryStrategy | undefined,
+  logger: TosLogger,
+  clockSkew: ClockSkew
+) => {
   const axiosInst = axios.create();
+  const retryExecutor = new RetryStrategyExecutor(retryStrategy);
   // set `axiosInst` default values to avoid being affected by the global default values of axios
   axiosInst.defaults.auth = undefined;
   axiosInst.defaults.responseType = 'json';
@@ -153,6 +185,12 @@ export const makeAxiosInst = (maxRetryCount: number) => {
     }
   );
 
+  // retry budget
+  axiosInst.interceptors.response.use((res) => {
+    retryExecutor.onSuccess();
+    return res;
+  });
+
   // retry
   axiosInst.interceptors.response.use(undefined, async (error) => {
     const { config } = error;
@@ -166,6 +204,33 @@ export const makeAxiosInst = (maxRetryCount: number) => {
     const retryConfig: InnerRetryConfig = config[retryNamespace];
     const retryCount = retryConfig.retryCount ?? 0;
 
+    if (retryCount > 0 && retryConfig.resolveRetryError) {
+      const res = await retryConfig.resolveRetryError(error);
+      if (res) {
+        logger.info('accept the result of the previous attempt', {
+          ...retryConfig.logFields,
+          attempt: retryCount + 1,
+        });
+        return res;
+      }
+    }
+
+    // the skewed request is rejected before handling it, retry it once with the corrected time
+    const isClockSkewCorrected =
+      !retryConfig.clockSkewCorrected && clockSkew.correct(error);
+    if (isClockSkewCorrected) {
+      logger.warn('the local clock is skewed, correct it and retry', {
+        ...retryConfig.logFields,
+        attempt: retryCount + 1,
+        clockOffset: clockSkew.offset,
+      });
+    }
+
+    const canRetryIdempotency =
+      retryConfig.idempotent !== false ||
+      !!retryConfig.resolveRetryError ||
+      isSafeToRetryNonIdempotent(error);
+
     let newData = config.data;
     const canRetryData = (() => {
       if (process.env.TARGET_ENVIRONMENT === 'node') {
@@ -181,31 +246,59 @@ export const makeAxiosInst = (maxRetryCount: number) => {
     })();
 
     const canRetry =
-      (isNetworkError(error) || isCanRetryStatusCode(error)) &&
-      retryCount < maxRetryCount &&
-      canRetryData;
+      !retryConfig.abortSignal?.aborted &&
+      canRetryData &&
+      (isClockSkewCorrected ||
+        (retryCount < (retryConfig.maxRetryCount ?? maxRetryCount) &&
+          canRetryIdempotency &&
+          retryExecutor.shouldRetry(error, retryCount + 1)));
 
     if (!canRetry) {
       return Promise.reject(error);
     }
 
+    if (!isClockSkewCorrected) {
+      const delay = retryExecutor.getDelay(retryCount + 1, error);
+      logger.warn('request failed, retry it', {
+        ...retryConfig.logFields,
+        attempt: retryCount + 1,
+        delay,
+        statusCode: error.response?.status,
+        requestId: error.response?.headers?.['x-tos-request-id'],
+        code: error.code,
+      });
+      if (delay > 0) {
+        await wait(delay, retryConfig.abortSignal);
+      }
+    }
+
     const retrySignature = config[retrySignatureNamespace] as RetrySignature;
+    const retryTarget = retrySignature && retryConfig.getRetryTarget?.();
+    if (retryTarget) {
+      config.baseURL = retryTarget.baseURL;
+      config.url = retryTarget.path;
+      retrySignature.signOpt.host = retryTarget.host;
+      retrySignature.signOpt.path = retryTarget.path;
+    }
     if (retrySignature) {
-      const { signOpt, sigInst } = retrySignature;
+      const { signOpt, makeSigInst } = retrySignature;
+      const sigInst = makeSigInst
+        ? await makeSigInst()
+        : retrySignature.sigInst;
       const signatureHeaders = sigInst.signatureHeader(signOpt);
       signatureHeaders.forEach((value, key) => {
         config.headers[key] = value;
       });
     }
 
-    //console.log('config: ', config)
-    log.TOS('retryConfig: ', config);
     const nextConfig = {
       ...config,
       data: newData,
       [retryNamespace]: {
         ...retryConfig,
         retryCount: retryCount + 1,
+        clockSkewCorrected:
+          retryConfig.clockSkewCorrected || isClockSkewCorrected,
       },
     };
 
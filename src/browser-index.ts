@@ -1,8 +1,25 @@
 import axios from 'axios';
 import { TosServerError, TosServerCode } from './TosServerError';
-import { TosClientError } from './TosClientError';
+import {
+  TosClientError,
+  TosClientErrorCode,
+  TosValidationError,
+  TosShareLinkExpiredError,
+  TosChecksumMismatchError,
+  TosNetworkError,
+  TosTimeoutError,
+} from './TosClientError';
 import { isCancelError as isCancel } from './utils';
+import {
+  isRetryable,
+  isThrottling,
+  isNotFound,
+  isAuthError,
+} from './errorUtils';
+import { signRequest } from './signRequest';
+import { parsePreSignedUrl, verifyPreSignedUrl } from './preSignedUrl';
 import { UploadEventType } from './methods/object/multipart/uploadFile';
+import { directUploadFile } from './methods/object/multipart/directUpload';
 import {
   ACLType,
   StorageClassType,
@@ -30,6 +47,7 @@ import { DataTransferType } from './interface';
 import { ShareLinkClient } from './ShareLinkClient';
 import { InnerClient } from './InnerClient';
 import { createDefaultRateLimiter } from './universal/rate-limiter';
+import { createJsonLinesLogger } from './logger';
 
 const CancelToken = axios.CancelToken;
 // for export
@@ -40,6 +58,20 @@ class TosClient extends InnerClient {
   static CancelError = CancelError;
   static TosServerCode = TosServerCode;
   static TosClientError = TosClientError;
+  static TosClientErrorCode = TosClientErrorCode;
+  static TosValidationError = TosValidationError;
+  static TosShareLinkExpiredError = TosShareLinkExpiredError;
+  static TosChecksumMismatchError = TosChecksumMismatchError;
+  static TosNetworkError = TosNetworkError;
+  static TosTimeoutError = TosTimeoutError;
+  static isRetryable = isRetryable;
+  static isThrottling = isThrottling;
+  static isNotFound = isNotFound;
+  static isAuthError = isAuthError;
+  static signRequest = signRequest;
+  static parsePreSignedUrl = parsePreSignedUrl;
+  static verifyPreSignedUrl = verifyPreSignedUrl;
+  static directUploadFile = directUploadFile;
   static CancelToken = CancelToken;
   static ACLType = ACLType;
   static StorageClassType = StorageClassType;
@@ -56,6 +88,7 @@ class TosClient extends InnerClient {
   static TierType = TierType;
   static VersioningStatusType = VersioningStatusType;
   static createDefaultRateLimiter = createDefaultRateLimiter;
+  static createJsonLinesLogger = createJsonLinesLogger;
   static DataTransferType = DataTransferType;
   static UploadEventType = UploadEventType;
   static DownloadEventType = DownloadEventType;
@@ -77,7 +110,21 @@ export { TosClient as TOS, TosClient };
 export {
   TosServerError,
   TosClientError,
+  TosClientErrorCode,
+  TosValidationError,
+  TosShareLinkExpiredError,
+  TosChecksumMismatchError,
+  TosNetworkError,
+  TosTimeoutError,
   isCancel,
+  isRetryable,
+  isThrottling,
+  isNotFound,
+  isAuthError,
+  signRequest,
+  parsePreSignedUrl,
+  verifyPreSignedUrl,
+  directUploadFile,
   CancelError,
   TosServerCode,
   CancelToken,
@@ -96,6 +143,7 @@ export {
   TierType,
   VersioningStatusType,
   createDefaultRateLimiter,
+  createJsonLinesLogger,
   DataTransferType,
   UploadEventType,
   DownloadEventType,
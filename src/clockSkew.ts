@@ -0,0 +1,49 @@
+import { TosServerCode } from './TosServerError';
+
+// TOS rejects the requests whose time differs from the server time by more than 15 minutes
+const MAX_ALLOWED_SKEW = 15 * 60 * 1000;
+
+/**
+ * the offset between the local clock and the clock of TOS server.
+ * signatures are made with the corrected time, so a wrong local clock doesn't break requests.
+ */
+export class ClockSkew {
+  /**
+   * unit: ms
+   * server time = local time + offset
+   */
+  offset = 0;
+
+  now() {
+    return Date.now() + this.offset;
+  }
+
+  /**
+   * correct the offset by the `Date` header if the request is rejected for the skewed time.
+   * return true if the offset is corrected, then the request can be signed again and retried.
+   *
+   * the `Date` header must be exposed by CORS in browsers.
+   */
+  correct(error: any): boolean {
+    const response = error?.response;
+    if (!response || response.status !== 403) {
+      return false;
+    }
+
+    const serverTime = new Date(response.headers?.['date']).valueOf();
+    if (Number.isNaN(serverTime)) {
+      return false;
+    }
+
+    const skew = serverTime - this.now();
+    // the body of HEAD requests and stream responses isn't parsed, so check the time
+    const isSkewedCode =
+      response.data?.Code === TosServerCode.RequestTimeTooSkewed;
+    if (!isSkewedCode && Math.abs(skew) < MAX_ALLOWED_SKEW) {
+      return false;
+    }
+
+    this.offset += skew;
+    return true;
+  }
+}
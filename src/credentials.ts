@@ -0,0 +1,149 @@
+import TosClientError, { TosClientErrorCode } from './TosClientError';
+import { TosLogger } from './logger';
+
+export interface TosCredentials {
+  accessKeyId: string;
+  accessKeySecret: string;
+  stsToken?: string;
+  /**
+   * the time when credentials expire.
+   * credentials never expire if it's empty.
+   */
+  expiration?: Date | string | number;
+}
+
+export type CredentialsProvider =
+  | (() => Promise<TosCredentials> | TosCredentials)
+  | {
+      getCredentials(): Promise<TosCredentials> | TosCredentials;
+    };
+
+interface CachedCredentials extends TosCredentials {
+  // unit: ms, Infinity means never expire
+  expiredAt: number;
+}
+
+/**
+ * cache credentials returned by `CredentialsProvider`,
+ * refresh them before they expire and avoid parallel refreshes.
+ */
+export class CredentialsCache {
+  private cached: CachedCredentials | null = null;
+
+  private pendingRefresh: Promise<CachedCredentials> | null = null;
+
+  constructor(
+    private provider: CredentialsProvider,
+    /**
+     * unit: ms
+     * refresh credentials when they will expire in `refreshThreshold`
+     */
+    private refreshThreshold: number,
+    private logger: TosLogger
+  ) {}
+
+  /**
+   * get valid credentials synchronously, return null if there aren't.
+   * it's used by the sync methods, for example `getPreSignedUrl`.
+   */
+  getSync(): TosCredentials | null {
+    if (!this.cached || this.isExpired(this.cached)) {
+      return null;
+    }
+    if (this.needRefresh(this.cached)) {
+      this.refreshInBackground();
+    }
+    return this.cached;
+  }
+
+  async get(): Promise<TosCredentials> {
+    if (!this.cached || this.isExpired(this.cached)) {
+      return this.refresh();
+    }
+    if (this.needRefresh(this.cached)) {
+      this.refreshInBackground();
+    }
+    return this.cached;
+  }
+
+  refresh(): Promise<TosCredentials> {
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.load().then(
+        (credentials) => {
+          this.cached = credentials;
+          this.pendingRefresh = null;
+          return credentials;
+        },
+        (err) => {
+          this.pendingRefresh = null;
+          throw err;
+        }
+      );
+    }
+    return this.pendingRefresh;
+  }
+
+  private refreshInBackground() {
+    this.refresh().catch((err) => {
+      // the cached credentials are still valid, so only log the error
+      this.logger.warn('refresh credentials in background failed', {
+        error: err,
+      });
+    });
+  }
+
+  private async load(): Promise<CachedCredentials> {
+    const provider = this.provider;
+    const credentials = await (typeof provider === 'function'
+      ? provider()
+      : provider.getCredentials());
+
+    if (
+      !credentials ||
+      !credentials.accessKeyId ||
+      !credentials.accessKeySecret
+    ) {
+      throw new TosClientError(
+        'the credentials returned by `credentialsProvider` must have `accessKeyId` and `accessKeySecret`',
+        TosClientErrorCode.InvalidCredentials
+      );
+    }
+
+    const expiredAt = getExpiredAt(credentials.expiration);
+    if (Number.isNaN(expiredAt)) {
+      throw new TosClientError(
+        'the `expiration` of credentials returned by `credentialsProvider` is invalid',
+        TosClientErrorCode.InvalidCredentials
+      );
+    }
+
+    return {
+      ...credentials,
+      accessKeyId: credentials.accessKeyId.trim(),
+      accessKeySecret: credentials.accessKeySecret.trim(),
+      stsToken: credentials.stsToken?.trim(),
+      expiredAt,
+    };
+  }
+
+  private isExpired(credentials: CachedCredentials) {
+    return credentials.expiredAt <= Date.now();
+  }
+
+  private needRefresh(credentials: CachedCredentials) {
+    return credentials.expiredAt - this.refreshThreshold <= Date.now();
+  }
+}
+
+function getExpiredAt(expiration: TosCredentials['expiration']) {
+  if (expiration == null || expiration === '') {
+    return Infinity;
+  }
+  if (expiration instanceof Date) {
+    return expiration.valueOf();
+  }
+  if (typeof expiration === 'number') {
+    return expiration;
+  }
+  return new Date(expiration).valueOf();
+}
@@ -0,0 +1,112 @@
+import axios from 'axios';
+import type { EndpointChangeEvent } from './events';
+
+export interface EndpointFailoverOptions {
+  /**
+   * the circuit of an endpoint opens after these continuous failures,
+   * then the requests are routed to the next endpoint.
+   * default value: 3
+   */
+  failureThreshold?: number;
+
+  /**
+   * unit: ms
+   * the preferred endpoint is tried again after its circuit has opened for this time.
+   * default value: 30s
+   */
+  recoveryTime?: number;
+}
+
+interface EndpointState {
+  endpoint: string;
+  failures: number;
+  openedAt?: number;
+}
+
+/**
+ * network errors and 5xx responses make the endpoint unhealthy
+ */
+export function isEndpointFailure(error: any) {
+  if (axios.isCancel(error)) {
+    return false;
+  }
+  if (!error?.response) {
+    return true;
+  }
+  return error.response.status >= 500;
+}
+
+/**
+ * route the requests to the first healthy endpoint of the ordered list,
+ * every endpoint has a circuit breaker.
+ */
+export class EndpointRouter {
+  private states: EndpointState[];
+  private lastEndpoint: string;
+
+  constructor(
+    endpoints: string[],
+    private opts: EndpointFailoverOptions,
+    private onChange: (event: EndpointChangeEvent) => void
+  ) {
+    this.states = endpoints.map((endpoint) => ({ endpoint, failures: 0 }));
+    this.lastEndpoint = endpoints[0];
+  }
+
+  /**
+   * the endpoint which the next request is sent to
+   */
+  current(error?: unknown): string {
+    const now = Date.now();
+    const { recoveryTime = 30_000 } = this.opts;
+    const state =
+      this.states.find(
+        (it) => it.openedAt == null || now - it.openedAt >= recoveryTime
+      ) ||
+      // all circuits are open, choose the one which opens earliest
+      this.states.reduce((a, b) => (a.openedAt! <= b.openedAt! ? a : b));
+
+    const { endpoint } = state;
+    if (endpoint !== this.lastEndpoint) {
+      const previousEndpoint = this.lastEndpoint;
+      this.lastEndpoint = endpoint;
+      this.onChange({
+        previousEndpoint,
+        endpoint,
+        reason:
+          this.indexOf(endpoint) > this.indexOf(previousEndpoint)
+            ? 'failover'
+            : 'recover',
+        error,
+      });
+    }
+    return endpoint;
+  }
+
+  onSuccess(endpoint: string) {
+    const state = this.states.find((it) => it.endpoint === endpoint);
+    if (state) {
+      state.failures = 0;
+      state.openedAt = undefined;
+    }
+  }
+
+  onFailure(endpoint: string, error: unknown) {
+    const state = this.states.find((it) => it.endpoint === endpoint);
+    if (!state) {
+      return;
+    }
+
+    state.failures += 1;
+    const { failureThreshold = 3 } = this.opts;
+    if (state.failures >= failureThreshold) {
+      // a failed trial after recoveryTime opens the circuit again
+      state.openedAt = Date.now();
+      this.current(error);
+    }
+  }
+
+  private indexOf(endpoint: string) {
+    return this.states.findIndex((it) => it.endpoint === endpoint);
+  }
+}
@@ -0,0 +1,91 @@
+import axios, { AxiosError } from 'axios';
+import { CancelError } from './CancelError';
+import {
+  TosClientError,
+  TosClientErrorCode,
+  TosNetworkError,
+  TosTimeoutError,
+} from './TosClientError';
+import { TosServerCode, TosServerError } from './TosServerError';
+import { defaultShouldRetry } from './retryStrategy';
+
+const THROTTLING_CODES: string[] = [
+  TosServerCode.ExceedQPSLimit,
+  TosServerCode.ExceedRateLimit,
+  TosServerCode.TooManyRequests,
+];
+
+function isTimeoutError(err: AxiosError) {
+  return (
+    (err.code === 'ECONNABORTED' && /timeout/i.test(err.message)) ||
+    err.code === 'ETIMEDOUT' ||
+    err.message === 'Connect timeout'
+  );
+}
+
+/**
+ * convert the axios error which has no response of TOS server
+ */
+export function makeNetworkError(err: AxiosError): TosNetworkError {
+  if (isTimeoutError(err)) {
+    return new TosTimeoutError(err.message, err);
+  }
+  if (err.response) {
+    return new TosNetworkError(
+      `the request failed with status code ${err.response.status}, but the response isn't from TOS server`,
+      err,
+      err.response.status
+    );
+  }
+  return new TosNetworkError(err.message, err);
+}
+
+/**
+ * whether the error is transient, the same request may succeed later
+ */
+export function isRetryable(err: unknown): boolean {
+  if (err instanceof CancelError) {
+    return false;
+  }
+  if (err instanceof TosNetworkError) {
+    return true;
+  }
+  if (err instanceof TosServerError) {
+    return err.statusCode === 429 || err.statusCode >= 500;
+  }
+  if (axios.isAxiosError(err)) {
+    return defaultShouldRetry(err);
+  }
+  return false;
+}
+
+/**
+ * the request is rejected because of QPS or rate limits
+ */
+export function isThrottling(err: unknown): boolean {
+  return (
+    err instanceof TosServerError &&
+    (err.statusCode === 429 || THROTTLING_CODES.includes(err.code))
+  );
+}
+
+/**
+ * the bucket, object or configuration doesn't exist
+ */
+export function isNotFound(err: unknown): boolean {
+  return err instanceof TosServerError && err.statusCode === 404;
+}
+
+/**
+ * the credentials are invalid, expired or have no permission
+ */
+export function isAuthError(err: unknown): boolean {
+  if (err instanceof TosServerError) {
+    return err.statusCode === 401 || err.statusCode === 403;
+  }
+  return (
+    err instanceof TosClientError &&
+    (err.code === TosClientErrorCode.InvalidCredentials ||
+      err.code === TosClientErrorCode.CredentialsNotLoaded)
+  );
+}
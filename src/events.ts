@@ -0,0 +1,95 @@
+export interface EndpointChangeEvent {
+  previousEndpoint: string;
+  endpoint: string;
+  /**
+   * failover: the previous endpoint is unhealthy
+   * recover: the preferred endpoint is tried again after `recoveryTime`
+   */
+  reason: 'failover' | 'recover';
+  /**
+   * the error which makes the previous endpoint unhealthy
+   */
+  error?: unknown;
+}
+
+export interface SocketEvent {
+  /**
+   * `host:port` of the target
+   */
+  host: string;
+  isHttps: boolean;
+}
+
+/**
+ * the events of the client, listen to them by `client.on(event, listener)`
+ */
+export interface TosClientEvents {
+  /**
+   * the requests are routed to another endpoint of `endpoints` option
+   */
+  endpointChange: EndpointChangeEvent;
+  /**
+   * a connection is created, it only works in nodejs
+   */
+  socketCreate: SocketEvent;
+  /**
+   * a keep-alive connection is reused by a request, it only works in nodejs
+   */
+  socketReuse: SocketEvent;
+  /**
+   * a connection is closed, it only works in nodejs
+   */
+  socketClose: SocketEvent;
+}
+
+export type TosClientEventListener<K extends keyof TosClientEvents> = (
+  event: TosClientEvents[K]
+) => void;
+
+/**
+ * a tiny event emitter which works in both nodejs and browsers
+ */
+export class TosEventEmitter {
+  private listeners: {
+    [K in keyof TosClientEvents]?: TosClientEventListener<K>[];
+  } = {};
+
+  on<K extends keyof TosClientEvents>(
+    event: K,
+    listener: TosClientEventListener<K>
+  ) {
+    this.setListeners(event, [...this.getListeners(event), listener]);
+  }
+
+  off<K extends keyof TosClientEvents>(
+    event: K,
+    listener: TosClientEventListener<K>
+  ) {
+    this.setListeners(
+      event,
+      this.getListeners(event).filter((it) => it !== listener)
+    );
+  }
+
+  emit<K extends keyof TosClientEvents>(event: K, data: TosClientEvents[K]) {
+    this.getListeners(event).forEach((listener) => {
+      try {
+        listener(data);
+      } catch (err) {
+        // a broken listener mustn't break requests
+      }
+    });
+  }
+
+  private getListeners<K extends keyof TosClientEvents>(event: K) {
+    return (this.listeners[event] || []) as TosClientEventListener<K>[];
+  }
+
+  private setListeners<K extends keyof TosClientEvents>(
+    event: K,
+    listeners: TosClientEventListener<K>[]
+  ) {
+    (this.listeners as Record<K, TosClientEventListener<K>[]>)[event] =
+      listeners;
+  }
+}
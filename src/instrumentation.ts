@@ -0,0 +1,266 @@
+export type AttributeValue = string | number | boolean;
+export type Attributes = Record<string, AttributeValue | undefined>;
+
+/**
+ * a subset of `Span` of OpenTelemetry
+ */
+export interface TosSpan {
+  setAttribute(key: string, value: AttributeValue): unknown;
+  /**
+   * code: 1 means ok, 2 means error
+   */
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException?(exception: Error | string): unknown;
+  end(): unknown;
+}
+
+/**
+ * a subset of `Tracer` of OpenTelemetry
+ */
+export interface TosTracer {
+  /**
+   * `context` is made by `Instrumentation.getSpanContext`, it's undefined for the root spans
+   */
+  startSpan(
+    name: string,
+    options?: { attributes?: Attributes },
+    context?: unknown
+  ): TosSpan;
+}
+
+interface InstrumentOptions {
+  description?: string;
+  unit?: string;
+}
+
+/**
+ * a subset of `Meter` of OpenTelemetry
+ */
+export interface TosMeter {
+  createCounter(
+    name: string,
+    options?: InstrumentOptions
+  ): { add(value: number, attributes?: Attributes): void };
+  createHistogram(
+    name: string,
+    options?: InstrumentOptions
+  ): { record(value: number, attributes?: Attributes): void };
+}
+
+/**
+ * work with OpenTelemetry:
+ * {
+ *   tracer: trace.getTracer('tos'),
+ *   meter: metrics.getMeter('tos'),
+ *   getSpanContext: (span) => trace.setSpan(context.active(), span),
+ * }
+ */
+export interface Instrumentation {
+  tracer?: TosTracer;
+  meter?: TosMeter;
+  /**
+   * make the context which the child spans are started with
+   */
+  getSpanContext?: (parentSpan: TosSpan) => unknown;
+}
+
+const SPAN_STATUS_OK = 1;
+const SPAN_STATUS_ERROR = 2;
+
+export interface SpanResult {
+  statusCode?: number;
+  requestId?: string;
+  id2?: string;
+  error?: any;
+}
+
+export interface AttemptResult extends SpanResult {
+  bytesSent?: number;
+  bytesReceived?: number;
+}
+
+export interface PartResult {
+  /**
+   * unit: byte
+   */
+  size: number;
+  /**
+   * unit: ms
+   */
+  duration: number;
+  error?: any;
+}
+
+/**
+ * the instrumentation of a client, it's a no-op if `Instrumentation` has neither tracer nor meter.
+ */
+export class TosInstrumentation {
+  private operationDuration;
+  private attempts;
+  private retries;
+  private bytesSent;
+  private bytesReceived;
+  private parts;
+  private partDuration;
+  private partSize;
+
+  constructor(private instrumentation: Instrumentation = {}) {
+    const { meter } = instrumentation;
+    this.operationDuration = meter?.createHistogram(
+      'tos.client.operation.duration',
+      { description: 'the duration of TOS method calls', unit: 'ms' }
+    );
+    this.attempts = meter?.createCounter('tos.client.attempts', {
+      description: 'the number of sent requests, retries are included',
+    });
+    this.retries = meter?.createCounter('tos.client.retries', {
+      description: 'the number of retried requests',
+    });
+    this.bytesSent = meter?.createCounter('tos.client.bytes_sent', {
+      unit: 'By',
+    });
+    this.bytesReceived = meter?.createCounter('tos.client.bytes_received', {
+      unit: 'By',
+    });
+    this.parts = meter?.createCounter('tos.client.parts', {
+      description:
+        'the number of parts transferred by uploadFile, downloadFile and resumableCopyObject',
+    });
+    this.partDuration = meter?.createHistogram('tos.client.part.duration', {
+      unit: 'ms',
+    });
+    this.partSize = meter?.createHistogram('tos.client.part.size', {
+      unit: 'By',
+    });
+  }
+
+  /**
+   * start the span of a method call, the returned function ends it
+   */
+  startOperation(
+    operation: string,
+    bucket: string | undefined,
+    parentSpan: TosSpan | undefined
+  ) {
+    const startTime = Date.now();
+    const span = this.startSpan(
+      `tos.${operation}`,
+      { 'tos.operation': operation, 'tos.bucket': bucket },
+      parentSpan
+    );
+
+    const end = (result: SpanResult) => {
+      this.endSpan(span, result);
+      this.operationDuration?.record(Date.now() - startTime, {
+        'tos.operation': operation,
+        'tos.outcome': result.error ? 'error' : 'success',
+      });
+    };
+    return { span, end };
+  }
+
+  /**
+   * start the child span of a request attempt, the returned function ends it
+   */
+  startAttempt(
+    operation: string,
+    bucket: string | undefined,
+    attempt: number,
+    parentSpan: TosSpan | undefined
+  ) {
+    const span = this.startSpan(
+      `tos.${operation}.attempt`,
+      {
+        'tos.operation': operation,
+        'tos.bucket': bucket,
+        'tos.attempt': attempt,
+      },
+      parentSpan
+    );
+
+    return (result: AttemptResult) => {
+      if (span) {
+        if (result.bytesSent != null) {
+          span.setAttribute('tos.bytes_sent', result.bytesSent);
+        }
+        if (result.bytesReceived != null) {
+          span.setAttribute('tos.bytes_received', result.bytesReceived);
+        }
+      }
+      this.endSpan(span, result);
+
+      const attributes = {
+        'tos.operation': operation,
+        'http.response.status_code': result.statusCode,
+      };
+      this.attempts?.add(1, attributes);
+      if (attempt > 1) {
+        this.retries?.add(1, attributes);
+      }
+      if (result.bytesSent) {
+        this.bytesSent?.add(result.bytesSent, { 'tos.operation': operation });
+      }
+      if (result.bytesReceived) {
+        this.bytesReceived?.add(result.bytesReceived, {
+          'tos.operation': operation,
+        });
+      }
+    };
+  }
+
+  /**
+   * record a part of `uploadFile`, `downloadFile` and `resumableCopyObject`
+   */
+  recordPart(operation: string, result: PartResult) {
+    const attributes = {
+      'tos.operation': operation,
+      'tos.outcome': result.error ? 'error' : 'success',
+    };
+    this.parts?.add(1, attributes);
+    this.partDuration?.record(result.duration, attributes);
+    if (!result.error) {
+      this.partSize?.record(result.size, attributes);
+    }
+  }
+
+  private startSpan(
+    name: string,
+    attributes: Attributes,
+    parentSpan: TosSpan | undefined
+  ) {
+    const { tracer, getSpanContext } = this.instrumentation;
+    if (!tracer) {
+      return undefined;
+    }
+
+    const context =
+      parentSpan && getSpanContext ? getSpanContext(parentSpan) : undefined;
+    return tracer.startSpan(name, { attributes }, context);
+  }
+
+  private endSpan(span: TosSpan | undefined, result: SpanResult) {
+    if (!span) {
+      return;
+    }
+
+    if (result.statusCode != null) {
+      span.setAttribute('http.response.status_code', result.statusCode);
+    }
+    if (result.requestId) {
+      span.setAttribute('tos.request_id', result.requestId);
+    }
+    if (result.id2) {
+      span.setAttribute('tos.id2', result.id2);
+    }
+    if (result.error) {
+      span.recordException?.(result.error);
+      span.setStatus({
+        code: SPAN_STATUS_ERROR,
+        message: result.error?.message,
+      });
+    } else {
+      span.setStatus({ code: SPAN_STATUS_OK });
+    }
+    span.end();
+  }
+}
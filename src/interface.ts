@@ -64,6 +64,8 @@ export type SupportObjectBody =
   | File
   | Blob
   | Buffer
+  // the binary data of mini-programs which have no `Buffer`
+  | ArrayBuffer
   | NodeJS.ReadableStream
   | undefined;
 
@@ -0,0 +1,200 @@
+import * as log from './log';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogFields {
+  /**
+   * the name of the called method, eg: `putObject`
+   */
+  method?: string;
+  bucket?: string;
+  key?: string;
+  requestId?: string;
+  /**
+   * starts from 1
+   */
+  attempt?: number;
+  /**
+   * unit: ms
+   */
+  duration?: number;
+  [key: string]: unknown;
+}
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+const REDACTED = '***';
+
+// compared in lower case
+const SENSITIVE_KEYS = [
+  'authorization',
+  'x-tos-security-token',
+  'x-tos-server-side-encryption-customer-key',
+  'x-tos-copy-source-server-side-encryption-customer-key',
+  'x-tos-signature',
+  'x-tos-credential',
+  'accesskeyid',
+  'accesskeysecret',
+  'ststoken',
+  'securitytoken',
+  'signature',
+];
+
+// the query strings of presigned url and the authorization header
+const SENSITIVE_STRING_REG =
+  /(X-Tos-Signature|X-Tos-Security-Token|X-Tos-Credential|Credential|Signature)=[^&\s,]*/gi;
+
+const MAX_REDACT_DEPTH = 8;
+
+function redactString(value: string) {
+  return value.replace(SENSITIVE_STRING_REG, `$1=${REDACTED}`);
+}
+
+/**
+ * copy the value and hide credentials, signatures, SSE-C keys and presigned query strings.
+ */
+export function redact(value: unknown): unknown {
+  const visited = new WeakSet<object>();
+
+  const walk = (it: unknown, depth: number): unknown => {
+    if (typeof it === 'string') {
+      return redactString(it);
+    }
+    if (!it || typeof it !== 'object') {
+      return it;
+    }
+    if (visited.has(it) || depth > MAX_REDACT_DEPTH) {
+      return '[Circular or Deep]';
+    }
+    visited.add(it);
+
+    if (Array.isArray(it)) {
+      return it.map((item) => walk(item, depth + 1));
+    }
+    if (it instanceof Date) {
+      return it.toISOString();
+    }
+    if (it instanceof Error) {
+      const err = it as Error & Record<string, unknown>;
+      return walk(
+        {
+          name: err.name,
+          message: err.message,
+          code: err.code,
+          statusCode: err.statusCode,
+          requestId: err.requestId,
+        },
+        depth + 1
+      );
+    }
+    const proto = Object.getPrototypeOf(it);
+    if (proto !== Object.prototype && proto !== null) {
+      // eg: stream, buffer and blob
+      return `[${proto?.constructor?.name || 'Object'}]`;
+    }
+
+    const ret: Record<string, unknown> = {};
+    Object.entries(it).forEach(([key, v]) => {
+      ret[key] = SENSITIVE_KEYS.includes(key.toLowerCase())
+        ? REDACTED
+        : walk(v, depth + 1);
+    });
+    return ret;
+  };
+
+  return walk(value, 0);
+}
+
+/**
+ * write to the `TOS` channel of `debug`, it's used if `logger` option isn't provided
+ */
+export const debugLogger: Logger = {
+  debug: (message, fields) => log.TOS(message, fields),
+  info: (message, fields) => log.TOS(message, fields),
+  warn: (message, fields) => log.TOS(message, fields),
+  error: (message, fields) => log.TOS(message, fields),
+};
+
+/**
+ * filter logs by level and redact their fields before passing them to `Logger`
+ */
+export class TosLogger {
+  constructor(private logger: Logger, private level: LogLevel) {}
+
+  debug(message: string, fields?: LogFields) {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields) {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields) {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields) {
+    this.log('error', message, fields);
+  }
+
+  private log(level: LogLevel, message: string, fields?: LogFields) {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[this.level]) {
+      return;
+    }
+
+    try {
+      this.logger[level](
+        redactString(message),
+        fields && (redact(fields) as LogFields)
+      );
+    } catch (err) {
+      // a broken logger mustn't break requests
+    }
+  }
+}
+
+export interface JsonLinesLoggerOptions {
+  /**
+   * default value: process.stdout
+   */
+  stream?: { write(chunk: string): unknown };
+}
+
+/**
+ * write one JSON object per line, eg:
+ * {"time":"2024-01-01T00:00:00.000Z","level":"info","message":"request succeeded","method":"putObject"}
+ */
+export function createJsonLinesLogger(
+  opts: JsonLinesLoggerOptions = {}
+): Logger {
+  const write = (level: LogLevel, message: string, fields?: LogFields) => {
+    const stream = opts.stream || process.stdout;
+    stream.write(
+      `${JSON.stringify({
+        time: new Date().toISOString(),
+        level,
+        message,
+        ...fields,
+      })}\n`
+    );
+  };
+
+  return {
+    debug: (message, fields) => write('debug', message, fields),
+    info: (message, fields) => write('info', message, fields),
+    warn: (message, fields) => write('warn', message, fields),
+    error: (message, fields) => write('error', message, fields),
+  };
+}
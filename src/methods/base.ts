@@ -6,42 +6,123 @@ import axios, {
   AxiosResponse,
   Method,
 } from 'axios';
-import { ISigV4Credentials, SignersV4 } from '../signatureV4';
+import {
+  ISigOptions,
+  ISigV4Credentials,
+  SignersV4,
+  STREAMING_PAYLOAD_HASH,
+} from '../signatureV4';
 import { Headers, StringKeys } from '../interface';
 import TosServerError, { TosServerErrorData } from '../TosServerError';
 import {
-  encodeHeadersValue,
   getEndpoint,
   getNormalDataFromError,
   getSortedQueryString,
+  isBlob,
+  isBuffer,
+  isReadable,
   normalizeProxy,
 } from '../utils';
 import version from '../version';
 import { TosAgent } from '../nodejs/TosAgent';
-import TosClientError from '../TosClientError';
+import {
+  createChunkSigningStream,
+  getChunkedContentLength,
+} from '../nodejs/ChunkSigningStream';
+import { getProxyFromEnv, getProxyKey, ProxyConfig } from '../nodejs/proxy';
+import { DnsCacheOptions, DnsResolver, LookupHook } from '../nodejs/dnsCache';
+import { FromEnvOptions, loadOptionsFromEnv } from '../nodejs/envConfig';
+import {
+  ConnectionMonitor,
+  ConnectionStats,
+} from '../nodejs/connectionMonitor';
+import TosClientError, {
+  TosClientErrorCode,
+  TosValidationError,
+} from '../TosClientError';
 import {
   DEFAULT_CONTENT_TYPE,
   getObjectInputKey,
   lookupMimeType,
   validateObjectName,
 } from './object/utils';
-import { makeAxiosInst } from '../axios';
+import { getAttemptCount, makeAxiosInst } from '../axios';
+import { isIdempotentMethod, RetryStrategy } from '../retryStrategy';
 import type { CRCCls } from '../universal/crc';
-import * as log from '../log';
+import { debugLogger, LogFields, Logger, LogLevel, TosLogger } from '../logger';
 import mpAdapter from '../axios-miniprogram-adapter';
 import uniappAdapter from 'axios-adapter-uniapp';
 import os from 'os';
-import { retrySignatureNamespace } from '../axios';
+import { retryNamespace, retrySignatureNamespace } from '../axios';
+import {
+  CredentialsCache,
+  CredentialsProvider,
+  TosCredentials,
+} from '../credentials';
+import { CancelError } from '../CancelError';
+import { makeNetworkError } from '../errorUtils';
+import { ClockSkew } from '../clockSkew';
+import {
+  EndpointFailoverOptions,
+  EndpointRouter,
+  isEndpointFailure,
+} from '../endpointRouter';
+import {
+  TosClientEventListener,
+  TosClientEvents,
+  TosEventEmitter,
+} from '../events';
+import {
+  makeDefaultMiddlewareStack,
+  MiddlewareContext,
+  MiddlewareStack,
+} from '../middleware';
+import {
+  Instrumentation,
+  SpanResult,
+  TosInstrumentation,
+  TosSpan,
+} from '../instrumentation';
+
+export type PayloadSigningMode = 'unsigned' | 'sha256' | 'chunked';
 
 export interface TOSConstructorOptions {
-  accessKeyId: string;
-  accessKeySecret: string;
+  /**
+   * required if `credentialsProvider` isn't provided
+   */
+  accessKeyId?: string;
+  /**
+   * required if `credentialsProvider` isn't provided
+   */
+  accessKeySecret?: string;
   stsToken?: string;
+  /**
+   * provide refreshable credentials, for example STS token which will expire.
+   * `accessKeyId`, `accessKeySecret` and `stsToken` are ignored if it's provided.
+   *
+   * the client caches the returned credentials and refreshes them before they expire.
+   */
+  credentialsProvider?: CredentialsProvider;
+  /**
+   * unit: ms
+   * default value: 5min
+   * refresh credentials when they will expire within this time
+   */
+  credentialsRefreshThreshold?: number;
   bucket?: string;
   endpoint?: string;
+  /**
+   * the ordered endpoints, eg: the intranet endpoint and the extranet endpoint.
+   * the requests are sent to the first healthy one, `endpoint` is ignored if it's provided.
+   * listen to `endpointChange` event to know the routing decisions.
+   */
+  endpoints?: string[];
+  /**
+   * the circuit breaker of `endpoints`
+   */
+  endpointFailover?: EndpointFailoverOptions;
   /**
    * default value: true
-   * when using proxyHost&proxyPort, it needs to be set to false
    */
   secure?: boolean;
   region: string;
@@ -54,18 +135,49 @@ export interface TOSConstructorOptions {
     | {
         url: string;
         needProxyParams?: boolean;
+        /**
+         * the requests are sent unsigned and signed by the middleware of `./proxy` with its `signing` option,
+         * so `accessKeyId` and `accessKeySecret` aren't required.
+         * the methods which sign locally, eg: `getPreSignedUrl`, don't work without credentials.
+         */
+        signByProxy?: boolean;
       };
   /**
-   * proxy to general http proxy server, this feature doesn't work in browser environment.
-   * only support http proxy server.
+   * proxy to general proxy server, this feature doesn't work in browser environment.
    * proxyHost and proxyPort are required if the proxy function works.
-   * HINT: need set `secure` field false
+   * the https requests are sent in the tunnel made by `CONNECT` method, so TLS is end-to-end.
    */
   proxyHost?: string;
   proxyPort?: number;
-  // username and password don't be supported currently
-  // proxyUsername?: string;
-  // proxyPassword?: string;
+  /**
+   * the Basic authentication of the proxy server
+   */
+  proxyUsername?: string;
+  proxyPassword?: string;
+  /**
+   * the protocol to connect to the proxy server
+   * default value: http
+   */
+  proxyProtocol?: 'http' | 'https';
+  /**
+   * read the proxy server from `HTTPS_PROXY`, `HTTP_PROXY` and `NO_PROXY` environment variables
+   * if `proxyHost` isn't provided.
+   * default value: true
+   */
+  proxyFromEnv?: boolean;
+
+  /**
+   * resolve the hosts by yourself, eg: pin the hosts of VPC endpoints without editing `/etc/hosts`.
+   * return undefined to resolve the host by the system DNS.
+   * this feature doesn't work in browser environment.
+   */
+  lookup?: LookupHook;
+  /**
+   * cache the resolved addresses of the hosts, the requests use these addresses by round-robin.
+   * this feature doesn't work in browser environment.
+   * default value: false
+   */
+  dnsCache?: boolean | DnsCacheOptions;
 
   /**
    * default value: true
@@ -109,6 +221,12 @@ export interface TOSConstructorOptions {
    */
   maxRetryCount?: number;
 
+  /**
+   * customize when and how long to wait before retrying.
+   * default: exponential backoff with full jitter, and honour `Retry-After` header
+   */
+  retryStrategy?: RetryStrategy;
+
   // TODO: need more efficient way, 1min for 10M currently
   /**
    * default value: false
@@ -117,6 +235,17 @@ export interface TOSConstructorOptions {
    */
   enableCRC?: boolean;
 
+  /**
+   * how to sign the payload of the uploading requests, it doesn't work in browser environment.
+   * - unsigned: sign `UNSIGNED-PAYLOAD`
+   * - sha256: sign the SHA256 of `Buffer` and string bodies
+   * - chunked: like `sha256`, and the stream bodies of known length are signed chunk by chunk.
+   *   the streams of unknown length are sent with `UNSIGNED-PAYLOAD`,
+   *   because the signed chunks need `x-tos-decoded-content-length`.
+   * default value: unsigned
+   */
+  payloadSigning?: PayloadSigningMode;
+
   /**
    * set request adapter to send request.
    */
@@ -141,6 +270,26 @@ export interface TOSConstructorOptions {
    */
   forcePathStyle?: boolean;
 
+  /**
+   * receive the structured logs of the client, eg: `createJsonLinesLogger()`.
+   * credentials, signatures, SSE-C keys and presigned query strings are always redacted.
+   *
+   * default: write to the `TOS` channel of `debug`
+   */
+  logger?: Logger;
+
+  /**
+   * the min level of logs which are passed to `logger`
+   * default value: info
+   */
+  logLevel?: LogLevel;
+
+  /**
+   * trace the method calls and their request attempts, and record metrics.
+   * the interfaces are compatible with OpenTelemetry, see `Instrumentation`.
+   */
+  instrumentation?: Instrumentation;
+
   userAgentProductName?: string;
   userAgentSoftName?: string;
   userAgentSoftVersion?: string;
@@ -158,6 +307,7 @@ interface NormalizedTOSConstructorOptions extends TOSConstructorOptions {
   idleConnectionTime: number;
   maxRetryCount: number;
   enableCRC: boolean;
+  credentialsRefreshThreshold: number;
 }
 
 interface GetSignatureQueryUrlInput {
@@ -185,11 +335,87 @@ type GetSignatureQueryInput =
 
 interface FetchOpts<T> {
   needMd5?: boolean;
+  /**
+   * whether the request can be retried without side effect.
+   * default: true for GET, HEAD, PUT, DELETE and OPTIONS, false for POST
+   */
+  idempotent?: boolean;
   handleResponse?: (response: AxiosResponse<T>) => T;
   subdomainBucket?: string;
+  // the key of object, it's passed to middlewares
+  objectKey?: string;
   axiosOpts?: AxiosRequestConfig;
 }
 
+/**
+ * the common fields of all method inputs
+ */
+export interface GenericInput {
+  /**
+   * abort the method, it rejects with `CancelError` after aborting.
+   * pending retries and rate limiter waits are stopped too.
+   */
+  abortSignal?: AbortSignal;
+
+  /**
+   * override the options of the client for this call
+   */
+  requestOptions?: RequestOptions;
+}
+
+/**
+ * the client options which can be overridden for one call or by `withOptions`
+ */
+export type RequestOptions = Partial<
+  Pick<
+    TOSConstructorOptions,
+    | 'region'
+    | 'endpoint'
+    | 'secure'
+    | 'requestTimeout'
+    | 'maxRetryCount'
+    | 'proxy'
+    | 'proxyHost'
+    | 'proxyPort'
+    | 'proxyUsername'
+    | 'proxyPassword'
+    | 'proxyProtocol'
+  >
+>;
+
+/**
+ * the options of one method call, they are shared by the nested calls.
+ */
+interface RequestContext {
+  // the name of the called method
+  operation?: string;
+  abortSignal?: AbortSignal;
+  // the span of the called method
+  span?: TosSpan;
+  // sign the request by query instead of sending it, see `presign`
+  presign?: { expires: number };
+}
+
+export interface PresignOutput {
+  url: string;
+  method: string;
+  /**
+   * the headers must be sent with the url, all of them are signed
+   */
+  headers: Record<string, string>;
+  /**
+   * the body built by the method, eg: the parts of `completeMultipartUpload`
+   */
+  body?: string;
+}
+
+/**
+ * it's thrown by `fetch` to stop the method after the request is presigned
+ */
+export class PresignedRequest {
+  constructor(public readonly output: PresignOutput) {}
+}
+
 export interface TosResponse<T> {
   data: T;
 
@@ -215,23 +441,103 @@ export class TOSBase {
 
   userAgent: string;
 
+  /**
+   * add middlewares to change the requests or handle the responses and errors
+   */
+  middlewareStack: MiddlewareStack = makeDefaultMiddlewareStack();
+
+  logger: TosLogger;
+
+  /**
+   * corrected when the server rejects the requests for the skewed local clock
+   */
+  clockSkew = new ClockSkew();
+
+  instrumentation: TosInstrumentation;
+
+  private events = new TosEventEmitter();
+
+  private endpointRouter: EndpointRouter | null = null;
+
   private httpAgent: unknown;
   private httpsAgent: unknown;
+  // the agents of proxy servers, the key is made by `isHttps` and the proxy
+  private proxyAgents = new Map<string, unknown>();
+  private dnsResolver: DnsResolver | null = null;
+  private connectionMonitor: ConnectionMonitor | null = null;
+
+  private credentialsCache: CredentialsCache | null = null;
+
+  protected requestContext: RequestContext = {};
+
+  // the keys of TOSBase instance, they aren't API methods
+  private baseKeys: Set<string>;
 
   constructor(_opts: TOSConstructorOptions) {
     this.opts = this.normalizeOpts(_opts);
+    this.logger = this.opts.logger
+      ? new TosLogger(this.opts.logger, this.opts.logLevel || 'info')
+      : new TosLogger(debugLogger, 'debug');
+    this.instrumentation = new TosInstrumentation(this.opts.instrumentation);
+    if (this.opts.endpoints && this.opts.endpoints.length > 1) {
+      this.endpointRouter = new EndpointRouter(
+        this.opts.endpoints,
+        this.opts.endpointFailover || {},
+        (event) => {
+          this.logger.warn('endpoint is changed', { ...event });
+          this.events.emit('endpointChange', event);
+        }
+      );
+    }
+
+    if (this.opts.credentialsProvider) {
+      this.credentialsCache = new CredentialsCache(
+        this.opts.credentialsProvider,
+        this.opts.credentialsRefreshThreshold,
+        this.logger
+      );
+    }
 
     if (process.env.TARGET_ENVIRONMENT === 'node') {
-      this.httpAgent = TosAgent({ tosOpts: { ...this.opts, isHttps: false } });
-      // fix axios issue, it uses `httpsAgent` although http proxy is enabled.
-      const isProxy = !!this.opts.proxyHost;
-      this.httpsAgent = TosAgent({
-        tosOpts: { ...this.opts, isHttps: !isProxy },
-      });
+      if (this.opts.lookup || this.opts.dnsCache) {
+        this.dnsResolver = new DnsResolver(
+          this.opts.lookup,
+          this.opts.dnsCache
+        );
+      }
+      this.connectionMonitor = new ConnectionMonitor((type, event) =>
+        this.events.emit(type, event)
+      );
+      this.httpAgent = this.makeNodeAgent(false);
+      this.httpsAgent = this.makeNodeAgent(true);
     }
 
     this.userAgent = this.getUserAgent();
-    this.axiosInst = makeAxiosInst(this.opts.maxRetryCount);
+    this.axiosInst = makeAxiosInst(
+      this.opts.maxRetryCount,
+      this.opts.retryStrategy,
+      this.logger,
+      this.clockSkew
+    );
+    this.baseKeys = new Set(Object.keys(this));
+  }
+
+  /**
+   * create the client by `TOS_ACCESS_KEY`, `TOS_SECRET_KEY`, `TOS_SECURITY_TOKEN`, `TOS_REGION`,
+   * `TOS_ENDPOINT` etc. environment variables and the profile of the config file.
+   * `options` overrides them. this feature doesn't work in browser environment.
+   */
+  static fromEnv<T extends TOSBase>(
+    this: new (opts: TOSConstructorOptions) => T,
+    options: FromEnvOptions = {}
+  ): T {
+    if (process.env.TARGET_ENVIRONMENT !== 'node') {
+      throw new TosClientError(
+        '`fromEnv` is not supported in browser environment',
+        TosClientErrorCode.NotSupported
+      );
+    }
+    return new this(loadOptionsFromEnv(options));
   }
 
   private normalizeOpts(_opts: TOSConstructorOptions) {
@@ -251,27 +557,27 @@ export class TOSBase {
       }
     });
 
-    const mustKeys = ['accessKeyId', 'accessKeySecret', 'region'];
+    const mustKeys =
+      _opts.credentialsProvider || normalizeProxy(_opts.proxy)?.signByProxy
+        ? ['region']
+        : ['accessKeyId', 'accessKeySecret', 'region'];
     const mustKeysErrorStr = mustKeys
       .filter((key) => !(_opts as any)[key])
       .join(', ');
 
     if (mustKeysErrorStr) {
-      throw new TosClientError(`lack params: ${mustKeysErrorStr}.`);
-    }
-
-    const endpoint = _opts.endpoint || getEndpoint(_opts.region);
-    if (!endpoint) {
-      throw new TosClientError(
-        `the value of param region is invalid, correct values are cn-beijing, cn-nantong etc.`
+      throw new TosValidationError(
+        `lack params: ${mustKeysErrorStr}.`,
+        TosClientErrorCode.MissingParam
       );
     }
 
-    if (endpoint.includes('s3')) {
-      throw new TosClientError(
-        `do not support s3 endpoint, please use tos endpoint.`
-      );
-    }
+    const endpoints = _opts.endpoints?.length
+      ? _opts.endpoints.map((it) => validateEndpoint(it.trim()))
+      : undefined;
+    const endpoint = validateEndpoint(
+      endpoints?.[0] || _opts.endpoint || getEndpoint(_opts.region)
+    );
 
     const secure = _opts.secure == null ? true : !!_opts.secure;
     const _default = <T extends unknown>(
@@ -281,12 +587,16 @@ export class TOSBase {
 
     const enableCRC = _opts.enableCRC ?? false;
     if (enableCRC && process.env.TARGET_ENVIRONMENT === 'browser') {
-      throw new TosClientError('not support crc in browser environment');
+      throw new TosClientError(
+        'not support crc in browser environment',
+        TosClientErrorCode.NotSupported
+      );
     }
 
     return {
       ..._opts,
       endpoint,
+      endpoints,
       secure,
       enableVerifySSL: _default(_opts.enableVerifySSL, true),
       autoRecognizeContentType: _default(_opts.autoRecognizeContentType, true),
@@ -296,6 +606,10 @@ export class TOSBase {
       idleConnectionTime: _default(_opts.idleConnectionTime, 30_000),
       maxRetryCount: _default(_opts.maxRetryCount, 3),
       enableCRC: _opts.enableCRC ?? false,
+      credentialsRefreshThreshold: _default(
+        _opts.credentialsRefreshThreshold,
+        5 * 60_000
+      ),
       requestAdapter: getAdapter(),
     };
   }
@@ -367,151 +681,419 @@ export class TOSBase {
   ): Promise<TosResponse<Data>> {
     const handleResponse = opts?.handleResponse || ((res) => res.data);
     const needMd5 = opts?.needMd5 || false;
+    const { abortSignal } = this.requestContext;
+    if (abortSignal?.aborted) {
+      throw new CancelError('the request is aborted');
+    }
 
     if (body && needMd5) {
       const md5String = hashMd5(JSON.stringify(body), 'base64');
       headers['content-md5'] = md5String;
     }
 
-    const [endpoint, newPath] = (() => {
+    const getHostAndPath = (endpoint: string) => {
       if (opts?.subdomainBucket && this.opts.forcePathStyle) {
-        return [this.opts.endpoint, `/${opts.subdomainBucket}${path}`];
+        return [endpoint, `/${opts.subdomainBucket}${path}`];
       }
       // if isCustomDomain true, not add subdomainBucket
       if (opts?.subdomainBucket && !this.opts.isCustomDomain) {
         // endpoint is ip address
-        if (/^(\d|:)/.test(this.opts.endpoint)) {
-          return [this.opts.endpoint, `/${opts.subdomainBucket}${path}`];
+        if (/^(\d|:)/.test(endpoint)) {
+          return [endpoint, `/${opts.subdomainBucket}${path}`];
         }
-        return [`${opts?.subdomainBucket}.${this.opts.endpoint}`, path];
+        return [`${opts?.subdomainBucket}.${endpoint}`, path];
       }
-      return [this.opts.endpoint, path];
-    })();
-    path = newPath;
-
-    headers = encodeHeadersValue(headers);
+      return [endpoint, path];
+    };
+    const getBaseURL = (host: string) =>
+      `http${this.opts.secure ? 's' : ''}://${host}`;
+
+    const endpointRouter = this.opts.endpoints ? this.endpointRouter : null;
+    let requestEndpoint = endpointRouter
+      ? endpointRouter.current()
+      : this.opts.endpoint;
+    const [endpoint, newPath] = getHostAndPath(requestEndpoint);
+
+    const context: MiddlewareContext = {
+      operation: this.requestContext.operation || '',
+      bucket: opts?.subdomainBucket,
+      key: opts?.objectKey,
+      clientOptions: this.opts,
+      request: {
+        method,
+        host: endpoint,
+        baseURL: getBaseURL(endpoint),
+        path: newPath,
+        query: { ...query },
+        headers: { ...headers },
+        body,
+      },
+    };
+    await this.middlewareStack.run('build', context);
+    await this.middlewareStack.run('beforeSign', context);
 
-    const signOpt = {
+    const { request } = context;
+    if (this.requestContext.presign) {
+      throw new PresignedRequest(
+        await this.presignRequest(request, this.requestContext.presign.expires)
+      );
+    }
+    // the proxy signs the request, see the `signing` option of `./proxy`
+    const signByProxy = !!normalizeProxy(this.opts.proxy)?.signByProxy;
+    const isChunkedPayload =
+      !signByProxy && this.prepareChunkedPayload(request);
+    const signOpt: ISigOptions = {
       // TODO: delete endpoints and buckets
       endpoints: undefined,
       bucket: '',
 
-      method,
-      headers: { ...headers },
-      path,
-      query: getSortedQueryString(query),
-      host: endpoint,
+      method: request.method,
+      headers: { ...request.headers },
+      path: request.path,
+      query: getSortedQueryString(request.query),
+      host: request.host,
     };
 
-    const signv4 = new ISigV4Credentials(
-      this.opts.stsToken,
-      this.opts.accessKeySecret,
-      this.opts.accessKeyId
-    );
-
-    const sig = new SignersV4(
-      {
-        algorithm: 'TOS4-HMAC-SHA256',
+    const makeSigInst = async () =>
+      this.makeSigInst(await this.getCredentials(), {
         region: this.opts.region,
-        serviceName: 'tos',
         bucket: '',
-        securityToken: this.opts.stsToken,
-      },
-      signv4
-    );
+      });
+    const sig = signByProxy ? null : await makeSigInst();
 
-    const signatureHeaders = sig.signatureHeader(signOpt);
-    const reqHeaders = { ...headers };
+    request.headers = { ...request.headers };
+    sig?.signatureHeader(signOpt).forEach((value, key) => {
+      request.headers[key] = value;
+    });
+    // the stream is signed by the signer of the current attempt
+    const makeChunkedStream = (stream: NodeJS.ReadableStream) => {
+      if (process.env.TARGET_ENVIRONMENT === 'node') {
+        return createChunkSigningStream(stream, () => signOpt.chunkSigner);
+      }
+      return stream;
+    };
+    if (isChunkedPayload) {
+      request.body = makeChunkedStream(request.body as NodeJS.ReadableStream);
+    }
+    request.headers['user-agent'] = this.userAgent;
+    await this.middlewareStack.run('afterSign', context);
 
     const reqOpts: AxiosRequestConfig = {
-      method,
-      baseURL: `http${this.opts.secure ? 's' : ''}://${endpoint}`,
-      url: path,
-      params: query,
-      headers: reqHeaders,
-      data: body,
+      method: request.method,
+      baseURL: request.baseURL,
+      url: request.path,
+      params: request.query,
+      headers: request.headers,
+      data: request.body,
     };
 
-    signatureHeaders.forEach((value, key) => {
-      reqOpts.headers[key] = value;
-    });
-
-    const normalizedProxy = normalizeProxy(this.opts.proxy);
-    if (normalizedProxy?.url && !this.opts.proxyHost) {
-      // proxy for nodejs middleware server
-      reqOpts.baseURL = normalizedProxy.url;
-      if (normalizedProxy?.needProxyParams) {
-        reqOpts.params['x-proxy-tos-host'] = endpoint;
-        delete reqHeaders['host'];
-      }
-    } else if (this.opts.proxyHost) {
-      if (!this.opts.proxyPort) {
-        throw new TosClientError(
-          'The `proxyPort` is required if `proxyHost` is truly.'
-        );
-      }
-
-      // proxy for general proxy server
-      reqOpts.proxy = {
-        host: this.opts.proxyHost,
-        port: this.opts.proxyPort,
-        protocol: 'http',
-      };
+    if (this.opts.proxyHost && !this.opts.proxyPort) {
+      throw new TosValidationError(
+        'The `proxyPort` is required if `proxyHost` is truly.',
+        TosClientErrorCode.MissingParam
+      );
     }
 
-    reqHeaders['user-agent'] = this.userAgent;
     if (this.opts.requestTimeout > 0 && this.opts.requestTimeout !== Infinity) {
       reqOpts.timeout = this.opts.requestTimeout;
     }
 
     if (process.env.TARGET_ENVIRONMENT === 'node') {
-      reqOpts.httpAgent = this.httpAgent;
-      reqOpts.httpsAgent = this.httpsAgent;
+      const proxy = this.getNodeProxy(request.baseURL);
+      reqOpts.httpAgent = this.getNodeAgent(false, proxy);
+      reqOpts.httpsAgent = this.getNodeAgent(true, proxy);
+      // the agent tunnels the https requests, axios only sends the http requests to the proxy server.
+      // the proxy of environment variables is handled by `getNodeProxy`, so disable it of axios.
+      reqOpts.proxy =
+        proxy && !request.baseURL.startsWith('https:')
+          ? {
+              host: proxy.host,
+              port: proxy.port,
+              protocol: proxy.protocol,
+              auth: proxy.username
+                ? { username: proxy.username, password: proxy.password || '' }
+                : undefined,
+            }
+          : false;
+    }
+
+    let removeAbortListener = () => {};
+    if (abortSignal) {
+      const source = axios.CancelToken.source();
+      const onAbort = () => source.cancel('the request is aborted');
+      abortSignal.addEventListener('abort', onAbort);
+      removeAbortListener = () =>
+        abortSignal.removeEventListener('abort', onAbort);
+      reqOpts.cancelToken = source.token;
     }
 
+    const retryConfig = opts?.axiosOpts?.[retryNamespace];
+    const logFields: LogFields = {
+      method: context.operation,
+      bucket: context.bucket,
+      key: context.key,
+    };
+    // route the retried request to the healthy endpoint if middlewares don't change the url
+    const getRetryTarget = () => {
+      const isDefaultURL =
+        request.baseURL === getBaseURL(endpoint) && request.path === newPath;
+      const nextEndpoint = endpointRouter?.current();
+      if (!isDefaultURL || !nextEndpoint || nextEndpoint === requestEndpoint) {
+        return undefined;
+      }
+
+      requestEndpoint = nextEndpoint;
+      const [host, retryPath] = getHostAndPath(nextEndpoint);
+      return { host, baseURL: getBaseURL(host), path: retryPath };
+    };
+    const adapter = this.makeAdapter(
+      context,
+      endpointRouter,
+      () => requestEndpoint
+    );
+    const startTime = Date.now();
     try {
-      const logReqOpts = { ...reqOpts };
-      delete logReqOpts.httpAgent;
-      delete logReqOpts.httpsAgent;
-      log.TOS('reqOpts: ', logReqOpts);
+      this.logger.debug('send request', {
+        ...logFields,
+        httpMethod: request.method,
+        url: `${request.baseURL}${request.path}`,
+        query: request.query,
+        headers: request.headers,
+      });
       const res = await this.axiosInst({
         ...{
           maxBodyLength: Infinity,
           maxContentLength: Infinity,
-          adapter: this.opts.requestAdapter,
+          adapter,
         },
         ...reqOpts,
         ...(opts?.axiosOpts || {}),
-        [retrySignatureNamespace]: {
-          signOpt,
-          sigInst: sig,
+        [retryNamespace]: {
+          idempotent: opts?.idempotent ?? isIdempotentMethod(method),
+          abortSignal,
+          maxRetryCount: this.opts.maxRetryCount,
+          logFields,
+          getRetryTarget,
+          ...retryConfig,
+          ...(isChunkedPayload && retryConfig?.makeRetryStream
+            ? {
+                makeRetryStream: () => {
+                  const stream = retryConfig.makeRetryStream?.();
+                  return stream && makeChunkedStream(stream);
+                },
+              }
+            : {}),
         },
+        [retrySignatureNamespace]: sig
+          ? {
+              signOpt,
+              sigInst: sig,
+              makeSigInst,
+            }
+          : undefined,
+      });
+
+      this.logger.info('request succeeded', {
+        ...logFields,
+        requestId: res.headers['x-tos-request-id'],
+        statusCode: res.status,
+        attempt: getAttemptCount(res.config),
+        duration: Date.now() - startTime,
       });
 
       const data = handleResponse(res);
-      return {
+      context.response = {
         data,
         statusCode: res.status,
         headers: res.headers,
         requestId: res.headers['x-tos-request-id'],
         id2: res.headers['x-tos-id-2'],
       };
+      await this.middlewareStack.run('afterResponse', context);
+      return context.response as TosResponse<Data>;
     } catch (err) {
-      if (
+      context.response = undefined;
+      // it is neither ServerError nor ClientError by default, it's other error
+      context.error = err;
+      if (axios.isCancel(err) && abortSignal?.aborted) {
+        context.error = new CancelError('the request is aborted');
+      } else if (
         axios.isAxiosError(err) &&
         err.response?.headers?.['x-tos-request-id']
       ) {
         // it's ServerError only if `RequestId` exists
         const response: AxiosResponse<TosServerErrorData> = err.response;
-        log.TOS('TosServerError response: ', response);
-        const err2 = new TosServerError(response);
-        throw err2;
+        context.error = new TosServerError(response);
+      } else if (axios.isAxiosError(err)) {
+        context.error = makeNetworkError(err);
+      }
+
+      const failedFields: LogFields = {
+        ...logFields,
+        requestId: axios.isAxiosError(err)
+          ? err.response?.headers?.['x-tos-request-id']
+          : undefined,
+        statusCode: axios.isAxiosError(err) ? err.response?.status : undefined,
+        attempt: axios.isAxiosError(err) ? getAttemptCount(err.config) : 1,
+        duration: Date.now() - startTime,
+        error: context.error,
+      };
+      if (context.error instanceof CancelError) {
+        this.logger.info('request is aborted', failedFields);
+      } else if (
+        context.error instanceof TosServerError &&
+        context.error.statusCode < 500
+      ) {
+        this.logger.warn('request failed', failedFields);
+      } else {
+        this.logger.error('request failed', failedFields);
+      }
+
+      await this.middlewareStack.run('onError', context);
+      if (context.response) {
+        return context.response as TosResponse<Data>;
+      }
+      throw context.error;
+    } finally {
+      removeAbortListener();
+    }
+  }
+
+  /**
+   * sign the stream body chunk by chunk if `payloadSigning` is `chunked` and the length is known,
+   * `content-length` is the length of the encoded body.
+   */
+  private prepareChunkedPayload(request: MiddlewareContext['request']) {
+    const { headers } = request;
+    if (process.env.TARGET_ENVIRONMENT === 'node') {
+      const decodedLength = headers['content-length'];
+      if (
+        this.opts.payloadSigning !== 'chunked' ||
+        !isReadable(request.body) ||
+        headers['x-tos-content-sha256'] ||
+        // TOS server needs the decoded length, the stream of unknown length is unsigned
+        !decodedLength
+      ) {
+        return false;
+      }
+
+      headers['x-tos-content-sha256'] = STREAMING_PAYLOAD_HASH;
+      headers['x-tos-decoded-content-length'] = decodedLength;
+      headers['content-length'] = `${getChunkedContentLength(+decodedLength)}`;
+      return true;
+    }
+    return false;
+  }
+
+  // the proxies and the agents only work in nodejs,
+  // keep them in the node branches so that the browser bundle drops them
+  private getNodeProxy(baseURL: string): ProxyConfig | undefined {
+    if (process.env.TARGET_ENVIRONMENT === 'node') {
+      const { proxyHost, proxyPort, proxyFromEnv = true } = this.opts;
+      if (proxyHost && proxyPort) {
+        return {
+          protocol: this.opts.proxyProtocol || 'http',
+          host: proxyHost,
+          port: proxyPort,
+          username: this.opts.proxyUsername,
+          password: this.opts.proxyPassword,
+        };
+      }
+      if (!proxyFromEnv) {
+        return undefined;
       }
 
-      // it is neither ServerError nor ClientError, it's other error
-      log.TOS('err: ', err);
-      throw err;
+      const url = new URL(baseURL);
+      const isHttps = url.protocol === 'https:';
+      return getProxyFromEnv(
+        isHttps,
+        url.hostname.replace(/^\[|\]$/g, ''),
+        url.port ? +url.port : isHttps ? 443 : 80
+      );
+    }
+    return undefined;
+  }
+
+  private makeNodeAgent(isHttps: boolean, proxy?: ProxyConfig): unknown {
+    if (process.env.TARGET_ENVIRONMENT === 'node') {
+      return TosAgent({
+        tosOpts: {
+          ...this.opts,
+          isHttps,
+          proxyServer: proxy,
+          dnsResolver: this.dnsResolver || undefined,
+          connectionMonitor: this.connectionMonitor || undefined,
+        },
+      });
     }
+    return undefined;
+  }
+
+  private getNodeAgent(isHttps: boolean, proxy: ProxyConfig | undefined) {
+    if (!proxy) {
+      return isHttps ? this.httpsAgent : this.httpAgent;
+    }
+
+    if (process.env.TARGET_ENVIRONMENT === 'node') {
+      const key = `${isHttps}|${getProxyKey(proxy)}`;
+      let agent = this.proxyAgents.get(key);
+      if (!agent) {
+        agent = this.makeNodeAgent(isHttps, proxy);
+        this.proxyAgents.set(key, agent);
+      }
+      return agent;
+    }
+    return undefined;
+  }
+
+  /**
+   * every attempt of the request is sent by the adapter,
+   * so start a span and update the health of the endpoint for each of them.
+   */
+  private makeAdapter(
+    context: MiddlewareContext,
+    endpointRouter: EndpointRouter | null,
+    getRequestEndpoint: () => string
+  ): AxiosAdapter | undefined {
+    const adapter = this.opts.requestAdapter || this.axiosInst.defaults.adapter;
+    if ((!this.opts.instrumentation && !endpointRouter) || !adapter) {
+      return this.opts.requestAdapter;
+    }
+
+    return async (config) => {
+      const endpoint = getRequestEndpoint();
+      const end = this.instrumentation.startAttempt(
+        context.operation,
+        context.bucket,
+        getAttemptCount(config),
+        this.requestContext.span
+      );
+      const bytesSent = getBodySize(config.headers, config.data);
+      try {
+        const res = await adapter(config);
+        endpointRouter?.onSuccess(endpoint);
+        end({
+          ...getResponseResult(res),
+          bytesSent,
+          bytesReceived: getBodySize(res.headers, res.data),
+        });
+        return res;
+      } catch (err: any) {
+        if (isEndpointFailure(err)) {
+          endpointRouter?.onFailure(endpoint, err);
+        } else {
+          endpointRouter?.onSuccess(endpoint);
+        }
+        end({
+          ...getErrorResult(err),
+          bytesSent,
+          bytesReceived: err?.response
+            ? getBodySize(err.response.headers, err.response.data)
+            : undefined,
+        });
+        throw err;
+      }
+    };
   }
 
   protected async fetchBucket<Data>(
@@ -524,7 +1106,10 @@ export class TOSBase {
   ): Promise<TosResponse<Data>> {
     const actualBucket = bucket || this.opts.bucket;
     if (!actualBucket) {
-      throw new TosClientError('Must provide bucket param');
+      throw new TosValidationError(
+        'Must provide bucket param',
+        TosClientErrorCode.MissingParam
+      );
     }
     return this.fetch(method, '/', query, headers, body, {
       ...opts,
@@ -544,7 +1129,10 @@ export class TOSBase {
       (typeof input !== 'string' && input.bucket) || this.opts.bucket;
     const actualKey = typeof input === 'string' ? input : input.key;
     if (!actualBucket) {
-      throw new TosClientError('Must provide bucket param');
+      throw new TosValidationError(
+        'Must provide bucket param',
+        TosClientErrorCode.MissingParam
+      );
     }
     validateObjectName(actualKey);
 
@@ -557,30 +1145,295 @@ export class TOSBase {
       {
         ...opts,
         subdomainBucket: actualBucket,
+        objectKey: actualKey,
       }
     );
   }
 
-  protected getSignatureQuery(
-    input: GetSignatureQueryInput
-  ): Record<string, string> {
+  /**
+   * make the API methods of the client read the per-call options(eg: `abortSignal`) of their input.
+   * the method runs with a derived client which holds these options and the method name,
+   * so the nested calls(`method.call(this, ...)`) share them.
+   */
+  protected bindRequestContext() {
+    const client = this as unknown as Record<string, unknown>;
+    Object.keys(client).forEach((key) => {
+      const method = client[key];
+      if (this.baseKeys.has(key) || typeof method !== 'function') {
+        return;
+      }
+
+      client[key] = function (this: TOSBase, ...args: unknown[]) {
+        let derivedClient: TOSBase = Object.create(this);
+        let abortSignal = this.requestContext.abortSignal;
+
+        const input = args[0] as GenericInput | undefined;
+        if (
+          input &&
+          typeof input === 'object' &&
+          (input.abortSignal || input.requestOptions)
+        ) {
+          // the method mustn't send them to server, eg: `{ bucket, ...otherProps }`
+          const { requestOptions, ...methodInput } = input;
+          delete methodInput.abortSignal;
+          if (requestOptions) {
+            derivedClient = this.withOptions(requestOptions);
+          }
+          abortSignal = input.abortSignal || abortSignal;
+          args = [methodInput, ...args.slice(1)];
+        }
+
+        const bucket =
+          (input && typeof input === 'object' && (input as any).bucket) ||
+          derivedClient.opts.bucket;
+        const { span, end } = this.instrumentation.startOperation(
+          key,
+          bucket,
+          this.requestContext.span
+        );
+        derivedClient.requestContext = {
+          operation: key,
+          abortSignal,
+          span,
+          presign: this.requestContext.presign,
+        };
+
+        let result: unknown;
+        try {
+          result = method.apply(derivedClient, args);
+        } catch (err) {
+          end(getErrorResult(err));
+          throw err;
+        }
+        if (result instanceof Promise) {
+          result.then(
+            (res) => end(getResponseResult(res)),
+            (err) =>
+              end(err instanceof PresignedRequest ? {} : getErrorResult(err))
+          );
+        } else {
+          end({});
+        }
+        return result;
+      };
+    });
+  }
+
+  on<K extends keyof TosClientEvents>(
+    event: K,
+    listener: TosClientEventListener<K>
+  ) {
+    this.events.on(event, listener);
+    return this;
+  }
+
+  off<K extends keyof TosClientEvents>(
+    event: K,
+    listener: TosClientEventListener<K>
+  ) {
+    this.events.off(event, listener);
+    return this;
+  }
+
+  /**
+   * the state of the connection pools, it's used to tune `maxConnections` and `idleConnectionTime`.
+   * the connections are managed by browsers, so it's empty in browser environment.
+   */
+  getConnectionStats(): ConnectionStats {
+    if (!this.connectionMonitor) {
+      return {
+        hosts: {},
+        createdConnections: 0,
+        reusedConnections: 0,
+        closedConnections: 0,
+        connectTimeouts: 0,
+      };
+    }
+    return this.connectionMonitor.getStats();
+  }
+
+  /**
+   * return a derived client whose options are overridden by `options`.
+   * it's cheap, the connection agents and credentials are shared with the current client.
+   */
+  withOptions(options: RequestOptions): this {
+    const derivedClient: this = Object.create(this);
+    derivedClient.opts = this.mergeRequestOptions(options);
+    return derivedClient;
+  }
+
+  private mergeRequestOptions(
+    options: RequestOptions
+  ): NormalizedTOSConstructorOptions {
+    const definedOptions = Object.fromEntries(
+      Object.entries(options).filter(([, v]) => v !== undefined)
+    ) as RequestOptions;
+    const region = definedOptions.region?.trim() || this.opts.region;
+    const endpoint =
+      definedOptions.endpoint?.trim() ||
+      (definedOptions.region ? getEndpoint(region) : this.opts.endpoint);
+
+    return {
+      ...this.opts,
+      ...definedOptions,
+      region,
+      endpoint: validateEndpoint(endpoint),
+      // the overridden endpoint isn't routed by `endpoints`
+      endpoints:
+        definedOptions.endpoint || definedOptions.region
+          ? undefined
+          : this.opts.endpoints,
+      secure:
+        definedOptions.secure == null
+          ? this.opts.secure
+          : !!definedOptions.secure,
+    };
+  }
+
+  /**
+   * force to refresh credentials by `credentialsProvider`.
+   *
+   * the sync methods(eg: `getPreSignedUrl`) can't wait for loading credentials,
+   * so call it before them if `credentialsProvider` is used.
+   */
+  async refreshCredentials(): Promise<void> {
+    await this.credentialsCache?.refresh();
+  }
+
+  protected async getCredentials(): Promise<TosCredentials> {
+    if (this.credentialsCache) {
+      return this.credentialsCache.get();
+    }
+    return this.getStaticCredentials();
+  }
+
+  protected getCredentialsSync(): TosCredentials {
+    if (this.credentialsCache) {
+      const credentials = this.credentialsCache.getSync();
+      if (!credentials) {
+        throw new TosClientError(
+          'credentials of `credentialsProvider` are not loaded or have expired, please call `refreshCredentials` first',
+          TosClientErrorCode.CredentialsNotLoaded
+        );
+      }
+      return credentials;
+    }
+    return this.getStaticCredentials();
+  }
+
+  private getStaticCredentials(): TosCredentials {
+    if (
+      !this.opts.accessKeyId &&
+      normalizeProxy(this.opts.proxy)?.signByProxy
+    ) {
+      throw new TosClientError(
+        "the credentials are held by the signing proxy, the request can't be signed locally",
+        TosClientErrorCode.NotSupported
+      );
+    }
+    return {
+      accessKeyId: this.opts.accessKeyId || '',
+      accessKeySecret: this.opts.accessKeySecret || '',
+      stsToken: this.opts.stsToken,
+    };
+  }
+
+  private makeSigInst(
+    credentials: TosCredentials,
+    opts: { region: string; bucket: string }
+  ) {
     const signv4 = new ISigV4Credentials(
-      this.opts.stsToken,
-      this.opts.accessKeySecret,
-      this.opts.accessKeyId
+      credentials.stsToken,
+      credentials.accessKeySecret,
+      credentials.accessKeyId
     );
 
-    const sig = new SignersV4(
+    return new SignersV4(
       {
         algorithm: 'TOS4-HMAC-SHA256',
-        region: this.opts.endpoint,
+        region: opts.region,
         serviceName: 'tos',
-        // SignV4 uses this.options.bucket, so set it here
-        bucket: input.bucket,
-        securityToken: this.opts.stsToken,
+        bucket: opts.bucket,
+        securityToken: credentials.stsToken,
+        clockOffset: this.clockSkew.offset,
       },
       signv4
     );
+  }
+
+  private async presignRequest(
+    request: MiddlewareContext['request'],
+    expires: number
+  ): Promise<PresignOutput> {
+    const headers: Record<string, string> = {};
+    Object.keys(request.headers).forEach((key) => {
+      const value = request.headers[key];
+      // browsers set them by themselves
+      if (value != null && key !== 'host' && key !== 'content-length') {
+        headers[key] = `${value}`;
+      }
+    });
+    const query: Record<string, string> = {};
+    Object.keys(request.query).forEach((key) => {
+      if (request.query[key] != null) {
+        query[key] = `${request.query[key]}`;
+      }
+    });
+
+    const sig = this.makeSigInst(await this.getCredentials(), {
+      region: this.opts.region,
+      bucket: '',
+    });
+    const signedQuery = sig.getSignatureQuery(
+      {
+        method: request.method,
+        path: request.path,
+        host: request.host,
+        headers: { ...headers },
+        query,
+        extraSignedHeaders: Object.keys(headers),
+      },
+      expires
+    );
+
+    let { baseURL } = request;
+    const normalizedProxy = normalizeProxy(this.opts.proxy);
+    if (normalizedProxy?.url) {
+      baseURL = normalizedProxy.url.replace(/\/+$/g, '');
+      if (normalizedProxy.needProxyParams) {
+        signedQuery['x-proxy-tos-host'] = request.host;
+      }
+    }
+    const queryStr = Object.keys(signedQuery)
+      .map(
+        (key) =>
+          `${encodeURIComponent(key)}=${encodeURIComponent(signedQuery[key])}`
+      )
+      .join('&');
+
+    const { body } = request;
+    const isJSONBody =
+      body != null &&
+      typeof body === 'object' &&
+      !isBuffer(body) &&
+      !isBlob(body) &&
+      !isReadable(body);
+    return {
+      url: `${baseURL}${request.path}?${queryStr}`,
+      method: request.method.toUpperCase(),
+      headers,
+      body: isJSONBody ? JSON.stringify(body) : undefined,
+    };
+  }
+
+  protected getSignatureQuery(
+    input: GetSignatureQueryInput
+  ): Record<string, string> {
+    const sig = this.makeSigInst(this.getCredentialsSync(), {
+      region: this.opts.endpoint,
+      // SignV4 uses this.options.bucket, so set it here
+      bucket: input.bucket,
+    });
 
     if ('policy' in input) {
       return sig.getSignaturePolicyQuery(
@@ -610,7 +1463,10 @@ export class TOSBase {
       (typeof opts !== 'string' && opts.bucket) || this.opts.bucket;
     const actualKey = typeof opts === 'string' ? opts : opts.key;
     if (!actualBucket) {
-      throw new TosClientError('Must provide bucket param');
+      throw new TosValidationError(
+        'Must provide bucket param',
+        TosClientErrorCode.MissingParam
+      );
     }
     return `/${actualBucket}/${encodeURIComponent(actualKey)}`;
   };
@@ -651,6 +1507,64 @@ export class TOSBase {
 
 export default TOSBase;
 
+function validateEndpoint(endpoint: string | undefined): string {
+  if (!endpoint) {
+    throw new TosValidationError(
+      `the value of param region is invalid, correct values are cn-beijing, cn-nantong etc.`,
+      TosClientErrorCode.InvalidRegion
+    );
+  }
+
+  if (endpoint.includes('s3')) {
+    throw new TosValidationError(
+      `do not support s3 endpoint, please use tos endpoint.`,
+      TosClientErrorCode.InvalidEndpoint
+    );
+  }
+  return endpoint;
+}
+
+function getBodySize(headers: any, body: unknown): number | undefined {
+  const contentLength = headers?.['content-length'];
+  if (contentLength != null && contentLength !== '') {
+    return +contentLength;
+  }
+  if (isBuffer(body)) {
+    return body.length;
+  }
+  if (isBlob(body)) {
+    return body.size;
+  }
+  if (typeof body === 'string') {
+    return typeof Buffer !== 'undefined'
+      ? Buffer.byteLength(body)
+      : body.length;
+  }
+  return undefined;
+}
+
+// read the result from `TosResponse` and `AxiosResponse`
+function getResponseResult(res: any): SpanResult {
+  if (!res || typeof res !== 'object') {
+    return {};
+  }
+  const headers = res.headers || {};
+  return {
+    statusCode: res.statusCode ?? res.status,
+    requestId: res.requestId ?? headers['x-tos-request-id'],
+    id2: res.id2 ?? headers['x-tos-id-2'],
+  };
+}
+
+// read the result from `TosServerError` and axios error
+function getErrorResult(err: any): SpanResult {
+  const result =
+    err instanceof TosServerError
+      ? getResponseResult(err)
+      : getResponseResult(err?.response);
+  return { ...result, error: err };
+}
+
 function getAdapter(): AxiosAdapter | undefined {
   if (process.env.TARGET_ENVIRONMENT === 'node') {
     // nodejs env
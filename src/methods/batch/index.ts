@@ -1,4 +1,4 @@
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 import { convertNormalCamelCase2Upper, paramsSerializer } from '../../utils';
 import { StorageClassType, TierType } from '../../TosExportEnum';
 export type JobStatusType =
@@ -66,26 +66,26 @@ export interface ProgressSummary {
   NumberOfTasksFailed: number;
 }
 
-export interface ListBatchInput {
+export interface ListBatchInput extends GenericInput {
   accountId: string;
   jobStatuses?: string[];
   nextToken?: string;
   maxResults?: number;
 }
 
-export interface UpdateJobPriorityInput {
+export interface UpdateJobPriorityInput extends GenericInput {
   jobId: string;
   priority: number;
   accountId: string;
 }
-export interface UpdateJobStatusInput {
+export interface UpdateJobStatusInput extends GenericInput {
   jobId: string;
   accountId: string;
   requestedJobStatus: 'Ready' | 'Cancelled';
   statusUpdateReason?: string;
 }
 
-export interface JobInput {
+export interface JobInput extends GenericInput {
   JobId: string;
   accountId: string;
 }
@@ -145,7 +145,7 @@ export interface TOSDeleteObjectTagging {
   TOSDeleteObjectTagging: {};
 }
 
-export type PutJobInput = {
+export type PutJobInput = GenericInput & {
   accountId: string;
   clientRequestToken: string;
   confirmationRequired: '0' | '1';
@@ -290,6 +290,7 @@ export async function updateJobPriority(
     {},
     {
       needMd5: true,
+      idempotent: true,
     }
   );
   return res;
@@ -325,6 +326,7 @@ export async function updateJobStatus(
     {},
     {
       needMd5: true,
+      idempotent: true,
     }
   );
   return res;
@@ -2,11 +2,11 @@ import { handleEmptyServerError } from '../../handleEmptyServerError';
 import { TransferAccelerationStatusType } from '../../TosExportEnum';
 import { convertNormalCamelCase2Upper } from '../../utils';
 import { Headers } from '../../interface';
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 
 const CommonQueryKey = 'transferAcceleration';
 
-export interface PutBucketTransferAccelerationInput {
+export interface PutBucketTransferAccelerationInput extends GenericInput {
   bucket?: string;
   transferAccelerationConfiguration: {
     Enabled: 'true' | 'false';
@@ -36,7 +36,7 @@ export async function putBucketTransferAcceleration(
   );
 }
 
-export interface GetBucketTransferAccelerationInput {
+export interface GetBucketTransferAccelerationInput extends GenericInput {
   bucket?: string;
   getStatus?: boolean;
 }
@@ -1,8 +1,8 @@
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 import { GetBucketLifecycleInput } from './lifecycle';
 import { handleEmptyServerError } from '../../handleEmptyServerError';
 
-export interface PutBucketAccessMonitorInput {
+export interface PutBucketAccessMonitorInput extends GenericInput {
   bucket: string;
   status: 'Enabled' | 'Disabled';
 }
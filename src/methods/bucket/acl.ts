@@ -1,10 +1,10 @@
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 import { Headers, AclInterface, Acl } from '../../interface';
 import { makeArrayProp } from '../../utils';
 
 export type GetBucketAclOutput = AclInterface;
 
-export interface PutBucketAclInput {
+export interface PutBucketAclInput extends GenericInput {
   bucket?: string;
   acl?: Acl;
   aclBody?: AclInterface;
@@ -25,7 +25,15 @@ export async function putBucketAcl(this: TOSBase, input: PutBucketAclInput) {
   return res;
 }
 
-export async function getBucketAcl(this: TOSBase, bucket?: string) {
+export interface GetBucketAclInput extends GenericInput {
+  bucket?: string;
+}
+
+export async function getBucketAcl(
+  this: TOSBase,
+  input?: string | GetBucketAclInput
+) {
+  const bucket = typeof input === 'string' ? input : input?.bucket;
   const res = await this.fetchBucket<GetBucketAclOutput>(
     bucket,
     'GET',
@@ -1,11 +1,11 @@
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 import { Acl, Headers, StorageClass } from '../../interface';
 import {
   fillRequestHeaders,
   makeArrayProp,
   normalizeHeadersKey,
 } from '../../utils';
-import TosClientError from '../../TosClientError';
+import { TosClientErrorCode, TosValidationError } from '../../TosClientError';
 import { AzRedundancyType, StorageClassType } from '../../TosExportEnum';
 import { TosHeader } from '../object/sharedTypes';
 
@@ -24,7 +24,7 @@ export interface ListBucketOutput {
   Buckets: Bucket[];
 }
 
-export interface PutBucketInput {
+export interface PutBucketInput extends GenericInput {
   bucket?: string;
   acl?: Acl;
   grantFullControl?: string;
@@ -47,7 +47,7 @@ export interface PutBucketInput {
     ['x-tos-storage-class']?: StorageClass;
   };
 }
-export interface ListBucketInput {
+export interface ListBucketInput extends GenericInput {
   projectName?: string;
 }
 export async function listBuckets(this: TOSBase, input: ListBucketInput = {}) {
@@ -69,18 +69,21 @@ export async function createBucket(this: TOSBase, input: PutBucketInput) {
   // these errors are only for creating bucket
   if (actualBucket) {
     if (actualBucket.length < 3 || actualBucket.length > 63) {
-      throw new TosClientError(
-        'invalid bucket name, the length must be [3, 63]'
+      throw new TosValidationError(
+        'invalid bucket name, the length must be [3, 63]',
+        TosClientErrorCode.InvalidBucketName
       );
     }
     if (!/^([a-z]|-|\d)+$/.test(actualBucket)) {
-      throw new TosClientError(
-        'invalid bucket name, the character set is illegal'
+      throw new TosValidationError(
+        'invalid bucket name, the character set is illegal',
+        TosClientErrorCode.InvalidBucketName
       );
     }
     if (/^-/.test(actualBucket) || /-$/.test(actualBucket)) {
-      throw new TosClientError(
-        `invalid bucket name, the bucket name can be neither starting with '-' nor ending with '-'`
+      throw new TosValidationError(
+        `invalid bucket name, the bucket name can be neither starting with '-' nor ending with '-'`,
+        TosClientErrorCode.InvalidBucketName
       );
     }
   }
@@ -107,7 +110,15 @@ export async function createBucket(this: TOSBase, input: PutBucketInput) {
   return res;
 }
 
-export async function deleteBucket(this: TOSBase, bucket?: string) {
+export interface DeleteBucketInput extends GenericInput {
+  bucket?: string;
+}
+
+export async function deleteBucket(
+  this: TOSBase,
+  input?: string | DeleteBucketInput
+) {
+  const bucket = typeof input === 'string' ? input : input?.bucket;
   return this.fetchBucket(bucket, 'DELETE', {}, {});
 }
 
@@ -118,7 +129,15 @@ export interface HeadBucketOutput {
   ProjectName?: string;
 }
 
-export async function headBucket(this: TOSBase, bucket?: string) {
+export interface HeadBucketInput extends GenericInput {
+  bucket?: string;
+}
+
+export async function headBucket(
+  this: TOSBase,
+  input?: string | HeadBucketInput
+) {
+  const bucket = typeof input === 'string' ? input : input?.bucket;
   return this.fetchBucket<HeadBucketOutput>(bucket, 'HEAD', {}, {}, undefined, {
     handleResponse: (res) => {
       return {
@@ -129,7 +148,7 @@ export async function headBucket(this: TOSBase, bucket?: string) {
   });
 }
 
-export interface PutBucketStorageClassInput {
+export interface PutBucketStorageClassInput extends GenericInput {
   bucket: string;
   storageClass: StorageClassType;
 }
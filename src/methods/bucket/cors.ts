@@ -1,6 +1,6 @@
 import { HttpMethodType } from '../../TosExportEnum';
 import { handleEmptyServerError } from '../../handleEmptyServerError';
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 
 export interface CORSRule {
   AllowedOrigins: string[];
@@ -11,7 +11,7 @@ export interface CORSRule {
   ResponseVary?: boolean;
 }
 
-export interface GetBucketCORSInput {
+export interface GetBucketCORSInput extends GenericInput {
   bucket: string;
 }
 
@@ -38,7 +38,7 @@ export async function getBucketCORS(this: TOSBase, input: GetBucketCORSInput) {
   }
 }
 
-export interface PutBucketCORSInput {
+export interface PutBucketCORSInput extends GenericInput {
   bucket: string;
   CORSRules: CORSRule[];
 }
@@ -59,7 +59,7 @@ export async function putBucketCORS(this: TOSBase, input: PutBucketCORSInput) {
   );
 }
 
-export interface DeleteBucketCORSInput {
+export interface DeleteBucketCORSInput extends GenericInput {
   bucket: string;
 }
 
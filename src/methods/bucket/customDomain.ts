@@ -1,6 +1,6 @@
 import { convertNormalCamelCase2Upper } from '../../utils';
 import { handleEmptyServerError } from '../../handleEmptyServerError';
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 
 const CommonQueryKey = 'customdomain';
 
@@ -17,7 +17,7 @@ export interface CustomDomainRule {
   Protocol?: string;
 }
 
-export interface PutBucketCustomDomainInput {
+export interface PutBucketCustomDomainInput extends GenericInput {
   bucket: string;
   customDomainRule: {
     Domain: string;
@@ -49,7 +49,7 @@ export async function putBucketCustomDomain(
   );
 }
 
-export interface GetBucketCustomDomainInput {
+export interface GetBucketCustomDomainInput extends GenericInput {
   bucket: string;
 }
 
@@ -78,7 +78,7 @@ export async function getBucketCustomDomain(
   }
 }
 
-export interface DeleteBucketCustomDomainInput {
+export interface DeleteBucketCustomDomainInput extends GenericInput {
   bucket: string;
   customDomain: string;
 }
@@ -1,4 +1,4 @@
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 import { hashMd5 } from '../../universal/crypto.browser';
 
 export interface EncryptionData {
@@ -16,7 +16,7 @@ export interface EncryptionDataRule {
 
 export async function putBucketEncryption(
   this: TOSBase,
-  input: { rule: EncryptionDataRule } & { bucket?: string }
+  input: { rule: EncryptionDataRule } & { bucket?: string } & GenericInput
 ) {
   const { bucket, rule } = input;
 
@@ -40,7 +40,7 @@ export async function putBucketEncryption(
 
 export async function getBucketEncryption(
   this: TOSBase,
-  input: { bucket?: string }
+  input: { bucket?: string } & GenericInput
 ) {
   const { bucket } = input;
 
@@ -54,7 +54,7 @@ export async function getBucketEncryption(
 
 export async function deleteBucketEncryption(
   this: TOSBase,
-  input: { bucket?: string }
+  input: { bucket?: string } & GenericInput
 ) {
   const { bucket } = input;
 
@@ -1,6 +1,6 @@
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 
-export interface GetBucketLocationInput {
+export interface GetBucketLocationInput extends GenericInput {
   bucket: string;
 }
 
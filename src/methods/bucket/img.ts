@@ -1,4 +1,4 @@
-import TOSBase, { TosResponse } from '../base';
+import TOSBase, { TosResponse, GenericInput } from '../base';
 import TosServerError from '../../TosServerError';
 export interface ImageStyle {
   Name: string;
@@ -23,7 +23,7 @@ export interface BucketImageBriefInfo {
   ImageStyleBriefInfo: ImageBriefInfo[];
 }
 
-export interface GetImageStyleBriefInfoInput {
+export interface GetImageStyleBriefInfoInput extends GenericInput {
   bucket: string;
 }
 
@@ -95,7 +95,7 @@ export async function getBucketImageStyleList(
   }
 }
 
-export interface GetBucketImageStyleListByNameInput {
+export interface GetBucketImageStyleListByNameInput extends GenericInput {
   bucket: string;
   styleName: string;
 }
@@ -165,7 +165,7 @@ export async function getBucketImageStyle(
   }
 }
 
-export interface PutBucketImageStyleInput {
+export interface PutBucketImageStyleInput extends GenericInput {
   bucket: string;
   styleName: string;
   content: string;
@@ -204,7 +204,7 @@ export async function putBucketImageStyle(
   }
 }
 
-export interface DeleteBucketImageStyleInput {
+export interface DeleteBucketImageStyleInput extends GenericInput {
   bucket: string;
   styleName: string;
   styleObjectPrefix?: string;
@@ -310,7 +310,7 @@ export type BucketImgStyleSeparatorAffixes = Partial<
   Record<BucketImgProtectStyleSeparator, string>
 >;
 
-export interface PutBucketImageStyleSeparatorInput {
+export interface PutBucketImageStyleSeparatorInput extends GenericInput {
   bucket: string;
   Separator: BucketImgProtectStyleSeparator[];
   SeparatorSuffix?: BucketImgStyleSeparatorAffixes;
@@ -1,5 +1,5 @@
 import { handleEmptyServerError } from '../../handleEmptyServerError';
-import TOSBase, { TosResponse } from '../base';
+import TOSBase, { TosResponse, GenericInput } from '../base';
 
 export interface BucketIntelligenttieringOutput {
   Status?: 'Enabled' | 'Disabled';
@@ -9,10 +9,15 @@ export interface BucketIntelligenttieringOutput {
   }[];
 }
 
+export interface GetBucketIntelligenttieringInput extends GenericInput {
+  bucket?: string;
+}
+
 export async function getBucketIntelligenttiering(
   this: TOSBase,
-  bucket?: string
+  input?: string | GetBucketIntelligenttieringInput
 ): Promise<TosResponse<BucketIntelligenttieringOutput>> {
+  const bucket = typeof input === 'string' ? input : input?.bucket;
   try {
     const res = await this.fetchBucket<BucketIntelligenttieringOutput>(
       bucket,
@@ -1,5 +1,5 @@
 import { handleEmptyServerError } from '../../handleEmptyServerError';
-import TOSBase, { TosResponse } from '../base';
+import TOSBase, { TosResponse, GenericInput } from '../base';
 
 /**
  * 清单文件导出周期
@@ -84,20 +84,20 @@ export interface BucketInventoryItem {
   };
 }
 
-export interface PutBucketInventoryInput {
+export interface PutBucketInventoryInput extends GenericInput {
   bucket: string;
   inventoryConfiguration: BucketInventoryItem;
 }
 
 export interface PutBucketInventoryOutput {}
 
-export interface GetBucketInventoryInput {
+export interface GetBucketInventoryInput extends GenericInput {
   bucket: string;
   id: string;
 }
 
 export type GetBucketInventoryOutput = BucketInventoryItem | undefined;
-export interface ListBucketInventoryInput {
+export interface ListBucketInventoryInput extends GenericInput {
   bucket: string;
   continuationToken?: string;
 }
@@ -108,7 +108,7 @@ export interface ListBucketInventoryOutput {
   NextContinuationToken?: string;
 }
 
-export interface DeleteBucketInventoryInput {
+export interface DeleteBucketInventoryInput extends GenericInput {
   bucket: string;
   id: string;
 }
@@ -1,5 +1,5 @@
 import { StorageClassType } from '../../TosExportEnum';
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 import { fillRequestHeaders, normalizeHeadersKey } from '../../utils';
 import { handleEmptyServerError } from '../../handleEmptyServerError';
 
@@ -54,7 +54,7 @@ interface LifecycleRule {
   }[];
 }
 
-export interface PutBucketLifecycleInput {
+export interface PutBucketLifecycleInput extends GenericInput {
   bucket: string;
   rules: LifecycleRule[];
   allowSameActionOverlap?: boolean;
@@ -85,7 +85,7 @@ export async function putBucketLifecycle(
   );
 }
 
-export interface GetBucketLifecycleInput {
+export interface GetBucketLifecycleInput extends GenericInput {
   bucket: string;
 }
 
@@ -128,7 +128,7 @@ export async function getBucketLifecycle(
   }
 }
 
-export interface DeleteBucketLifecycleInput {
+export interface DeleteBucketLifecycleInput extends GenericInput {
   bucket: string;
 }
 
@@ -1,7 +1,7 @@
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 import { handleEmptyServerError } from '../../handleEmptyServerError';
 
-export interface PutBucketPrivateM3U8Input {
+export interface PutBucketPrivateM3U8Input extends GenericInput {
   bucket: string;
   enable: boolean;
 }
@@ -29,7 +29,7 @@ export async function putBucketPrivateM3U8(
   );
 }
 
-export interface GetBucketPrivateM3U8Input {
+export interface GetBucketPrivateM3U8Input extends GenericInput {
   bucket: string;
 }
 
@@ -1,5 +1,5 @@
 import { handleEmptyServerError } from '../../handleEmptyServerError';
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 
 const CommonQueryKey = 'mirror';
 
@@ -57,7 +57,7 @@ export interface MirrorBackRule {
   };
 }
 
-export interface PutBucketMirrorBackInput {
+export interface PutBucketMirrorBackInput extends GenericInput {
   bucket: string;
   rules: MirrorBackRule[];
 }
@@ -84,7 +84,7 @@ export async function putBucketMirrorBack(
   );
 }
 
-export interface GetBucketMirrorBackInput {
+export interface GetBucketMirrorBackInput extends GenericInput {
   bucket: string;
 }
 
@@ -116,7 +116,7 @@ export async function getBucketMirrorBack(
   }
 }
 
-export interface DeleteBucketMirrorBackInput {
+export interface DeleteBucketMirrorBackInput extends GenericInput {
   bucket: string;
 }
 
@@ -1,6 +1,6 @@
 import { convertNormalCamelCase2Upper } from '../../utils';
 import { handleEmptyServerError } from '../../handleEmptyServerError';
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 
 const CommonQueryKey = 'notification';
 
@@ -32,7 +32,7 @@ export interface RocketMQConfiguration {
   RocketMQ: RocketMQConf;
 }
 
-export interface PutBucketNotificationInput {
+export interface PutBucketNotificationInput extends GenericInput {
   bucket: string;
   cloudFunctionConfigurations?: CloudFunctionConfiguration[];
   rocketMQConfigurations?: RocketMQConfiguration[];
@@ -61,7 +61,7 @@ export async function putBucketNotification(
   );
 }
 
-export interface GetBucketNotificationInput {
+export interface GetBucketNotificationInput extends GenericInput {
   bucket: string;
 }
 
@@ -1,6 +1,6 @@
 import { convertNormalCamelCase2Upper } from '../../utils';
 import { handleEmptyServerError } from '../../handleEmptyServerError';
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 
 const CommonQueryKey = 'notification_v2';
 
@@ -32,7 +32,7 @@ export interface NotificationRule {
   Destination: NotificationDestination;
 }
 
-export interface PutBucketNotificationInput {
+export interface PutBucketNotificationInput extends GenericInput {
   bucket: string;
   Rules: NotificationRule[];
   Version?: string;
@@ -58,7 +58,7 @@ export async function putBucketNotificationType2(
   );
 }
 
-export interface GetBucketNotificationInput {
+export interface GetBucketNotificationInput extends GenericInput {
   bucket: string;
 }
 
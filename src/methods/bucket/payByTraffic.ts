@@ -1,11 +1,11 @@
-import TOSBase, { TosResponse } from '../base';
+import TOSBase, { TosResponse, GenericInput } from '../base';
 
 export interface BucketPayByTraffic {
   ChargeType: 'FlowOut' | 'Bandwidth';
   ActiveType: 'NextDay' | 'NextMonth';
 }
 
-export interface PutBucketPayByTrafficInput {
+export interface PutBucketPayByTrafficInput extends GenericInput {
   bucket?: string;
   payByTraffic: BucketPayByTraffic;
 }
@@ -31,7 +31,7 @@ export async function putBucketPayByTraffic(
   return res;
 }
 
-interface GetBucketPayByTrafficInput {
+interface GetBucketPayByTrafficInput extends GenericInput {
   bucket: string;
 }
 /**
@@ -1,6 +1,6 @@
 import { makeArrayProp } from '../../utils';
 import { handleEmptyServerError } from '../../handleEmptyServerError';
-import TOSBase, { TosResponse } from '../base';
+import TOSBase, { TosResponse, GenericInput } from '../base';
 
 export interface BucketPolicyStatement {
   Sid: string;
@@ -28,7 +28,7 @@ interface PutBucketPolicyInputPolicy
   Version?: string;
 }
 
-export interface PutBucketPolicyInput {
+export interface PutBucketPolicyInput extends GenericInput {
   bucket?: string;
   policy: PutBucketPolicyInputPolicy;
 }
@@ -56,10 +56,15 @@ export async function putBucketPolicy(
   return res;
 }
 
+export interface GetBucketPolicyInput extends GenericInput {
+  bucket?: string;
+}
+
 export async function getBucketPolicy(
   this: TOSBase,
-  bucket?: string
+  input?: string | GetBucketPolicyInput
 ): Promise<TosResponse<GetBucketPolicyOutput>> {
+  const bucket = typeof input === 'string' ? input : input?.bucket;
   try {
     const res = await this.fetchBucket<GetBucketPolicyOutput>(
       bucket,
@@ -91,6 +96,14 @@ export async function getBucketPolicy(
   }
 }
 
-export async function deleteBucketPolicy(this: TOSBase, bucket?: string) {
+export interface DeleteBucketPolicyInput extends GenericInput {
+  bucket?: string;
+}
+
+export async function deleteBucketPolicy(
+  this: TOSBase,
+  input?: string | DeleteBucketPolicyInput
+) {
+  const bucket = typeof input === 'string' ? input : input?.bucket;
   return this.fetchBucket(bucket, 'DELETE', { policy: '' }, {});
 }
@@ -1,6 +1,6 @@
 import { convertNormalCamelCase2Upper } from '../../utils';
 import { handleEmptyServerError } from '../../handleEmptyServerError';
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 
 const CommonQueryKey = 'realtimeLog';
 
@@ -15,7 +15,7 @@ interface RealTimeLogConfiguration {
   AccessLogConfiguration: AccessLogConfiguration;
 }
 
-export interface PutBucketRealTimeLogInput {
+export interface PutBucketRealTimeLogInput extends GenericInput {
   bucket: string;
   realTimeLogConfiguration: RealTimeLogConfiguration;
 }
@@ -40,7 +40,7 @@ export async function putBucketRealTimeLog(
   );
 }
 
-export interface GetBucketRealTimeLogInput {
+export interface GetBucketRealTimeLogInput extends GenericInput {
   bucket: string;
 }
 
@@ -70,7 +70,7 @@ export async function getBucketRealTimeLog(
   }
 }
 
-export interface DeleteBucketRealTimeLogInput {
+export interface DeleteBucketRealTimeLogInput extends GenericInput {
   bucket: string;
 }
 
@@ -1,9 +1,9 @@
 import { convertNormalCamelCase2Upper } from '../../utils';
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 
 const CommonQueryKey = 'rename';
 
-export interface PutBucketRenameInput {
+export interface PutBucketRenameInput extends GenericInput {
   bucket?: string;
   renameEnable: boolean;
 }
@@ -28,7 +28,7 @@ export async function putBucketRename(
   );
 }
 
-export interface GetBucketRenameInput {
+export interface GetBucketRenameInput extends GenericInput {
   bucket?: string;
 }
 
@@ -49,7 +49,7 @@ export async function getBucketRename(
   );
 }
 
-export interface DeleteBucketRenameInput {
+export interface DeleteBucketRenameInput extends GenericInput {
   bucket?: string;
 }
 
@@ -4,7 +4,7 @@ import {
   StorageClassType,
 } from '../../TosExportEnum';
 import { handleEmptyServerError } from '../../handleEmptyServerError';
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 
 const CommonQueryKey = 'replication';
 
@@ -35,7 +35,7 @@ export interface ReplicationRule {
   };
 }
 
-export interface PutBucketReplicationInput {
+export interface PutBucketReplicationInput extends GenericInput {
   bucket: string;
   role: string;
   rules: ReplicationRule[];
@@ -64,7 +64,7 @@ export async function putBucketReplication(
   );
 }
 
-export interface GetBucketReplicationInput {
+export interface GetBucketReplicationInput extends GenericInput {
   bucket: string;
   progress?: string;
   ruleId?: string;
@@ -107,7 +107,7 @@ export async function getBucketReplication(
   }
 }
 
-export interface DeleteBucketReplicationInput {
+export interface DeleteBucketReplicationInput extends GenericInput {
   bucket: string;
 }
 
@@ -1,5 +1,5 @@
 import { handleEmptyServerError } from '../../handleEmptyServerError';
-import TOSBase, { TosResponse } from '../base';
+import TOSBase, { TosResponse, GenericInput } from '../base';
 
 interface TagSet {
   Tags: {
@@ -8,14 +8,14 @@ interface TagSet {
   }[];
 }
 
-export interface PutBucketTaggingInput {
+export interface PutBucketTaggingInput extends GenericInput {
   bucket?: string;
   tagging: {
     TagSet: TagSet;
   };
 }
 
-export interface GetBucketTaggingInput {
+export interface GetBucketTaggingInput extends GenericInput {
   bucket: string;
 }
 export interface GetBucketTaggingOutput {
@@ -72,7 +72,7 @@ export async function getBucketTagging(
   }
 }
 
-export interface DeleteBucketTaggingInput {
+export interface DeleteBucketTaggingInput extends GenericInput {
   bucket: string;
 }
 
@@ -1,9 +1,9 @@
 import { convertNormalCamelCase2Upper } from '../../utils';
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 
 const CommonQueryKey = 'trash';
 
-export interface PutBucketTrashInput {
+export interface PutBucketTrashInput extends GenericInput {
   bucket?: string;
   Trash: {
     TrashPath: string;
@@ -32,7 +32,7 @@ export async function putBucketTrash(
   );
 }
 
-export interface GetBucketTrashInput {
+export interface GetBucketTrashInput extends GenericInput {
   bucket?: string;
 }
 
@@ -1,5 +1,5 @@
 import { VersioningStatusType } from '../../TosExportEnum';
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 
 // for backward compatibility
 export { VersioningStatusType as BucketVersioningStatus };
@@ -13,12 +13,20 @@ export interface GetBucketVersioningOutput {
   Status: VersioningStatusType;
 }
 
-export interface PutBucketVersioningInput {
+export interface PutBucketVersioningInput extends GenericInput {
   bucket?: string;
   status: PutBucketVersioningInputStatus;
 }
 
-export async function getBucketVersioning(this: TOSBase, bucket?: string) {
+export interface GetBucketVersioningInput extends GenericInput {
+  bucket?: string;
+}
+
+export async function getBucketVersioning(
+  this: TOSBase,
+  input?: string | GetBucketVersioningInput
+) {
+  const bucket = typeof input === 'string' ? input : input?.bucket;
   return this.fetchBucket<GetBucketVersioningOutput>(
     bucket,
     'GET',
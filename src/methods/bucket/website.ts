@@ -1,6 +1,6 @@
 import { convertNormalCamelCase2Upper } from '../../utils';
 import { handleEmptyServerError } from '../../handleEmptyServerError';
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 
 const CommonQueryKey = 'website';
 
@@ -32,7 +32,7 @@ interface RoutingRule {
   };
 }
 
-export interface PutBucketWebsiteInput {
+export interface PutBucketWebsiteInput extends GenericInput {
   bucket: string;
   redirectAllRequestsTo?: RedirectAllRequestsTo;
   indexDocument?: IndexDocument;
@@ -60,7 +60,7 @@ export async function putBucketWebsite(
   );
 }
 
-export interface GetBucketWebsiteInput {
+export interface GetBucketWebsiteInput extends GenericInput {
   bucket: string;
 }
 
@@ -95,7 +95,7 @@ export async function getBucketWebsite(
   }
 }
 
-export interface DeleteBucketWebsiteInput {
+export interface DeleteBucketWebsiteInput extends GenericInput {
   bucket: string;
 }
 
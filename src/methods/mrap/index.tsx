@@ -1,4 +1,4 @@
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 import { AccessPointStatusType } from '../../TosExportEnum';
 
 export interface AccessPoint {
@@ -13,7 +13,7 @@ export interface AccessPoint {
   }>;
 }
 
-export interface CreateMultiRegionAccessPointInput {
+export interface CreateMultiRegionAccessPointInput extends GenericInput {
   name: string;
   regions: Array<{
     Bucket: string;
@@ -52,7 +52,7 @@ export async function createMultiRegionAccessPoint(
   return res;
 }
 
-export interface GetMultiRegionAccessPointInput {
+export interface GetMultiRegionAccessPointInput extends GenericInput {
   name: string;
   accountId: string;
 }
@@ -83,7 +83,7 @@ export async function getMultiRegionAccessPoint(
   return res;
 }
 
-export interface ListMultiRegionAccessPointsInput {
+export interface ListMultiRegionAccessPointsInput extends GenericInput {
   accountId: string;
   maxResults?: number;
   nextToken?: string;
@@ -116,7 +116,7 @@ export async function listMultiRegionAccessPoints(
   return res;
 }
 
-export interface GetMultiRegionAccessPointRoutesInput {
+export interface GetMultiRegionAccessPointRoutesInput extends GenericInput {
   accountId: string;
   alias: string;
 }
@@ -153,7 +153,7 @@ export async function getMultiRegionAccessPointRoutes(
   return res;
 }
 
-export interface DeleteMultiRegionAccessPointInput {
+export interface DeleteMultiRegionAccessPointInput extends GenericInput {
   accountId: string;
   name: string;
 }
@@ -178,7 +178,7 @@ export async function deleteMultiRegionAccessPoint(
   return res;
 }
 
-export interface SubmitMultiRegionAccessPointRoutesInput {
+export interface SubmitMultiRegionAccessPointRoutesInput extends GenericInput {
   accountId: string;
   alias: string;
   routes: AccessPointRoute[];
@@ -1,4 +1,4 @@
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 import { MRAPMirrorBackRedirectPolicyType } from '../../TosExportEnum';
 import { makeArrayProp } from '../../utils';
 import { handleEmptyServerError } from '../../handleEmptyServerError';
@@ -15,7 +15,7 @@ export interface MirrorBackRule {
   };
 }
 
-export interface PutMultiRegionAccessPointMirrorBackInput {
+export interface PutMultiRegionAccessPointMirrorBackInput extends GenericInput {
   accountId: string;
   alias: string;
   rules: MirrorBackRule[];
@@ -60,7 +60,7 @@ export const putMultiRegionAccessPointMirrorBack = async function (
   return res;
 };
 
-export interface GetMultiRegionAccessPointMirrorBackInput {
+export interface GetMultiRegionAccessPointMirrorBackInput extends GenericInput {
   accountId: string;
   alias: string;
 }
@@ -107,7 +107,8 @@ export const getMultiRegionAccessPointMirrorBack = async function (
   }
 };
 
-export interface DeleteMultiRegionAccessPointMirrorBackInput {
+export interface DeleteMultiRegionAccessPointMirrorBackInput
+  extends GenericInput {
   accountId: string;
   alias: string;
 }
@@ -1,8 +1,8 @@
 import { Acl, AclInterface } from '../../../interface';
 import { fillRequestHeaders, makeArrayProp, normalizeHeadersKey } from '../../../utils';
-import TOSBase from '../../base';
+import TOSBase, { GenericInput } from '../../base';
 
-export interface GetObjectAclInput {
+export interface GetObjectAclInput extends GenericInput {
   bucket?: string;
   key: string;
   versionId?: string;
@@ -33,7 +33,7 @@ export async function getObjectAcl(
   return res;
 }
 
-export interface PutObjectAclInput {
+export interface PutObjectAclInput extends GenericInput {
   bucket?: string;
   key: string;
   versionId?: string;
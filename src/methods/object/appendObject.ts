@@ -1,4 +1,4 @@
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 import {
   checkCRC64WithHeaders,
   fillRequestHeaders,
@@ -7,13 +7,15 @@ import {
 } from '../../utils';
 import { Acl, DataTransferStatus, DataTransferType } from '../../interface';
 import { IRateLimiter } from '../../universal/rate-limiter';
-import { getNewBodyConfig, getSize } from './utils';
+import { fillPayloadSha256, getNewBodyConfig, getSize } from './utils';
 import { StorageClassType } from '../../TosExportEnum';
 import { retryNamespace } from '../../axios';
-import TosClientError from '../../TosClientError';
+import { TosClientErrorCode, TosValidationError } from '../../TosClientError';
 import { combineCrc64 } from '../../universal/crc';
+import { TosServerCode } from '../../TosServerError';
+import headObject from './headObject';
 
-export interface AppendObjectInput {
+export interface AppendObjectInput extends GenericInput {
   bucket?: string;
   key: string;
   offset: number;
@@ -110,18 +112,24 @@ export async function appendObject(
   ]);
   this.setObjectContentTypeHeader(input, headers);
 
-  const totalSize = getSize(input.body, headers);
-  const totalSizeValid = totalSize != null;
-  if (!totalSizeValid) {
-    throw new TosClientError(
-      `appendObject needs to know the content length in advance`
+  const size = getSize(input.body, headers);
+  const totalSizeValid = size != null;
+  // the body isn't sent when presigning, the content length is sent by the caller of the url
+  if (!totalSizeValid && !this.requestContext.presign) {
+    throw new TosValidationError(
+      `appendObject needs to know the content length in advance`,
+      TosClientErrorCode.InvalidParam
     );
   }
-  headers['content-length'] = headers['content-length'] || `${totalSize}`;
+  const totalSize = size ?? 0;
+  if (totalSizeValid) {
+    headers['content-length'] = headers['content-length'] || `${totalSize}`;
+  }
 
   if (this.opts.enableCRC && input.offset !== 0 && !input.preHashCrc64ecma) {
-    throw new TosClientError(
-      'must provide preHashCrc64ecma if enableCRC is true and offset is non-zero'
+    throw new TosValidationError(
+      'must provide preHashCrc64ecma if enableCRC is true and offset is non-zero',
+      TosClientErrorCode.MissingParam
     );
   }
 
@@ -166,14 +174,52 @@ export async function appendObject(
     }
   };
 
+  fillPayloadSha256(this.opts.payloadSigning, input.body, headers);
   const bodyConfig = await getNewBodyConfig({
     body: input.body,
     dataTransferCallback: (n) => triggerDataTransfer(DataTransferType.Rw, n),
     makeRetryStream: undefined,
     enableCRC: this.opts.enableCRC,
     rateLimiter: input.rateLimiter,
+    abortSignal: this.requestContext.abortSignal,
   });
 
+  // a retried append gets `OffsetNotMatched` if the previous attempt has landed,
+  // so check the object to accept the previous attempt.
+  const resolveRetryError = async (error: any) => {
+    if (error?.response?.data?.Code !== TosServerCode.OffsetNotMatched) {
+      return undefined;
+    }
+
+    const [headErr, headRes] = await safeAwait(
+      headObject.call(this, {
+        bucket: normalizedInput.bucket,
+        key: normalizedInput.key,
+      })
+    );
+    if (headErr || !headRes) {
+      return undefined;
+    }
+
+    const nextAppendOffset = Number(
+      headRes.headers['x-tos-next-append-offset'] ||
+        headRes.headers['content-length']
+    );
+    if (nextAppendOffset !== normalizedInput.offset + totalSize) {
+      return undefined;
+    }
+
+    return {
+      ...error.response,
+      status: 200,
+      data: '',
+      headers: {
+        ...headRes.headers,
+        'x-tos-next-append-offset': `${nextAppendOffset}`,
+      },
+    };
+  };
+
   triggerDataTransfer(DataTransferType.Started);
   const task = async () => {
     const res = await this._fetchObject<AppendObjectOutput>(
@@ -188,6 +234,7 @@ export async function appendObject(
           nextAppendOffset: +res.headers['x-tos-next-append-offset'],
           hashCrc64ecma: res.headers['x-tos-hash-crc64ecma'],
         }),
+        idempotent: false,
         axiosOpts: {
           [retryNamespace]: {
             beforeRetry: () => {
@@ -195,6 +242,7 @@ export async function appendObject(
               bodyConfig.beforeRetry?.();
             },
             makeRetryStream: bodyConfig.makeRetryStream,
+            resolveRetryError,
           },
           onUploadProgress: (event) => {
             triggerDataTransfer(
@@ -0,0 +1,187 @@
+import TOSBase, { GenericInput } from '../base';
+import { TosClientErrorCode, TosValidationError } from '../../TosClientError';
+import {
+  calculatePostSignature,
+  PostSignatureCondition,
+} from './calculatePostSignature';
+import { validateObjectName } from './utils';
+
+export type PostFormCondition =
+  | {
+      type: 'eq' | 'starts-with';
+      /**
+       * the name of the form field, eg: key, Content-Type, x-tos-meta-a
+       */
+      field: string;
+      value: string;
+    }
+  | {
+      type: 'content-length-range';
+      /**
+       * unit: B
+       */
+      min: number;
+      max: number;
+    };
+
+export interface BuildPostFormInput extends GenericInput {
+  bucket?: string;
+  key: string;
+  /**
+   * unit: seconds, default: 3600(1 hour)
+   */
+  expires?: number;
+  /**
+   * the form fields except `key`, `file` and the signature fields,
+   * eg: Content-Type, x-tos-meta-a, x-tos-acl
+   */
+  fields?: Record<string, string>;
+  conditions?: PostFormCondition[];
+  /**
+   * the browser is redirected to the url after the upload succeeds
+   */
+  successActionRedirect?: string;
+  /**
+   * the status code of the response if `successActionRedirect` isn't set
+   * default value: 204
+   */
+  successActionStatus?: 200 | 201 | 204;
+  /**
+   * unit: B
+   * the size of the file is checked by `content-length-range` locally if it's provided
+   */
+  fileSize?: number;
+}
+
+export interface BuildPostFormOutput {
+  /**
+   * the action of the form
+   */
+  url: string;
+  /**
+   * the fields in order, append them to the `FormData` in order, and append the `file` field at last
+   */
+  fields: Record<string, string>;
+}
+
+const SUCCESS_ACTION_STATUS = [200, 201, 204];
+
+function validateConditions(
+  fields: Record<string, string>,
+  conditions: PostFormCondition[],
+  fileSize?: number
+) {
+  const lowerCaseFields: Record<string, string> = {};
+  Object.keys(fields).forEach((key) => {
+    lowerCaseFields[key.toLowerCase()] = fields[key];
+  });
+
+  for (const it of conditions) {
+    if (it.type === 'content-length-range') {
+      if (!(it.min >= 0 && it.min <= it.max)) {
+        throw new TosValidationError(
+          `the range [${it.min}, ${it.max}] of \`content-length-range\` is invalid`,
+          TosClientErrorCode.InvalidParam
+        );
+      }
+      if (fileSize != null && (fileSize < it.min || fileSize > it.max)) {
+        throw new TosValidationError(
+          `the file size ${fileSize} isn't in the range [${it.min}, ${it.max}] of \`content-length-range\``,
+          TosClientErrorCode.InvalidParam
+        );
+      }
+      continue;
+    }
+
+    const value = lowerCaseFields[it.field.toLowerCase()];
+    if (value == null) {
+      throw new TosValidationError(
+        `the field \`${it.field}\` of the \`${it.type}\` condition isn't in the form`,
+        TosClientErrorCode.InvalidParam
+      );
+    }
+    const matched =
+      it.type === 'eq' ? value === it.value : value.startsWith(it.value);
+    if (!matched) {
+      throw new TosValidationError(
+        `the field \`${it.field}\` is \`${value}\`, it doesn't satisfy the condition \`${it.type} ${it.value}\``,
+        TosClientErrorCode.InvalidParam
+      );
+    }
+  }
+}
+
+function toPostSignatureCondition(
+  it: PostFormCondition
+): PostSignatureCondition {
+  if (it.type === 'content-length-range') {
+    return ['content-length-range', it.min, it.max];
+  }
+  return [it.type, `$${it.field}`, it.value];
+}
+
+/**
+ * build the fields of the POST form upload by `calculatePostSignature`,
+ * and check the fields satisfy the conditions before the form is sent.
+ */
+export async function buildPostForm(
+  this: TOSBase,
+  input: BuildPostFormInput
+): Promise<BuildPostFormOutput> {
+  validateObjectName(input);
+  const bucket = input.bucket || this.opts.bucket;
+  if (!bucket) {
+    throw new TosValidationError(
+      'Must provide bucket param',
+      TosClientErrorCode.MissingParam
+    );
+  }
+
+  const fields: Record<string, string> = { key: input.key };
+  Object.keys(input.fields || {}).forEach((key) => {
+    if (key.toLowerCase() !== 'key' && key.toLowerCase() !== 'file') {
+      fields[key] = input.fields![key];
+    }
+  });
+  if (input.successActionRedirect) {
+    fields['success_action_redirect'] = input.successActionRedirect;
+  }
+  if (input.successActionStatus != null) {
+    if (!SUCCESS_ACTION_STATUS.includes(input.successActionStatus)) {
+      throw new TosValidationError(
+        `\`successActionStatus\` must be one of ${SUCCESS_ACTION_STATUS.join(
+          ', '
+        )}`,
+        TosClientErrorCode.InvalidParam
+      );
+    }
+    fields['success_action_status'] = `${input.successActionStatus}`;
+  }
+  const conditions = input.conditions || [];
+  validateConditions(fields, conditions, input.fileSize);
+
+  const signedFields = await calculatePostSignature.call(this, {
+    bucket,
+    key: input.key,
+    expiresIn: input.expires,
+    fields,
+    conditions: conditions.map(toPostSignatureCondition),
+  });
+  // `key` is the first field, and the signature fields are the last ones
+  const orderedFields: Record<string, string> = {};
+  [fields, signedFields].forEach((it) =>
+    Object.keys(it).forEach((key) => {
+      orderedFields[key] = `${signedFields[key]}`;
+    })
+  );
+
+  const host = this.opts.isCustomDomain
+    ? this.opts.endpoint
+    : `${bucket}.${this.opts.endpoint}`;
+  return {
+    url: `http${this.opts.secure ? 's' : ''}://${host}`,
+    fields: orderedFields,
+  };
+}
+
+export default buildPostForm;
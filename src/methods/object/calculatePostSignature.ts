@@ -1,6 +1,6 @@
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 import { parse, stringify, hmacSha256 } from '../../universal/crypto';
-import TosClientError from '../../TosClientError';
+import { TosClientErrorCode, TosValidationError } from '../../TosClientError';
 import { validateObjectName } from './utils';
 
 export type PostSignatureCondition =
@@ -11,7 +11,7 @@ export type PostSignatureCondition =
   | ['starts-with', string, string]
   | ['content-length-range', number, number];
 
-export interface CalculatePostSignatureInput {
+export interface CalculatePostSignatureInput extends GenericInput {
   bucket?: string;
   key: string;
   // unit: seconds, default: 3600(1 hour)
@@ -32,16 +32,20 @@ export async function calculatePostSignature(
   const conditions = [...(input.conditions || [])];
 
   if (!bucket) {
-    throw new TosClientError('Must provide bucket param');
+    throw new TosValidationError(
+      'Must provide bucket param',
+      TosClientErrorCode.MissingParam
+    );
   }
 
-  const accessKeySecret = this.opts.accessKeySecret;
-  const date = new Date();
+  const credentials = await this.getCredentials();
+  const accessKeySecret = credentials.accessKeySecret;
+  const date = new Date(this.clockSkew.now());
   const expirationDateStr = getDateTimeStr({
     date: new Date(date.valueOf() + expiresIn * 1000),
     type: 'ISO',
   });
-  const dateStr = getDateTimeStr();
+  const dateStr = getDateTimeStr({ date });
   const date8Str = dateStr.substring(0, 8);
   const service = 'tos';
   const requestStr = 'request';
@@ -52,7 +56,7 @@ export async function calculatePostSignature(
   const signingKey = hmacSha256(kService, requestStr);
 
   const credential = [
-    this.opts.accessKeyId,
+    credentials.accessKeyId,
     date8Str,
     this.opts.region,
     service,
@@ -65,8 +69,8 @@ export async function calculatePostSignature(
     'x-tos-date': dateStr,
     'x-tos-credential': credential,
   };
-  if (this.opts.stsToken) {
-    addedInForm['x-tos-security-token'] = this.opts.stsToken;
+  if (credentials.stsToken) {
+    addedInForm['x-tos-security-token'] = credentials.stsToken;
   }
 
   conditions.push({ bucket });
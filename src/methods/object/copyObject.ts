@@ -4,11 +4,11 @@ import {
   fillRequestHeaders,
 } from '../../utils';
 import { StorageClass, ServerSideEncryption, Acl } from '../../interface';
-import TOSBase, { TosResponse } from '../base';
+import TOSBase, { TosResponse, GenericInput } from '../base';
 import { StorageClassType } from '../../TosExportEnum';
 import { getCopySourceHeaderValue } from './utils';
 
-export interface CopyObjectInput {
+export interface CopyObjectInput extends GenericInput {
   bucket?: string;
   key: string;
 
@@ -0,0 +1,66 @@
+import TOSBase, { GenericInput } from '../base';
+import { TosClientErrorCode, TosValidationError } from '../../TosClientError';
+import { parsePreSignedUrl } from '../../preSignedUrl';
+import {
+  preSignedPolicyURL,
+  PreSignedPolicyURLInput,
+} from './preSignedPolicyURL';
+
+export interface CreateShareLinkInput
+  extends GenericInput,
+    Pick<PreSignedPolicyURLInput, 'alternativeEndpoint' | 'isCustomDomain'> {
+  bucket?: string;
+  /**
+   * the objects whose keys start with the prefix are shared, '' shares the whole bucket
+   */
+  prefix: string;
+  /**
+   * unit: s
+   * default value: 3600
+   * range is: [1, 604800]
+   */
+  expires?: number;
+}
+
+export interface CreateShareLinkOutput {
+  /**
+   * pass it to `ShareLinkClient`
+   */
+  policyUrl: string;
+  expiresAt: Date;
+}
+
+/**
+ * generate the policy url for `ShareLinkClient`, it shares the reading and the listing of the objects under the prefix.
+ * TOS server checks the bucket and the keys by the signed policy.
+ */
+export function createShareLink(
+  this: TOSBase,
+  input: CreateShareLinkInput
+): CreateShareLinkOutput {
+  const { prefix } = input;
+  if (prefix == null) {
+    throw new TosValidationError(
+      'Must provide prefix param',
+      TosClientErrorCode.MissingParam
+    );
+  }
+
+  const output = preSignedPolicyURL.call(this, {
+    bucket: input.bucket,
+    expires: input.expires,
+    alternativeEndpoint: input.alternativeEndpoint,
+    isCustomDomain: input.isCustomDomain,
+    conditions: [{ key: 'key', value: prefix, operator: 'starts-with' }],
+  });
+  // only the query is parsed, the host may be not a valid url host, eg: bucket.127.0.0.1
+  const { expiresAt } = parsePreSignedUrl(
+    `http://localhost/?${output.signedQuery}`
+  );
+  return {
+    policyUrl: output.getSignedURLForList(),
+    expiresAt,
+  };
+}
+
+export default createShareLink;
@@ -1,7 +1,7 @@
 import { makeArrayProp } from '../../utils';
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 
-export interface DeleteMultiObjectsInput {
+export interface DeleteMultiObjectsInput extends GenericInput {
   bucket?: string;
   /**
    * default: false
@@ -62,7 +62,8 @@ export async function deleteMultiObjects(
     'POST',
     query,
     {},
-    body
+    body,
+    { idempotent: true }
   );
 
   const arrayProp = makeArrayProp(res.data);
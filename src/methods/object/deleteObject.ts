@@ -1,6 +1,6 @@
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 
-export interface DeleteObjectInput {
+export interface DeleteObjectInput extends GenericInput {
   bucket?: string;
   key: string;
   versionId?: string;
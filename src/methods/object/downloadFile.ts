@@ -11,7 +11,10 @@ import headObject, { HeadObjectInput, HeadObjectOutput } from './headObject';
 import { CancelToken } from 'axios';
 import { Stats } from 'fs';
 import path from 'path';
-import TosClientError from '../../TosClientError';
+import TosClientError, {
+  TosChecksumMismatchError,
+  TosClientErrorCode,
+} from '../../TosClientError';
 import { getObjectV2, GetObjectV2Output } from './getObject';
 import TosServerError from '../../TosServerError';
 import { CancelError } from '../../CancelError';
@@ -20,6 +23,8 @@ import { validateCheckpoint } from './utils';
 import { createCrcReadStream } from '../../nodejs/CrcReadStream';
 import { CRC } from '../../universal/crc';
 import { combineCrc64 } from '../../universal/crc';
+import { isMiniProgram } from '../../axios-miniprogram-adapter/utils/platForm';
+import { downloadFileInMiniProgram } from './downloadFileInMiniProgram';
 
 export interface DownloadFileCheckpointRecord {
   bucket: string;
@@ -51,6 +56,9 @@ export interface DownloadFileCheckpointRecordPartInfo {
 }
 
 export interface DownloadFileInput extends HeadObjectInput {
+  /**
+   * in mini-programs, it's the path of the file system, eg: `${wx.env.USER_DATA_PATH}/a.txt`
+   */
   filePath: string;
   /**
    * @private unstable tempFilePath
@@ -170,12 +178,18 @@ export async function downloadFile(
   input: DownloadFileInput
 ): Promise<TosResponse<DownloadFileOutput>> {
   if (process.env.TARGET_ENVIRONMENT === 'browser') {
+    if (isMiniProgram()) {
+      return downloadFileInMiniProgram.call(this, input);
+    }
     throw new TosClientError(
-      '`downloadFile` is not supported in browser environment'
+      '`downloadFile` is not supported in browser environment',
+      TosClientErrorCode.NotSupported
     );
   }
   const { cancelToken, versionId } = input;
-  const isCancel = () => cancelToken && !!cancelToken.reason;
+  const isCancel = () =>
+    (cancelToken && !!cancelToken.reason) ||
+    !!this.requestContext.abortSignal?.aborted;
   validateCheckpoint(input.checkpoint);
 
   const headObjectRes = await headObject.call(this, {
@@ -600,6 +614,7 @@ export async function downloadFile(
 
             const curTask = tasks[currentIndex];
             let consumedBytesThisTask = 0;
+            const partStartTime = Date.now();
             try {
               const res = await getObjectV2.call(this, {
                 bucket,
@@ -678,6 +693,10 @@ export async function downloadFile(
                 throw new CancelError('cancel downloadFile');
               }
 
+              this.instrumentation.recordPart('downloadFile', {
+                size: curTask.partSize,
+                duration: Date.now() - partStartTime,
+              });
               await updateAfterDownloadPart(curTask, {
                 res: { ...res.data, rangeHashCrc64ecma: crcInst.getCrc64() },
               });
@@ -697,6 +716,11 @@ export async function downloadFile(
               if (!firstErr) {
                 firstErr = err;
               }
+              this.instrumentation.recordPart('downloadFile', {
+                size: curTask.partSize,
+                duration: Date.now() - partStartTime,
+                error: err,
+              });
               await updateAfterDownloadPart(curTask, { err });
             }
           }
@@ -711,8 +735,10 @@ export async function downloadFile(
       if (this.opts.enableCRC && serverCRC64) {
         const actualCrc64 = combineCRCInParts(getCheckpointContent());
         if (actualCrc64 !== serverCRC64) {
-          throw new TosClientError(
-            `validate file crc64 failed. Expect crc64 ${serverCRC64}, actual crc64 ${actualCrc64}. Please try again.`
+          throw new TosChecksumMismatchError(
+            `validate file crc64 failed. Expect crc64 ${serverCRC64}, actual crc64 ${actualCrc64}. Please try again.`,
+            serverCRC64,
+            actualCrc64
           );
         }
       }
@@ -764,7 +790,7 @@ export default downloadFile;
 /**
  * 即使 totalSize 是 0，也需要一个 Part，否则 Server 端会报错 read request body failed
  */
-function getAllTasks(totalSize: number, partSize: number) {
+export function getAllTasks(totalSize: number, partSize: number) {
   const tasks: Task[] = [];
   for (let i = 0; ; ++i) {
     const offset = i * partSize;
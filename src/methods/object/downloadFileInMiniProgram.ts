@@ -0,0 +1,285 @@
+import TOSBase, { TosResponse } from '../base';
+import { DEFAULT_PART_SIZE, isCancelError } from '../../utils';
+import { DataTransferType } from '../../interface';
+import headObject from './headObject';
+import { getObjectV2, GetObjectV2InputInner } from './getObject';
+import TosServerError from '../../TosServerError';
+import { CancelError } from '../../CancelError';
+import {
+  createMpFile,
+  existsMpFile,
+  readMpFile,
+  removeMpFile,
+  renameMpFile,
+  safeMkdirMpRecursive,
+  writeMpFile,
+} from '../../axios-miniprogram-adapter/utils/fileSystem';
+import {
+  DownloadEvent,
+  DownloadEventType,
+  DownloadFileCheckpointRecord,
+  DownloadFileCheckpointRecordPartInfo,
+  DownloadFileInput,
+  DownloadFileOutput,
+  DownloadPartInfo,
+  getAllTasks,
+} from './downloadFile';
+
+const ABORT_ERROR_STATUS_CODE = [403, 404, 405];
+
+/**
+ * `downloadFile` of mini-programs. every part is saved to its own file by the platform's `downloadFile`,
+ * and then it's written into the temp file by the file system api.
+ *
+ * the checkpoint file isn't supported, pass the checkpoint record of `progress` to continue downloading.
+ */
+export async function downloadFileInMiniProgram(
+  this: TOSBase,
+  input: DownloadFileInput
+): Promise<TosResponse<DownloadFileOutput>> {
+  const { cancelToken, versionId } = input;
+  const isCancel = () =>
+    (cancelToken && !!cancelToken.reason) ||
+    !!this.requestContext.abortSignal?.aborted;
+
+  const headObjectRes = await headObject.call(this, {
+    bucket: input.bucket,
+    key: input.key,
+    versionId,
+  });
+  const { data: objectStats } = headObjectRes;
+  const etag = objectStats['etag'];
+  const symlinkTargetSize = objectStats['x-tos-symlink-target-size'] ?? 0;
+  const objectSize =
+    objectStats['x-tos-object-type'] === 'Symlink'
+      ? +symlinkTargetSize
+      : +objectStats['content-length'];
+
+  const key = input.key;
+  const filePath = input.filePath.endsWith('/')
+    ? `${input.filePath}${key}`
+    : input.filePath;
+  const tempFilePath = input.tempFilePath || `${filePath}.temp`;
+  await safeMkdirMpRecursive(filePath.slice(0, filePath.lastIndexOf('/')));
+
+  let record =
+    typeof input.checkpoint === 'object' ? input.checkpoint : undefined;
+  const partSize = input.partSize || record?.part_size || DEFAULT_PART_SIZE;
+  if (
+    record &&
+    (record.object_info.last_modified !== objectStats['last-modified'] ||
+      record.object_info.object_size !== objectSize ||
+      record.part_size !== partSize ||
+      !(await existsMpFile(tempFilePath)))
+  ) {
+    this.logger.warn('the checkpoint is invalid, download the object again', {
+      method: 'downloadFile',
+      bucket: record.bucket,
+      key,
+    });
+    record = undefined;
+  }
+
+  const bucket = record?.bucket || input.bucket || this.opts.bucket || '';
+  const recordedTasks: DownloadFileCheckpointRecordPartInfo[] =
+    record?.parts_info || [];
+  const completedParts = new Set(
+    recordedTasks.filter((it) => it.is_completed).map((it) => it.part_number)
+  );
+  const initConsumedBytes = recordedTasks
+    .filter((it) => it.is_completed)
+    .reduce((prev, it) => prev + (it.range_end - it.range_start + 1), 0);
+
+  const getCheckpointContent = (): DownloadFileCheckpointRecord => ({
+    bucket,
+    key,
+    version_id: versionId,
+    part_size: partSize,
+    parts_info: recordedTasks,
+    file_info: {
+      file_path: filePath,
+      temp_file_path: tempFilePath,
+    },
+    object_info: {
+      last_modified: objectStats['last-modified'],
+      etag,
+      hash_crc64ecma: objectStats['x-tos-hash-crc64ecma'] || '',
+      object_size: objectSize,
+    },
+  });
+  const triggerDownloadEvent = (
+    e: Omit<
+      DownloadEvent,
+      'bucket' | 'versionId' | 'key' | 'checkpointFile' | 'filePath'
+    >
+  ) => {
+    input.downloadEventChange?.({ bucket, versionId, key, filePath, ...e });
+  };
+  let consumedBytesForProgress = initConsumedBytes;
+  const triggerProgress = (isCompleted: boolean) => {
+    if (!input.progress) {
+      return;
+    }
+    // 100% 仅在 rename 后处理
+    if (consumedBytesForProgress === objectSize && !isCompleted) {
+      return;
+    }
+    const percent = !objectSize
+      ? +isCompleted
+      : consumedBytesForProgress / objectSize;
+    input.progress(percent, getCheckpointContent());
+  };
+  let consumedBytes = initConsumedBytes;
+  const triggerDataTransfer = (
+    type: DataTransferType,
+    rwOnceBytes: number = 0
+  ) => {
+    consumedBytes += rwOnceBytes;
+    input.dataTransferStatusChange?.({
+      type,
+      rwOnceBytes,
+      consumedBytes,
+      totalBytes: objectSize,
+    });
+  };
+
+  if (!record) {
+    try {
+      await createMpFile(tempFilePath);
+    } catch (_err) {
+      const err = _err as Error;
+      triggerDownloadEvent({
+        type: DownloadEventType.CreateTempFileFailed,
+        err,
+      });
+      throw err;
+    }
+    triggerDownloadEvent({ type: DownloadEventType.CreateTempFileSucceed });
+    triggerDataTransfer(DataTransferType.Started);
+  }
+  triggerProgress(false);
+
+  const tasks = getAllTasks(objectSize, partSize).filter(
+    (it) => objectSize > 0 && !completedParts.has(it.partNumber)
+  );
+  let firstErr: Error | null = null;
+  let index = 0;
+  await Promise.all(
+    Array.from({ length: input.taskNum || 1 }).map(async () => {
+      while (index < tasks.length) {
+        const curTask = tasks[index++];
+        const rangeEnd = curTask.offset + curTask.partSize - 1;
+        const downloadPartInfo: DownloadPartInfo = {
+          partNumber: curTask.partNumber,
+          rangeStart: curTask.offset,
+          rangeEnd,
+        };
+        const partFilePath = `${tempFilePath}.${curTask.partNumber}`;
+        let consumedBytesThisTask = 0;
+        const partStartTime = Date.now();
+        try {
+          await getObjectV2.call(this, {
+            bucket,
+            key,
+            versionId,
+            headers: {
+              'if-match': etag,
+              range: `bytes=${curTask.offset}-${rangeEnd}`,
+            },
+            trafficLimit: input.trafficLimit,
+            mpFilePath: partFilePath,
+            dataTransferStatusChange(status) {
+              if (status.type !== DataTransferType.Rw || isCancel()) {
+                return;
+              }
+              consumedBytesThisTask += status.rwOnceBytes;
+              triggerDataTransfer(DataTransferType.Rw, status.rwOnceBytes);
+            },
+          } as GetObjectV2InputInner);
+          const data = await readMpFile(partFilePath, 0, curTask.partSize);
+          await writeMpFile(tempFilePath, data, curTask.offset);
+          await removeMpFile(partFilePath).catch(() => {});
+          if (isCancel()) {
+            throw new CancelError('cancel downloadFile');
+          }
+
+          this.instrumentation.recordPart('downloadFile', {
+            size: curTask.partSize,
+            duration: Date.now() - partStartTime,
+          });
+          const partInfo = {
+            part_number: curTask.partNumber,
+            range_start: curTask.offset,
+            range_end: rangeEnd,
+            hash_crc64ecma: '',
+            is_completed: true,
+          };
+          const recordedIndex = recordedTasks.findIndex(
+            (it) => it.part_number === curTask.partNumber
+          );
+          if (recordedIndex >= 0) {
+            recordedTasks[recordedIndex] = partInfo;
+          } else {
+            recordedTasks.push(partInfo);
+          }
+          consumedBytesForProgress += curTask.partSize;
+          triggerDownloadEvent({
+            type: DownloadEventType.DownloadPartSucceed,
+            downloadPartInfo,
+          });
+          triggerProgress(false);
+        } catch (_err) {
+          const err = _err as any;
+          consumedBytes -= consumedBytesThisTask;
+          if (isCancelError(err)) {
+            throw err;
+          }
+          if (isCancel()) {
+            throw new CancelError('cancel downloadFile');
+          }
+          firstErr = firstErr || err;
+          this.instrumentation.recordPart('downloadFile', {
+            size: curTask.partSize,
+            duration: Date.now() - partStartTime,
+            error: err,
+          });
+          const aborted =
+            err instanceof TosServerError &&
+            ABORT_ERROR_STATUS_CODE.includes(err.statusCode);
+          triggerDownloadEvent({
+            type: aborted
+              ? DownloadEventType.DownloadPartAborted
+              : DownloadEventType.DownloadPartFailed,
+            err,
+            downloadPartInfo,
+          });
+        }
+      }
+    })
+  );
+  if (firstErr) {
+    triggerDataTransfer(DataTransferType.Failed);
+    throw firstErr;
+  }
+
+  try {
+    if (typeof input.customRenameFileAfterDownloadCompleted === 'function') {
+      await input.customRenameFileAfterDownloadCompleted(
+        tempFilePath,
+        filePath
+      );
+    } else {
+      await renameMpFile(tempFilePath, filePath);
+    }
+  } catch (_err) {
+    const err = _err as Error;
+    triggerDownloadEvent({ type: DownloadEventType.RenameTempFileFailed, err });
+    triggerDataTransfer(DataTransferType.Failed);
+    throw err;
+  }
+
+  triggerDownloadEvent({ type: DownloadEventType.RenameTempFileSucceed });
+  triggerProgress(true);
+  triggerDataTransfer(DataTransferType.Succeed);
+  return headObjectRes;
+}
@@ -1,9 +1,9 @@
 import { StorageClassType } from '../../TosExportEnum';
 import { Acl } from '../../interface';
 import { fillRequestHeaders, normalizeHeadersKey } from '../../utils';
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 
-export interface FetchObjectInput {
+export interface FetchObjectInput extends GenericInput {
   bucket?: string;
   key: string;
   url: string;
@@ -69,7 +69,7 @@ export async function fetchObject(this: TOSBase, input: FetchObjectInput) {
   return res;
 }
 
-export interface PutFetchTaskInput {
+export interface PutFetchTaskInput extends GenericInput {
   bucket?: string;
   key: string;
   url: string;
@@ -1,5 +1,8 @@
 import { createWriteStream } from '../../nodejs/fs-promises';
-import TosClientError from '../../TosClientError';
+import TosClientError, {
+  TosClientErrorCode,
+  TosValidationError,
+} from '../../TosClientError';
 import { DataTransferStatus, DataTransferType, Headers } from '../../interface';
 import {
   fillRequestHeaders,
@@ -9,7 +12,7 @@ import {
   normalizeHeadersKey,
   safeAwait,
 } from '../../utils';
-import TOSBase, { TosResponse } from '../base';
+import TOSBase, { TosResponse, GenericInput } from '../base';
 import {
   IRateLimiter,
   createRateLimiterStream,
@@ -18,8 +21,10 @@ import { getRestoreInfoFromHeaders, isValidRateLimiter } from './utils';
 import { createReadNReadStream } from '../../nodejs/EmitReadStream';
 import { RestoreInfo, TosHeader } from './sharedTypes';
 import { ReplicationStatusType } from '../../TosExportEnum';
+import { mpDownloadFileNamespace } from '../../axios-miniprogram-adapter';
+import { isMiniProgram } from '../../axios-miniprogram-adapter/utils/platForm';
 
-export interface GetObjectInput {
+export interface GetObjectInput extends GenericInput {
   bucket?: string;
   key: string;
   versionId?: string;
@@ -71,7 +76,7 @@ export async function getObject(this: TOSBase, input: GetObjectInput | string) {
 }
 
 type DataType = 'stream' | 'buffer' | 'blob';
-export interface GetObjectV2Input {
+export interface GetObjectV2Input extends GenericInput {
   bucket?: string;
   key: string;
   versionId?: string;
@@ -150,6 +155,14 @@ export interface GetObjectV2Input {
     expires?: string;
   };
 }
+export interface GetObjectV2InputInner extends GetObjectV2Input {
+  /**
+   * save the body to the file by the platform's `downloadFile` in mini-programs,
+   * `content` of the output isn't the body in this case
+   */
+  mpFilePath?: string;
+}
+
 export interface GetObjectV2Output {
   content: NodeJS.ReadableStream | Buffer | Blob;
   etag: string;
@@ -196,10 +209,11 @@ function checkSupportDataType(dataType: DataType) {
     supportDataTypes = BROWSER_DATATYPE;
   }
   if (!supportDataTypes.includes(dataType)) {
-    throw new TosClientError(
+    throw new TosValidationError(
       `The value of \`dataType\` only supports \`${supportDataTypes.join(
         ' | '
-      )}\` in ${environment} environment`
+      )}\` in ${environment} environment`,
+      TosClientErrorCode.InvalidParam
     );
   }
 }
@@ -228,8 +242,11 @@ async function getObjectV2(
   normalizedInput.headers = headers;
   const dataType = normalizedInput.dataType || 'stream';
   normalizedInput.dataType = dataType;
+  const { mpFilePath } = normalizedInput as GetObjectV2InputInner;
 
-  checkSupportDataType(dataType);
+  if (mpFilePath == null) {
+    checkSupportDataType(dataType);
+  }
 
   const query: Record<string, unknown> = {};
   const response: Partial<Headers> = normalizedInput?.response || {};
@@ -337,6 +354,9 @@ async function getObjectV2(
     this._fetchObject<any>(input, 'GET', query, headers, undefined, {
       axiosOpts: {
         responseType,
+        ...(mpFilePath != null
+          ? { [mpDownloadFileNamespace]: { filePath: mpFilePath } }
+          : {}),
         onDownloadProgress: (event) => {
           totalSize = event.total;
           triggerDataTransfer(
@@ -365,7 +385,8 @@ async function getObjectV2(
       ) {
         newData = createRateLimiterStream(
           newData as NodeJS.ReadableStream,
-          normalizedInput.rateLimiter
+          normalizedInput.rateLimiter,
+          this.requestContext.abortSignal
         );
       }
 
@@ -383,7 +404,7 @@ async function getObjectV2(
     }
   } else {
     // 浏览器环境
-    if (dataType === 'blob') {
+    if (dataType === 'blob' && mpFilePath == null) {
       newData = new Blob([res.data], {
         type: resHeaders['content-type'],
       });
@@ -421,9 +442,20 @@ export async function getObjectToFile(
   input: GetObjectToFileInput
 ): Promise<TosResponse<GetObjectToFileOutput>> {
   if (process.env.TARGET_ENVIRONMENT !== 'node') {
-    throw new TosClientError(
-      "getObjectToFile doesn't support in browser environment"
-    );
+    if (!isMiniProgram()) {
+      throw new TosClientError(
+        "getObjectToFile doesn't support in browser environment",
+        TosClientErrorCode.NotSupported
+      );
+    }
+    // `filePath` is the path of the mini-program's file system
+    const getObjectRes = await getObjectV2.call(this, {
+      ...input,
+      mpFilePath: input.filePath,
+    } as GetObjectV2InputInner);
+    const newData: any = { ...getObjectRes.data };
+    delete newData.content;
+    return { ...getObjectRes, data: newData };
   }
 
   return new Promise(async (resolve, reject) => {
@@ -1,9 +1,9 @@
-import TosClientError from '../../TosClientError';
+import { TosClientErrorCode, TosValidationError } from '../../TosClientError';
 import { covertCamelCase2Kebab, normalizeProxy } from '../../utils';
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 import { validateObjectName } from './utils';
 
-export interface GetPreSignedUrlInput {
+export interface GetPreSignedUrlInput extends GenericInput {
   bucket?: string;
   key: string;
   /**
@@ -41,7 +41,10 @@ export function getPreSignedUrl(
       : true;
   const bucket = normalizedInput.bucket || this.opts.bucket || '';
   if (subdomain && !bucket) {
-    throw new TosClientError('Must provide bucket param');
+    throw new TosValidationError(
+      'Must provide bucket param',
+      TosClientErrorCode.MissingParam
+    );
   }
 
   const [newHost, newPath, signingPath] = (() => {
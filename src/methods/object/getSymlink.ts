@@ -1,6 +1,6 @@
-import TOSBase, { TosResponse } from '../base';
+import TOSBase, { TosResponse, GenericInput } from '../base';
 
-export interface GetSymInput {
+export interface GetSymInput extends GenericInput {
   bucket?: string;
   key: string;
   versionId?: string;
@@ -1,11 +1,11 @@
 import { StorageClass } from '../../interface';
 import { fillRequestHeaders, normalizeHeadersKey } from '../../utils';
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 import { ReplicationStatusType } from '../../TosExportEnum';
 import { RestoreInfo, TosHeader } from './sharedTypes';
 import { getRestoreInfoFromHeaders } from './utils';
 
-export interface HeadObjectInput {
+export interface HeadObjectInput extends GenericInput {
   bucket?: string;
   key: string;
   versionId?: string;
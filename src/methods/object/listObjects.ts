@@ -1,7 +1,7 @@
 import { covertCamelCase2Kebab, makeArrayProp } from '../../utils';
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 
-export interface ListObjectsInput {
+export interface ListObjectsInput extends GenericInput {
   bucket?: string;
   continuationToken?: string;
   delimiter?: string;
@@ -121,6 +121,8 @@ export type ListObjectVersionsInput = Pick<
   | 'versionIdMarker'
   | 'maxKeys'
   | 'encodingType'
+  | 'abortSignal'
+  | 'requestOptions'
 >;
 
 export interface listObjectVersionsOutput {
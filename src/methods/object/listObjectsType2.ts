@@ -1,7 +1,7 @@
 import { covertCamelCase2Kebab, makeArrayProp } from '../../utils';
-import TOSBase, { TosResponse } from '../base';
+import TOSBase, { TosResponse, GenericInput } from '../base';
 
-export interface ListObjectsType2Input {
+export interface ListObjectsType2Input extends GenericInput {
   bucket?: string;
   prefix?: string;
   delimiter?: string;
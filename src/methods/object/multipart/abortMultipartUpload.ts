@@ -1,6 +1,6 @@
-import TOSBase from '../../base';
+import TOSBase, { GenericInput } from '../../base';
 
-export interface AbortMultipartUploadInput {
+export interface AbortMultipartUploadInput extends GenericInput {
   bucket?: string;
   key: string;
   uploadId: string;
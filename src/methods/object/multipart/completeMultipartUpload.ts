@@ -1,8 +1,11 @@
-import TosClientError from '../../../TosClientError';
+import {
+  TosClientErrorCode,
+  TosValidationError,
+} from '../../../TosClientError';
 import { fillRequestHeaders } from '../../../utils';
-import TOSBase from '../../base';
+import TOSBase, { GenericInput } from '../../base';
 
-export interface CompleteMultipartUploadInput {
+export interface CompleteMultipartUploadInput extends GenericInput {
   bucket?: string;
   key: string;
   uploadId: string;
@@ -74,8 +77,9 @@ export async function completeMultipartUpload(
   };
   if (input.completeAll) {
     if (input.parts?.length > 0) {
-      throw new TosClientError(
-        `Should not specify both 'completeAll' and 'parts' params.`
+      throw new TosValidationError(
+        `Should not specify both 'completeAll' and 'parts' params.`,
+        TosClientErrorCode.InvalidParam
       );
     }
     return this._fetchObject<CompleteMultipartUploadOutput>(
@@ -91,6 +95,7 @@ export async function completeMultipartUpload(
       undefined,
       {
         handleResponse,
+        idempotent: false,
       }
     );
   }
@@ -112,6 +117,7 @@ export async function completeMultipartUpload(
     },
     {
       handleResponse,
+      idempotent: false,
     }
   );
 }
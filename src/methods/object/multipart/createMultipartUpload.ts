@@ -1,9 +1,9 @@
-import TOSBase from '../../base';
+import TOSBase, { GenericInput } from '../../base';
 import { fillRequestHeaders, normalizeHeadersKey } from '../../../utils';
 import { Acl } from '../../../interface';
 import { StorageClassType } from '../../../TosExportEnum';
 
-export interface CreateMultipartUploadInput {
+export interface CreateMultipartUploadInput extends GenericInput {
   bucket?: string;
   key: string;
 
@@ -102,6 +102,10 @@ export async function createMultipartUpload(
     'POST',
     { uploads: '' },
     headers,
-    ''
+    '',
+    {
+      // a repeated request only leaves an unused upload
+      idempotent: true,
+    }
   );
 }
@@ -0,0 +1,420 @@
+import axios from 'axios';
+import TOSBase, { TosResponse } from '../../base';
+import {
+  createMultipartUpload,
+  CreateMultipartUploadInput,
+} from './createMultipartUpload';
+import { calculateSafePartSize } from './listParts';
+import {
+  CheckpointRecord,
+  CheckpointRecordPart,
+  getAllTasks,
+  UploadEvent,
+  UploadEventType,
+  UploadPartInfo,
+} from './uploadFile';
+import { presign } from '../presign';
+import TosServerError from '../../../TosServerError';
+import TosClientError, {
+  TosClientErrorCode,
+  TosValidationError,
+} from '../../../TosClientError';
+import { CancelError } from '../../../CancelError';
+import { isRetryable, makeNetworkError } from '../../../errorUtils';
+import { getBackoffDelay, wait } from '../../../retryStrategy';
+import { parsePreSignedUrl } from '../../../preSignedUrl';
+import { DEFAULT_PART_SIZE, isBlob, isBuffer } from '../../../utils';
+import { debugLogger, Logger, TosLogger } from '../../../logger';
+
+export interface SignDirectUploadPartsInput {
+  bucket?: string;
+  key: string;
+  uploadId: string;
+  fileSize: number;
+  partSize: number;
+  /**
+   * default: all parts
+   */
+  partNumbers?: number[];
+  /**
+   * unit: second, default: 3600
+   */
+  partUrlExpires?: number;
+}
+
+export interface CreateDirectUploadInput extends CreateMultipartUploadInput {
+  fileSize: number;
+  /**
+   * default is 20 MB
+   *
+   * unit: B
+   */
+  partSize?: number;
+  /**
+   * unit: second, default: 3600
+   */
+  partUrlExpires?: number;
+}
+
+export interface DirectUploadPart extends UploadPartInfo {
+  url: string;
+  /**
+   * the signed headers, they must be sent with the url
+   */
+  headers: Record<string, string>;
+}
+
+/**
+ * it's created by the server and passed to the browser, it doesn't contain credentials
+ */
+export interface DirectUploadSession {
+  bucket: string;
+  key: string;
+  uploadId: string;
+  partSize: number;
+  fileSize: number;
+  parts: DirectUploadPart[];
+}
+
+export interface DirectUploadFileInput<T> {
+  file: File | Blob | Buffer;
+  session: DirectUploadSession;
+  /**
+   * the number of request to parallel upload part，default value is 1
+   */
+  taskNum?: number;
+  /**
+   * the retry count of every part, default value is 3
+   */
+  maxRetryCount?: number;
+  /**
+   * the checkpoint of the `progress` callback, the uploaded parts are skipped
+   */
+  checkpoint?: CheckpointRecord;
+  /**
+   * the feature of pause and continue uploading
+   */
+  uploadEventChange?: (event: UploadEvent) => void;
+  /**
+   * the simple progress feature
+   * percent is [0, 1]
+   */
+  progress?: (percent: number, checkpoint: CheckpointRecord) => void;
+  abortSignal?: AbortSignal;
+  /**
+   * receive the logs like the `logger` option of the client, the logs of `info` and above are passed.
+   * default: write to the `TOS` channel of `debug`
+   */
+  logger?: Logger;
+  /**
+   * ask the server to sign the parts again when their urls expire
+   */
+  refreshParts?: (partNumbers: number[]) => Promise<DirectUploadPart[]>;
+  /**
+   * ask the server to call `completeMultipartUpload` with the parts
+   */
+  complete: (parts: { eTag: string; partNumber: number }[]) => Promise<T>;
+}
+
+const DEFAULT_PART_URL_EXPIRES = 3600;
+const DEFAULT_MAX_RETRY_COUNT = 3;
+const ABORT_ERROR_STATUS_CODE = [403, 404, 405];
+// refresh the url if it expires in 1 minute
+const PART_URL_EXPIRES_MARGIN = 60 * 1000;
+
+/**
+ * presign the `uploadPart` urls of an existing multipart upload, eg: the urls expire before the upload is resumed
+ */
+export async function signDirectUploadParts(
+  this: TOSBase,
+  input: SignDirectUploadPartsInput
+): Promise<DirectUploadSession> {
+  const bucket = input.bucket || this.opts.bucket || '';
+  const { key, uploadId, fileSize, partSize, partNumbers } = input;
+  const tasks = getAllTasks(fileSize, partSize).filter(
+    (it) => !partNumbers || partNumbers.includes(it.partNumber)
+  );
+  const parts = await Promise.all(
+    tasks.map(async (task): Promise<DirectUploadPart> => {
+      const { url, headers } = await presign.call(
+        this,
+        'uploadPart',
+        { bucket, key, uploadId, partNumber: task.partNumber },
+        { expires: input.partUrlExpires || DEFAULT_PART_URL_EXPIRES }
+      );
+      return { ...task, url, headers };
+    })
+  );
+  return { bucket, key, uploadId, partSize, fileSize, parts };
+}
+
+/**
+ * the server side of direct upload, it creates the multipart upload and presigns the `uploadPart` urls.
+ * the browser uploads the file by `directUploadFile` with the returned session.
+ */
+export async function createDirectUpload(
+  this: TOSBase,
+  input: CreateDirectUploadInput
+): Promise<TosResponse<DirectUploadSession>> {
+  const { fileSize, partUrlExpires } = input;
+  const partSize = calculateSafePartSize(
+    fileSize,
+    input.partSize || DEFAULT_PART_SIZE,
+    true
+  );
+  const res = await createMultipartUpload.call(this, input);
+  const session = await signDirectUploadParts.call(this, {
+    bucket: res.data.Bucket,
+    key: input.key,
+    uploadId: res.data.UploadId,
+    fileSize,
+    partSize,
+    partUrlExpires,
+  });
+  return { ...res, data: session };
+}
+
+function normalizeError(err: unknown, abortSignal?: AbortSignal) {
+  if (axios.isCancel(err) && abortSignal?.aborted) {
+    return new CancelError('the request is aborted');
+  }
+  if (axios.isAxiosError(err)) {
+    if (err.response?.headers?.['x-tos-request-id']) {
+      return new TosServerError(err.response);
+    }
+    return makeNetworkError(err);
+  }
+  return err;
+}
+
+function isUrlExpired(url: string) {
+  try {
+    const { expiresAt } = parsePreSignedUrl(url);
+    return expiresAt.valueOf() - Date.now() < PART_URL_EXPIRES_MARGIN;
+  } catch (err) {
+    // the url isn't presigned by TOS, eg: it's signed by the custom server
+    return false;
+  }
+}
+
+/**
+ * the browser side of direct upload, it uploads the parts by the presigned urls of `createDirectUpload`,
+ * and asks the server to complete the upload. credentials aren't needed.
+ */
+export async function directUploadFile<T>(
+  input: DirectUploadFileInput<T>
+): Promise<T> {
+  const { file, session, abortSignal } = input;
+  const { bucket, key, uploadId, partSize } = session;
+  const logger = input.logger
+    ? new TosLogger(input.logger, 'info')
+    : new TosLogger(debugLogger, 'debug');
+  const fileSize = (() => {
+    if (isBuffer(file)) {
+      return file.length;
+    }
+    if (isBlob(file)) {
+      return file.size;
+    }
+    throw new TosValidationError(
+      '`file` must be Buffer, File or Blob',
+      TosClientErrorCode.InvalidParam
+    );
+  })();
+  if (fileSize !== session.fileSize) {
+    throw new TosValidationError(
+      `the size of \`file\` is ${fileSize}, but the size of the session is ${session.fileSize}`,
+      TosClientErrorCode.InvalidParam
+    );
+  }
+
+  let record = input.checkpoint;
+  if (
+    record &&
+    (record.upload_id !== uploadId || record.part_size !== partSize)
+  ) {
+    logger.warn(
+      "the checkpoint doesn't belong to the session, upload the file again",
+      { method: 'directUploadFile', bucket, key, uploadId }
+    );
+    record = undefined;
+  }
+  const recordedParts: CheckpointRecordPart[] = (record?.parts_info || []).map(
+    (it) => ({ ...it })
+  );
+  const completedPartNumbers = new Set(
+    recordedParts.filter((it) => it.is_completed).map((it) => it.part_number)
+  );
+  const tasks = getAllTasks(fileSize, partSize).filter(
+    (it) => !completedPartNumbers.has(it.partNumber)
+  );
+  let consumedBytes = recordedParts
+    .filter((it) => it.is_completed)
+    .reduce((prev, it) => prev + it.part_size, 0);
+
+  const getCheckpoint = (): CheckpointRecord => ({
+    bucket,
+    key,
+    part_size: partSize,
+    upload_id: uploadId,
+    parts_info: recordedParts,
+  });
+  const triggerUploadEvent = (
+    e: Omit<UploadEvent, 'bucket' | 'uploadId' | 'key'>
+  ) => {
+    input.uploadEventChange?.({ bucket, key, uploadId, ...e });
+  };
+  const triggerProgress = (percent: number) => {
+    input.progress?.(percent, getCheckpoint());
+  };
+
+  const partMap = new Map(session.parts.map((it) => [it.partNumber, it]));
+  let refreshing: Promise<void> | null = null;
+  const getPart = async (partNumber: number) => {
+    let part = partMap.get(partNumber);
+    if (input.refreshParts && (!part || isUrlExpired(part.url))) {
+      if (!refreshing) {
+        const remaining = tasks
+          .map((it) => it.partNumber)
+          .filter((it) => !completedPartNumbers.has(it));
+        refreshing = input.refreshParts(remaining).then(
+          (parts) => {
+            parts.forEach((it) => partMap.set(it.partNumber, it));
+            refreshing = null;
+          },
+          (err) => {
+            refreshing = null;
+            throw err;
+          }
+        );
+      }
+      await refreshing;
+      part = partMap.get(partNumber);
+    }
+    if (!part) {
+      throw new TosValidationError(
+        `the url of part ${partNumber} isn't in the session`,
+        TosClientErrorCode.MissingParam
+      );
+    }
+    return part;
+  };
+
+  const sendPart = async (task: UploadPartInfo) => {
+    const maxRetryCount = input.maxRetryCount ?? DEFAULT_MAX_RETRY_COUNT;
+    for (let attempt = 0; ; ++attempt) {
+      const part = await getPart(task.partNumber);
+      const source = axios.CancelToken.source();
+      const onAbort = () => source.cancel('the request is aborted');
+      abortSignal?.addEventListener('abort', onAbort);
+      try {
+        if (abortSignal?.aborted) {
+          throw new CancelError('the request is aborted');
+        }
+        const res = await axios({
+          method: 'PUT',
+          url: part.url,
+          headers: part.headers,
+          data: file.slice(task.offset, task.offset + task.partSize),
+          cancelToken: source.token,
+        });
+        if (!res.headers['etag']) {
+          throw new TosClientError(
+            "No ETag in uploadPart's response headers, please see https://www.volcengine.com/docs/6349/127737 to fix CORS problem",
+            TosClientErrorCode.InvalidResponse
+          );
+        }
+        return res.headers['etag'] as string;
+      } catch (_err) {
+        const err = normalizeError(_err, abortSignal);
+        if (attempt >= maxRetryCount || !isRetryable(err)) {
+          throw err;
+        }
+      } finally {
+        abortSignal?.removeEventListener('abort', onAbort);
+      }
+      await wait(getBackoffDelay(attempt + 1), abortSignal);
+    }
+  };
+
+  const handleTask = async (task: UploadPartInfo) => {
+    const uploadPartInfo: UploadPartInfo = {
+      partNumber: task.partNumber,
+      partSize: task.partSize,
+      offset: task.offset,
+    };
+    let etag: string;
+    try {
+      etag = await sendPart(task);
+    } catch (err) {
+      const type =
+        err instanceof TosServerError &&
+        ABORT_ERROR_STATUS_CODE.includes(err.statusCode)
+          ? UploadEventType.UploadPartAborted
+          : UploadEventType.UploadPartFailed;
+      triggerUploadEvent({ type, err: err as Error, uploadPartInfo });
+      throw err;
+    }
+
+    recordedParts.push({
+      part_number: task.partNumber,
+      part_size: task.partSize,
+      offset: task.offset,
+      etag,
+      hash_crc64ecma: '',
+      is_completed: true,
+    });
+    completedPartNumbers.add(task.partNumber);
+    consumedBytes += task.partSize;
+    triggerUploadEvent({
+      type: UploadEventType.UploadPartSucceed,
+      uploadPartInfo: { ...uploadPartInfo, etag },
+    });
+    // 100% is triggered after the upload is completed
+    if (consumedBytes < fileSize) {
+      triggerProgress(consumedBytes / fileSize);
+    }
+  };
+
+  triggerProgress(fileSize ? consumedBytes / fileSize : 0);
+  let firstErr: unknown = null;
+  let index = 0;
+  await Promise.all(
+    Array.from({ length: input.taskNum || 1 }).map(async () => {
+      while (index < tasks.length) {
+        const task = tasks[index++];
+        try {
+          await handleTask(task);
+        } catch (err) {
+          if (err instanceof CancelError) {
+            throw err;
+          }
+          firstErr = firstErr || err;
+        }
+      }
+    })
+  );
+  if (firstErr) {
+    throw firstErr;
+  }
+
+  const parts = recordedParts
+    .filter((it) => it.is_completed)
+    .map((it) => ({ eTag: it.etag, partNumber: it.part_number }))
+    .sort((a, b) => a.partNumber - b.partNumber);
+  let result: T;
+  try {
+    result = await input.complete(parts);
+  } catch (err) {
+    triggerUploadEvent({
+      type: UploadEventType.CompleteMultipartUploadFailed,
+      err: err as Error,
+    });
+    throw err;
+  }
+  triggerUploadEvent({
+    type: UploadEventType.CompleteMultipartUploadSucceed,
+  });
+  triggerProgress(1);
+  return result;
+}
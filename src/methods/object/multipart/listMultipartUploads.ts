@@ -1,7 +1,7 @@
 import { covertCamelCase2Kebab, makeArrayProp } from '../../../utils';
-import TOSBase from '../../base';
+import TOSBase, { GenericInput } from '../../base';
 
-export interface ListMultipartUploadsInput {
+export interface ListMultipartUploadsInput extends GenericInput {
   bucket?: string;
   maxUploads?: number;
   keyMarker?: string;
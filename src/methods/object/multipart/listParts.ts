@@ -1,7 +1,7 @@
 import { covertCamelCase2Kebab, makeArrayProp } from '../../../utils';
-import TOSBase from '../../base';
+import TOSBase, { GenericInput } from '../../base';
 
-interface ListPartInput {
+interface ListPartInput extends GenericInput {
   bucket?: string;
   key: string;
   uploadId: string;
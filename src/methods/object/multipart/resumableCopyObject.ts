@@ -27,7 +27,7 @@ import { Headers } from '../../../interface';
 import copyObject from '../copyObject';
 import { getCopySourceHeaderValue, validateCheckpoint } from '../utils';
 import cloneDeep from 'lodash/cloneDeep';
-import TosClientError from '../../../TosClientError';
+import { TosChecksumMismatchError } from '../../../TosClientError';
 
 export interface ResumableCopyObjectInput extends CreateMultipartUploadInput {
   srcBucket: string;
@@ -164,7 +164,9 @@ export async function resumableCopyObject(
   input: ResumableCopyObjectInput
 ): Promise<TosResponse<UploadFileOutput>> {
   const { cancelToken } = input;
-  const isCancel = () => cancelToken && !!cancelToken.reason;
+  const isCancel = () =>
+    (cancelToken && !!cancelToken.reason) ||
+    !!this.requestContext.abortSignal?.aborted;
   validateCheckpoint(input.checkpoint);
 
   const { data: objectStats } = await headObject.call(this, {
@@ -522,6 +524,7 @@ export async function resumableCopyObject(
           }
 
           const curTask = tasks[currentIndex];
+          const partStartTime = Date.now();
           try {
             let copySource = getCopySourceHeaderValue(
               input.srcBucket,
@@ -556,6 +559,10 @@ export async function resumableCopyObject(
               throw new CancelError('cancel resumableCopyObject');
             }
 
+            this.instrumentation.recordPart('resumableCopyObject', {
+              size: curTask.partSize,
+              duration: Date.now() - partStartTime,
+            });
             await updateAfterUploadPart(curTask, { res: uploadPartRes });
           } catch (_err) {
             const err = _err as any;
@@ -571,6 +578,11 @@ export async function resumableCopyObject(
             if (!firstErr) {
               firstErr = err;
             }
+            this.instrumentation.recordPart('resumableCopyObject', {
+              size: curTask.partSize,
+              duration: Date.now() - partStartTime,
+              error: err,
+            });
             await updateAfterUploadPart(curTask, { err });
           }
         }
@@ -618,8 +630,10 @@ export async function resumableCopyObject(
       actualCrc64 &&
       sourceCRC64 !== actualCrc64
     ) {
-      throw new TosClientError(
-        `validate file crc64 failed. Expect crc64 ${sourceCRC64}, actual crc64 ${actualCrc64}. Please try again.`
+      throw new TosChecksumMismatchError(
+        `validate file crc64 failed. Expect crc64 ${sourceCRC64}, actual crc64 ${actualCrc64}. Please try again.`,
+        sourceCRC64,
+        actualCrc64
       );
     }
 
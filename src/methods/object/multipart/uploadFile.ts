@@ -15,7 +15,11 @@ import {
 import { CancelToken } from 'axios';
 import * as fsp from '../../../nodejs/fs-promises';
 import path from 'path';
-import TosClientError from '../../../TosClientError';
+import {
+  TosChecksumMismatchError,
+  TosClientErrorCode,
+  TosValidationError,
+} from '../../../TosClientError';
 import { DataTransferStatus, DataTransferType } from '../../../interface';
 import {
   safeAwait,
@@ -36,11 +40,18 @@ import { hashMd5 } from '../../../universal/crypto';
 import { IRateLimiter } from '../../../interface';
 import { validateCheckpoint } from '../utils';
 import { combineCrc64 } from '../../../universal/crc';
+import { isMiniProgram } from '../../../axios-miniprogram-adapter/utils/platForm';
+import {
+  readMpFile,
+  statMpFile,
+} from '../../../axios-miniprogram-adapter/utils/fileSystem';
 
 export interface UploadFileInput extends CreateMultipartUploadInput {
   /**
    * if the type of `file` is string,
-   * `file` represents the file path that will be uploaded
+   * `file` represents the file path that will be uploaded.
+   * in mini-programs, it's the temp file path(eg: the result of `wx.chooseMessageFile`),
+   * and every part is read by the file system's `read` api.
    */
   file: string | File | Blob | Buffer;
 
@@ -67,6 +78,9 @@ export interface UploadFileInput extends CreateMultipartUploadInput {
    */
   checkpoint?: string | CheckpointRecord;
 
+  /**
+   * in mini-programs, it's updated per part if the platform's `request` doesn't report the upload progress, eg: WeChat
+   */
   dataTransferStatusChange?: (status: DataTransferStatus) => void;
 
   /**
@@ -161,7 +175,7 @@ export interface CheckpointRecord {
   // encoding_type?: string;
 }
 
-interface CheckpointRecordPart {
+export interface CheckpointRecordPart {
   part_number: number;
   part_size: number;
   offset: number;
@@ -220,16 +234,21 @@ export async function uploadFile(
     'storageClass',
   ]);
 
-  const isCancel = () => cancelToken && !!cancelToken.reason;
+  const isCancel = () =>
+    (cancelToken && !!cancelToken.reason) ||
+    !!this.requestContext.abortSignal?.aborted;
   validateCheckpoint(input.checkpoint);
 
-  const fileStats: Stats | null = await (async () => {
-    if (
-      process.env.TARGET_ENVIRONMENT === 'node' &&
-      typeof input.file === 'string'
-    ) {
+  const fileStats: Pick<Stats, 'size' | 'mtimeMs'> | null = await (async () => {
+    if (typeof input.file !== 'string') {
+      return null;
+    }
+    if (process.env.TARGET_ENVIRONMENT === 'node') {
       return fsp.stat(input.file);
     }
+    if (isMiniProgram()) {
+      return statMpFile(input.file);
+    }
     return null;
   })();
 
@@ -244,7 +263,10 @@ export async function uploadFile(
     if (isBlob(file)) {
       return file.size;
     }
-    throw new TosClientError(FILE_PARAM_CHECK_MSG);
+    throw new TosValidationError(
+      FILE_PARAM_CHECK_MSG,
+      TosClientErrorCode.InvalidParam
+    );
   })();
 
   const checkpointRichInfo = await (async (): Promise<CheckpointRichInfo> => {
@@ -605,9 +627,10 @@ export async function uploadFile(
 
           const curTask = tasks[currentIndex];
           let consumedBytesThisTask = 0;
+          const partStartTime = Date.now();
           const makeRetryStream = getMakeRetryStream(input.file, curTask);
           try {
-            function getBody(file: UploadFileInput['file'], task: Task) {
+            async function getBody(file: UploadFileInput['file'], task: Task) {
               const { offset: start, partSize } = task;
               const end = start + partSize;
 
@@ -615,20 +638,27 @@ export async function uploadFile(
                 return makeRetryStream.make();
               }
 
+              if (typeof file === 'string' && isMiniProgram()) {
+                return readMpFile(file, start, partSize);
+              }
+
               if (isBlob(file)) {
                 return file.slice(start, end);
               }
               if (isBuffer(file)) {
                 return file.slice(start, end);
               }
-              throw new TosClientError(FILE_PARAM_CHECK_MSG);
+              throw new TosValidationError(
+                FILE_PARAM_CHECK_MSG,
+                TosClientErrorCode.InvalidParam
+              );
             }
 
             const { data: uploadPartRes } = await _uploadPart.call(this, {
               bucket,
               key,
               uploadId,
-              body: getBody(input.file, curTask),
+              body: await getBody(input.file, curTask),
               enableContentMD5,
               makeRetryStream: makeRetryStream?.make,
               beforeRetry: () => {
@@ -663,6 +693,10 @@ export async function uploadFile(
               throw new CancelError('cancel uploadFile');
             }
 
+            this.instrumentation.recordPart('uploadFile', {
+              size: curTask.partSize,
+              duration: Date.now() - partStartTime,
+            });
             await updateAfterUploadPart(curTask, { res: uploadPartRes });
           } catch (_err) {
             tryDestroy(makeRetryStream?.getLastStream(), _err);
@@ -682,6 +716,11 @@ export async function uploadFile(
             if (!firstErr) {
               firstErr = err;
             }
+            this.instrumentation.recordPart('uploadFile', {
+              size: curTask.partSize,
+              duration: Date.now() - partStartTime,
+              error: err,
+            });
             await updateAfterUploadPart(curTask, { err });
           }
         }
@@ -726,7 +765,10 @@ export async function uploadFile(
       res.data.HashCrc64ecma &&
       combineCRCInParts(getCheckpointContent()) !== res.data.HashCrc64ecma
     ) {
-      throw new TosClientError('crc of entire file mismatch.');
+      throw new TosChecksumMismatchError(
+        'crc of entire file mismatch.',
+        res.data.HashCrc64ecma
+      );
     }
 
     return res;
@@ -747,7 +789,7 @@ export default uploadFile;
 /**
  * 即使 totalSize 是 0，也需要一个 Part，否则 Server 端会报错 read request body failed
  */
-function getAllTasks(totalSize: number, partSize: number) {
+export function getAllTasks(totalSize: number, partSize: number) {
   const tasks: Task[] = [];
   for (let i = 0; ; ++i) {
     const offset = i * partSize;
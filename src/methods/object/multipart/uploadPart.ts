@@ -1,6 +1,6 @@
-import { getNewBodyConfig, getSize } from '../utils';
-import TOSBase from '../../base';
-import TosClientError from '../../../TosClientError';
+import { fillPayloadSha256, getNewBodyConfig, getSize } from '../utils';
+import TOSBase, { GenericInput } from '../../base';
+import TosClientError, { TosClientErrorCode } from '../../../TosClientError';
 import { ReadStream, Stats } from 'fs';
 import * as fsp from '../../../nodejs/fs-promises';
 import { DataTransferStatus, DataTransferType } from '../../../interface';
@@ -17,8 +17,8 @@ import { retryNamespace } from '../../../axios';
 import { hashMd5 } from '../../../universal/crypto';
 import { IRateLimiter } from '../../../universal/rate-limiter';
 
-export interface UploadPartInput {
-  body: Blob | Buffer | NodeJS.ReadableStream;
+export interface UploadPartInput extends GenericInput {
+  body: Blob | Buffer | ArrayBuffer | NodeJS.ReadableStream;
   bucket?: string;
   key: string;
   partNumber: number;
@@ -165,6 +165,7 @@ export async function _uploadPart(this: TOSBase, input: UploadPartInputInner) {
       progress?.(progressValue);
     }
   };
+  fillPayloadSha256(this.opts.payloadSigning, input.body, headers);
   const bodyConfig = await getNewBodyConfig({
     body: input.body,
     dataTransferCallback: (n) => triggerDataTransfer(DataTransferType.Rw, n),
@@ -172,6 +173,7 @@ export async function _uploadPart(this: TOSBase, input: UploadPartInputInner) {
     makeRetryStream: input.makeRetryStream,
     enableCRC: this.opts.enableCRC,
     rateLimiter: input.rateLimiter,
+    abortSignal: this.requestContext.abortSignal,
   });
 
   triggerDataTransfer(DataTransferType.Started);
@@ -225,7 +227,8 @@ export async function _uploadPart(this: TOSBase, input: UploadPartInputInner) {
   if (process.env.TARGET_ENVIRONMENT === 'browser') {
     if (res && !res.data.ETag) {
       throw new TosClientError(
-        "No ETag in uploadPart's response headers, please see https://www.volcengine.com/docs/6349/127737 to fix CORS problem"
+        "No ETag in uploadPart's response headers, please see https://www.volcengine.com/docs/6349/127737 to fix CORS problem",
+        TosClientErrorCode.InvalidResponse
       );
     }
   }
@@ -261,7 +264,8 @@ export async function uploadPartFromFile(
 ) {
   if (process.env.TARGET_ENVIRONMENT !== 'node') {
     throw new TosClientError(
-      "uploadPartFromFile doesn't support in browser environment"
+      "uploadPartFromFile doesn't support in browser environment",
+      TosClientErrorCode.NotSupported
     );
   }
 
@@ -4,10 +4,10 @@ import {
   normalizeHeadersKey,
   requestHeadersMap,
 } from '../../../utils';
-import TOSBase from '../../base';
+import TOSBase, { GenericInput } from '../../base';
 import { getCopySourceHeaderValue } from '../utils';
 
-export interface UploadPartCopyInput {
+export interface UploadPartCopyInput extends GenericInput {
   bucket?: string;
   key: string;
   partNumber: number;
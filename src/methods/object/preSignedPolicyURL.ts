@@ -1,8 +1,8 @@
-import TosClientError from '../../TosClientError';
+import { TosClientErrorCode, TosValidationError } from '../../TosClientError';
 import { obj2QueryStr } from '../../utils';
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 
-export interface PreSignedPolicyURLInput {
+export interface PreSignedPolicyURLInput extends GenericInput {
   bucket?: string;
   /**
    * unit: s
@@ -118,7 +118,10 @@ function normalizeInput(
   const defaultExpires = 3600;
 
   if (!actualBucket) {
-    throw new TosClientError('Must provide bucket param');
+    throw new TosValidationError(
+      'Must provide bucket param',
+      TosClientErrorCode.MissingParam
+    );
   }
 
   validateConditions(input.conditions);
@@ -135,21 +138,24 @@ function normalizeInput(
 
 function validateConditions(conditions: PolicySignatureCondition[]) {
   if (conditions.length < 1) {
-    throw new TosClientError(
-      'The `conditions` field of `PreSignedPolicyURLInput` must has one item at least'
+    throw new TosValidationError(
+      'The `conditions` field of `PreSignedPolicyURLInput` must has one item at least',
+      TosClientErrorCode.InvalidParam
     );
   }
 
   for (const it of conditions) {
     if (it.key !== 'key') {
-      throw new TosClientError(
-        "The `key` field of `PolicySignatureCondition` must be `'key'`"
+      throw new TosValidationError(
+        "The `key` field of `PolicySignatureCondition` must be `'key'`",
+        TosClientErrorCode.InvalidParam
       );
     }
 
     if (it.operator && it.operator !== 'eq' && it.operator !== 'starts-with') {
-      throw new TosClientError(
-        "The `operator` field of `PolicySignatureCondition` must be `'eq'` or `'starts-with'`"
+      throw new TosValidationError(
+        "The `operator` field of `PolicySignatureCondition` must be `'eq'` or `'starts-with'`",
+        TosClientErrorCode.InvalidParam
       );
     }
   }
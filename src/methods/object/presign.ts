@@ -0,0 +1,79 @@
+import TosClientError, {
+  TosClientErrorCode,
+  TosValidationError,
+} from '../../TosClientError';
+import type { InnerClient } from '../../InnerClient';
+import TOSBase, { PresignedRequest, PresignOutput } from '../base';
+
+const PRESIGN_OPERATIONS = [
+  'getObjectV2',
+  'headObject',
+  'putObject',
+  'appendObject',
+  'deleteObject',
+  'listObjectsType2',
+  'createMultipartUpload',
+  'uploadPart',
+  'completeMultipartUpload',
+  'abortMultipartUpload',
+  'listParts',
+] as const;
+
+export type PresignOperation = (typeof PRESIGN_OPERATIONS)[number];
+
+// the body isn't sent, so it's optional
+type OptionalBody<T> = T extends { body?: unknown }
+  ? Omit<T, 'body'> & Partial<Pick<T, 'body'>>
+  : T;
+
+export type PresignInput<K extends PresignOperation> = OptionalBody<
+  Parameters<InnerClient[K]>[0]
+>;
+
+export interface PresignOptions {
+  /**
+   * unit: second, default: 1800
+   */
+  expires?: number;
+}
+
+/**
+ * build the request like the method does and sign it by query instead of sending it.
+ * the body isn't needed, the returned headers must be sent with the url.
+ */
+export async function presign<K extends PresignOperation>(
+  this: TOSBase,
+  operation: K,
+  input: PresignInput<K>,
+  options: PresignOptions = {}
+): Promise<PresignOutput> {
+  if (!PRESIGN_OPERATIONS.includes(operation)) {
+    throw new TosValidationError(
+      `the operation \`${operation}\` can't be presigned`,
+      TosClientErrorCode.NotSupported
+    );
+  }
+
+  const client: TOSBase = Object.create(this);
+  client.requestContext = {
+    ...this.requestContext,
+    presign: { expires: options.expires || 1800 },
+  };
+  const method = (client as unknown as InnerClient)[operation] as (
+    input: unknown
+  ) => Promise<unknown>;
+  try {
+    await method.call(client, input);
+  } catch (err) {
+    if (err instanceof PresignedRequest) {
+      return err.output;
+    }
+    throw err;
+  }
+  throw new TosClientError(
+    `the operation \`${operation}\` doesn't send request`,
+    TosClientErrorCode.InvalidState
+  );
+}
+
+export default presign;
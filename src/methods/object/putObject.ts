@@ -1,4 +1,4 @@
-import TOSBase, { TosResponse } from '../base';
+import TOSBase, { TosResponse, GenericInput } from '../base';
 import {
   checkCRC64WithHeaders,
   fillRequestHeaders,
@@ -13,15 +13,15 @@ import {
   DataTransferType,
   SupportObjectBody,
 } from '../../interface';
-import TosClientError from '../../TosClientError';
+import TosClientError, { TosClientErrorCode } from '../../TosClientError';
 import * as fsp from '../../nodejs/fs-promises';
 import { Stats, ReadStream } from 'fs';
-import { getSize, getNewBodyConfig } from './utils';
+import { getSize, getNewBodyConfig, fillPayloadSha256 } from './utils';
 import { retryNamespace } from '../../axios';
 import { IRateLimiter } from '../../universal/rate-limiter';
 import { StorageClassType } from '../../TosExportEnum';
 
-export interface PutObjectInput {
+export interface PutObjectInput extends GenericInput {
   bucket?: string;
   key: string;
   /**
@@ -214,12 +214,14 @@ export async function _putObject(
     }
   };
 
+  fillPayloadSha256(this.opts.payloadSigning, input.body, headers);
   const bodyConfig = await getNewBodyConfig({
     body: input.body,
     dataTransferCallback: (n) => triggerDataTransfer(DataTransferType.Rw, n),
     makeRetryStream: input.makeRetryStream,
     enableCRC: this.opts.enableCRC,
     rateLimiter: input.rateLimiter,
+    abortSignal: this.requestContext.abortSignal,
   });
 
   triggerDataTransfer(DataTransferType.Started);
@@ -283,7 +285,8 @@ export async function putObjectFromFile(
   const normalizedHeaders = normalizeHeadersKey(input.headers);
   if (process.env.TARGET_ENVIRONMENT !== 'node') {
     throw new TosClientError(
-      "putObjectFromFile doesn't support in browser environment"
+      "putObjectFromFile doesn't support in browser environment",
+      TosClientErrorCode.NotSupported
     );
   }
 
@@ -1,9 +1,9 @@
-import TOSBase, { TosResponse } from '../base';
+import TOSBase, { TosResponse, GenericInput } from '../base';
 import { fillRequestHeaders, normalizeHeadersKey } from '../../utils';
 import { Acl } from '../../interface';
 import { StorageClassType } from '../../TosExportEnum';
 
-export interface PutSymInput {
+export interface PutSymInput extends GenericInput {
   bucket?: string;
   key: string;
   symLinkTargetKey: string;
@@ -1,7 +1,7 @@
 import { fillRequestHeaders, normalizeHeadersKey } from '../../utils';
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 
-export interface RenameObjectInput {
+export interface RenameObjectInput extends GenericInput {
   bucket?: string;
   key: string;
   newKey: string;
@@ -20,7 +20,11 @@ export async function renameObject(this: TOSBase, input: RenameObjectInput) {
     'PUT',
     { rename: '', name: input.newKey },
     input.headers,
-    ''
+    '',
+    {
+      // the source key doesn't exist after renaming
+      idempotent: false,
+    }
   );
 }
 
@@ -1,8 +1,8 @@
 import { TierType } from '../../TosExportEnum';
 import { convertNormalCamelCase2Upper } from '../../utils';
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 
-export interface RestoreObjectInput {
+export interface RestoreObjectInput extends GenericInput {
   bucket?: string;
   key: string;
   versionId?: string;
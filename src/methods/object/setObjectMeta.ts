@@ -1,7 +1,7 @@
 import { fillRequestHeaders, normalizeHeadersKey } from '../../utils';
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 
-export interface SetObjectMetaInput {
+export interface SetObjectMetaInput extends GenericInput {
   bucket?: string;
   key: string;
   versionId?: string;
@@ -47,7 +47,16 @@ export async function setObjectMeta(
     query.versionId = normalizedInput.versionId;
   }
 
-  return this._fetchObject<undefined>(input, 'POST', query, headers);
+  return this._fetchObject<undefined>(
+    input,
+    'POST',
+    query,
+    headers,
+    undefined,
+    {
+      idempotent: true,
+    }
+  );
 }
 
 export default setObjectMeta;
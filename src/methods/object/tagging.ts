@@ -1,5 +1,5 @@
 import { makeArrayProp, normalizeHeadersKey } from '../../utils';
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 
 const CommonQueryKey = 'tagging';
 
@@ -10,7 +10,7 @@ interface TagSet {
   }[];
 }
 
-export interface PutObjectTaggingInput {
+export interface PutObjectTaggingInput extends GenericInput {
   bucket: string;
   key: string;
   versionId?: string;
@@ -39,7 +39,7 @@ export async function putObjectTagging(
   );
 }
 
-export interface GetObjectTaggingInput {
+export interface GetObjectTaggingInput extends GenericInput {
   bucket: string;
   key: string;
   versionId?: string;
@@ -68,7 +68,7 @@ export async function getObjectTagging(
   return res;
 }
 
-export interface DeleteObjectTaggingInput {
+export interface DeleteObjectTaggingInput extends GenericInput {
   bucket: string;
   key: string;
   versionId?: string;
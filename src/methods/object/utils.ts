@@ -1,4 +1,4 @@
-import TosClientError from '../../TosClientError';
+import { TosClientErrorCode, TosValidationError } from '../../TosClientError';
 import mimeTypes from '../../mime-types';
 import { Headers, SupportObjectBody } from '../../interface';
 import { createReadNReadStream } from '../../nodejs/EmitReadStream';
@@ -16,6 +16,8 @@ import {
   TosHeader,
 } from './sharedTypes';
 import { TierType } from '../../TosExportEnum';
+import { hashSha256 } from '../../universal/crypto';
+import type { PayloadSigningMode } from '../base';
 
 export const getObjectInputKey = (input: string | { key: string }): string => {
   return typeof input === 'string' ? input : input.key;
@@ -39,8 +41,9 @@ export function lookupMimeType(key: string) {
 export function validateObjectName(input: { key: string } | string) {
   const key = typeof input === 'string' ? input : input.key;
   if (key.length < 1) {
-    throw new TosClientError(
-      'invalid object name, the length must be greater than 1'
+    throw new TosValidationError(
+      'invalid object name, the length must be greater than 1',
+      TosClientErrorCode.InvalidObjectName
     );
   }
 }
@@ -52,6 +55,9 @@ export function getSize(body: unknown, headers?: Headers) {
   if (isBlob(body)) {
     return body.size;
   }
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    return body.byteLength;
+  }
   if (headers && headers['content-length']) {
     const v = +headers['content-length'];
     if (v >= 0) {
@@ -68,6 +74,7 @@ interface GetNewBodyConfigIn<T> {
   makeRetryStream?: () => NodeJS.ReadableStream | undefined;
   enableCRC: boolean;
   rateLimiter?: IRateLimiter;
+  abortSignal?: AbortSignal;
 }
 interface GetNewBodyConfigOut<T> {
   body: T | NodeJS.ReadableStream;
@@ -81,6 +88,7 @@ interface GetEmitReadBodyConfigIn<T> {
   dataTransferCallback: (n: number) => void;
   makeRetryStream?: () => NodeJS.ReadableStream | undefined;
   rateLimiter?: IRateLimiter;
+  abortSignal?: AbortSignal;
 }
 interface GetEmitReadBodyConfigOut<T> {
   body: T | NodeJS.ReadableStream;
@@ -92,6 +100,7 @@ export function getEmitReadBodyConfig<T extends SupportObjectBody>({
   dataTransferCallback,
   makeRetryStream,
   rateLimiter,
+  abortSignal,
 }: GetEmitReadBodyConfigIn<T>): GetEmitReadBodyConfigOut<T> {
   let newBody: T | NodeJS.ReadableStream = body;
 
@@ -112,7 +121,7 @@ export function getEmitReadBodyConfig<T extends SupportObjectBody>({
 
   if (isReadable(newBody)) {
     if (rateLimiter && isValidRateLimiter(rateLimiter)) {
-      newBody = createRateLimiterStream(newBody, rateLimiter);
+      newBody = createRateLimiterStream(newBody, rateLimiter, abortSignal);
     }
     newBody = createReadNReadStream(newBody, dataTransferCallback);
 
@@ -127,7 +136,7 @@ export function getEmitReadBodyConfig<T extends SupportObjectBody>({
           }
 
           if (rateLimiter && isValidRateLimiter(rateLimiter)) {
-            stream = createRateLimiterStream(stream, rateLimiter);
+            stream = createRateLimiterStream(stream, rateLimiter, abortSignal);
           }
           stream = createReadNReadStream(stream, dataTransferCallback);
           return stream;
@@ -189,13 +198,38 @@ export async function getNewBodyConfig<T extends SupportObjectBody>(
   return config2;
 }
 
+/**
+ * sign the SHA256 of `Buffer` and string bodies, it must be called before the body is converted to stream
+ */
+export function fillPayloadSha256(
+  payloadSigning: PayloadSigningMode | undefined,
+  body: unknown,
+  headers: Headers
+) {
+  if (
+    process.env.TARGET_ENVIRONMENT !== 'node' ||
+    !payloadSigning ||
+    payloadSigning === 'unsigned' ||
+    headers['x-tos-content-sha256']
+  ) {
+    return;
+  }
+
+  if (isBuffer(body) || typeof body === 'string') {
+    headers['x-tos-content-sha256'] = hashSha256(body, 'hex');
+  }
+}
+
 export function getCopySourceHeaderValue(srcBucket: string, srcKey: string) {
   return `/${srcBucket}/${encodeURIComponent(srcKey)}`;
 }
 
 export function isValidRateLimiter(rateLimiter?: IRateLimiter) {
   if (!rateLimiter?.Acquire || !(rateLimiter?.Acquire instanceof Function)) {
-    throw new TosClientError(`The rateLimiter is not valid function`);
+    throw new TosValidationError(
+      `The rateLimiter is not valid function`,
+      TosClientErrorCode.InvalidParam
+    );
   }
   return true;
 }
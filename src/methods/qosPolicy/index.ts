@@ -1,6 +1,6 @@
 /** @file TOS 支持 QoSPolicy(流控策略管理) 相关接口  */
 import { MergeExclusive } from 'type-fest';
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 
 export enum StringOp {
   StringEquals = 'StringEquals',
@@ -87,7 +87,7 @@ export interface QosPolicy {
   CasVersion?: string;
 }
 
-export interface QosPolicyBaseInput {
+export interface QosPolicyBaseInput extends GenericInput {
   accountId: string;
 }
 
@@ -1,7 +1,7 @@
-import TOSBase from '../base';
+import TOSBase, { GenericInput } from '../base';
 import { paramsSerializer } from '../../utils';
 
-export interface IMetaData {
+export interface IMetaData extends GenericInput {
   accountId: string;
 }
 
@@ -0,0 +1,161 @@
+import type { Method } from 'axios';
+import type { Headers } from './interface';
+import type { TOSConstructorOptions, TosResponse } from './methods/base';
+import { encodeHeadersValue, normalizeProxy } from './utils';
+
+/**
+ * build: the request is created, the headers aren't encoded
+ * beforeSign: the headers will be encoded and signed
+ * afterSign: the request is signed, modify it carefully to keep the signature valid
+ * afterResponse: the response is parsed
+ * onError: the request fails
+ */
+export type MiddlewareStage =
+  | 'build'
+  | 'beforeSign'
+  | 'afterSign'
+  | 'afterResponse'
+  | 'onError';
+
+export interface MiddlewareRequest {
+  method: Method;
+  /**
+   * the host which the request is signed with
+   */
+  host: string;
+  /**
+   * default value: `http(s)://${host}`
+   */
+  baseURL: string;
+  path: string;
+  query: Record<string, any>;
+  headers: Headers;
+  body?: unknown;
+}
+
+export interface MiddlewareContext {
+  /**
+   * the name of the called method, eg: `putObject`.
+   * the nested requests of `uploadFile` etc. have the name of the outer method.
+   */
+  operation: string;
+  bucket?: string;
+  key?: string;
+  clientOptions: Readonly<TOSConstructorOptions>;
+  request: MiddlewareRequest;
+  /**
+   * exists in `afterResponse` stage, replace it to change the result of the method.
+   * set it in `onError` stage to recover from the error.
+   */
+  response?: TosResponse<unknown>;
+  /**
+   * exists in `onError` stage, replace it to throw another error.
+   */
+  error?: unknown;
+}
+
+export type Middleware = (context: MiddlewareContext) => void | Promise<void>;
+
+/**
+ * the middlewares of the same stage run in the order of `high`, `normal` and `low`,
+ * and in the added order if their priorities are same.
+ */
+export type MiddlewarePriority = 'high' | 'normal' | 'low';
+
+export interface MiddlewareOptions {
+  /**
+   * used to remove the middleware
+   */
+  name?: string;
+  /**
+   * default value: normal
+   */
+  priority?: MiddlewarePriority;
+}
+
+interface MiddlewareEntry extends MiddlewareOptions {
+  stage: MiddlewareStage;
+  middleware: Middleware;
+}
+
+const PRIORITY_ORDER: Record<MiddlewarePriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2,
+};
+
+export class MiddlewareStack {
+  private entries: MiddlewareEntry[] = [];
+
+  use(
+    stage: MiddlewareStage,
+    middleware: Middleware,
+    options: MiddlewareOptions = {}
+  ) {
+    this.entries.push({ ...options, stage, middleware });
+    return this;
+  }
+
+  /**
+   * remove the middlewares by the name or the function
+   */
+  remove(nameOrMiddleware: string | Middleware) {
+    this.entries = this.entries.filter(
+      (it) => it.name !== nameOrMiddleware && it.middleware !== nameOrMiddleware
+    );
+    return this;
+  }
+
+  async run(stage: MiddlewareStage, context: MiddlewareContext) {
+    const entries = this.entries
+      .filter((it) => it.stage === stage)
+      .map((it, index) => ({ it, index }))
+      .sort(
+        (a, b) =>
+          PRIORITY_ORDER[a.it.priority || 'normal'] -
+            PRIORITY_ORDER[b.it.priority || 'normal'] || a.index - b.index
+      );
+
+    for (const { it } of entries) {
+      await it.middleware(context);
+    }
+  }
+}
+
+/**
+ * encode the non-ASCII characters of headers, it runs after the other `beforeSign` middlewares
+ */
+export const encodeHeadersMiddleware: Middleware = (context) => {
+  context.request.headers = encodeHeadersValue(context.request.headers);
+};
+
+/**
+ * send the request to the middleware server of `./proxy`,
+ * it runs before the other `afterSign` middlewares.
+ */
+export const proxyMiddleware: Middleware = (context) => {
+  const { proxy, proxyHost } = context.clientOptions;
+  const normalizedProxy = normalizeProxy(proxy);
+  if (!normalizedProxy?.url || proxyHost) {
+    return;
+  }
+
+  const { request } = context;
+  request.baseURL = normalizedProxy.url;
+  if (normalizedProxy.needProxyParams) {
+    request.query['x-proxy-tos-host'] = request.host;
+    delete request.headers['host'];
+  }
+};
+
+export function makeDefaultMiddlewareStack() {
+  return new MiddlewareStack()
+    .use('beforeSign', encodeHeadersMiddleware, {
+      name: 'encodeHeaders',
+      priority: 'low',
+    })
+    .use('afterSign', proxyMiddleware, {
+      name: 'proxy',
+      priority: 'high',
+    });
+}
@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+import { Transform } from 'stream';
+import { ChunkSigner } from '../signatureV4';
+import { pipeStreamWithErrorHandle } from '../utils';
+
+export const DEFAULT_SIGNING_CHUNK_SIZE = 64 * 1024;
+
+const SIGNATURE_LENGTH = 64;
+
+function encodeChunk(data: Buffer, signer: ChunkSigner) {
+  const hash = crypto.createHash('sha256').update(data).digest('hex');
+  const header = `${data.length.toString(16)};chunk-signature=${signer.sign(
+    hash
+  )}\r\n`;
+  return Buffer.concat([Buffer.from(header), data, Buffer.from('\r\n')]);
+}
+
+function getEncodedChunkLength(size: number) {
+  // `${hex size};chunk-signature=${signature}\r\n${data}\r\n`
+  return (
+    size.toString(16).length +
+    ';chunk-signature='.length +
+    SIGNATURE_LENGTH +
+    size +
+    4
+  );
+}
+
+/**
+ * the length of the encoded payload, it's the value of `content-length` header
+ */
+export function getChunkedContentLength(
+  size: number,
+  chunkSize: number = DEFAULT_SIGNING_CHUNK_SIZE
+) {
+  const fullChunks = Math.floor(size / chunkSize);
+  const rest = size % chunkSize;
+  return (
+    fullChunks * getEncodedChunkLength(chunkSize) +
+    (rest ? getEncodedChunkLength(rest) : 0) +
+    // the final empty chunk
+    getEncodedChunkLength(0)
+  );
+}
+
+/**
+ * split the stream to chunks and sign them in sequence.
+ * `getSigner` is called when the first chunk is sent, so the retried request uses its new signer.
+ */
+export function createChunkSigningStream(
+  stream: NodeJS.ReadableStream,
+  getSigner: () => ChunkSigner | undefined,
+  chunkSize: number = DEFAULT_SIGNING_CHUNK_SIZE
+) {
+  let signer: ChunkSigner | undefined;
+  let buffered: Buffer[] = [];
+  let bufferedSize = 0;
+
+  const ensureSigner = () => {
+    signer = signer || getSigner();
+    if (!signer) {
+      throw new Error('the request is not signed for chunked payload');
+    }
+    return signer;
+  };
+
+  const transformer = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      try {
+        const currentSigner = ensureSigner();
+        buffered.push(chunk);
+        bufferedSize += chunk.length;
+        if (bufferedSize < chunkSize) {
+          callback();
+          return;
+        }
+
+        let data = Buffer.concat(buffered);
+        while (data.length >= chunkSize) {
+          this.push(encodeChunk(data.slice(0, chunkSize), currentSigner));
+          data = data.slice(chunkSize);
+        }
+        buffered = [data];
+        bufferedSize = data.length;
+        callback();
+      } catch (err: any) {
+        callback(err);
+      }
+    },
+    flush(callback) {
+      try {
+        const currentSigner = ensureSigner();
+        if (bufferedSize) {
+          this.push(encodeChunk(Buffer.concat(buffered), currentSigner));
+        }
+        this.push(encodeChunk(Buffer.alloc(0), currentSigner));
+        callback();
+      } catch (err: any) {
+        callback(err);
+      }
+    },
+  });
+
+  return pipeStreamWithErrorHandle(
+    stream,
+    transformer,
+    'createChunkSigningStream'
+  );
+}
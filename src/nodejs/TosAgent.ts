@@ -1,6 +1,10 @@
 import http from 'http';
 import https from 'https';
 import { Socket } from 'net';
+import tls from 'tls';
+import { connectProxy, createTunnelConnection, ProxyConfig } from './proxy';
+import { DnsResolver } from './dnsCache';
+import { ConnectionMonitor } from './connectionMonitor';
 
 // add missing type
 declare module 'http' {
@@ -11,7 +15,9 @@ declare module 'http' {
   }
 
   interface Agent {
-    createConnection(...opts: unknown[]): Socket;
+    createConnection(...opts: any[]): Socket | undefined;
+    // it's called when a keep-alive socket is assigned to a request
+    reuseSocket(socket: Socket, req: http.ClientRequest): void;
   }
 }
 
@@ -22,6 +28,16 @@ interface TosAgentOptions extends http.AgentOptions {
     maxConnections: number;
     idleConnectionTime: number;
     isHttps: boolean;
+    /**
+     * https: the requests are sent in the tunnel made by `CONNECT` method.
+     * http: axios sends the requests to the proxy server, the agent connects to it.
+     */
+    proxyServer?: ProxyConfig;
+    /**
+     * resolve the hosts with `lookup` and `dnsCache` options
+     */
+    dnsResolver?: DnsResolver;
+    connectionMonitor?: ConnectionMonitor;
   };
 }
 
@@ -34,14 +50,58 @@ export function TosAgent(opts: TosAgentOptions) {
     keepAlive: true,
     rejectUnauthorized: tosOpts.enableVerifySSL,
     timeout: tosOpts.idleConnectionTime,
+    // passed to `net.connect` and `tls.connect`
+    ...(tosOpts.dnsResolver ? { lookup: tosOpts.dnsResolver.lookup } : {}),
   });
 
   agent.maxFreeSockets = Infinity;
   agent.maxTotalSockets = tosOpts.maxConnections;
 
+  const { proxyServer: proxy, connectionMonitor: monitor } = tosOpts;
+  const getSocketEvent = (options: { host?: string; port?: number }) => ({
+    host: `${options.host || 'localhost'}:${
+      options.port || (tosOpts.isHttps ? 443 : 80)
+    }`,
+    isHttps: tosOpts.isHttps,
+  });
+
+  if (monitor) {
+    monitor.addAgent(agent);
+    const oriReuseSocket = agent.reuseSocket;
+    agent.reuseSocket = function (socket, req) {
+      monitor.onReuse(socket);
+      return oriReuseSocket.call(this, socket, req);
+    };
+  }
+
   const oriCreateConnection = agent.createConnection;
-  agent.createConnection = function (...args) {
-    const socket = oriCreateConnection.call(this, ...args);
+  agent.createConnection = function (options, callback) {
+    if (proxy && tosOpts.isHttps) {
+      createTunnelConnection(
+        {
+          proxy,
+          enableVerifySSL: tosOpts.enableVerifySSL,
+          lookup: tosOpts.dnsResolver?.lookup,
+          connectionTimeout: tosOpts.connectionTimeout,
+          targetOptions: options as tls.ConnectionOptions,
+        },
+        (err, socket) => {
+          if (err?.message === 'Connect timeout') {
+            monitor?.onConnectTimeout();
+          }
+          if (socket) {
+            monitor?.onCreate(socket, getSocketEvent(options));
+          }
+          callback(err, socket);
+        }
+      );
+      return undefined;
+    }
+
+    const socket =
+      proxy?.protocol === 'https'
+        ? connectProxy(proxy, tosOpts.enableVerifySSL, options.lookup)
+        : oriCreateConnection.call(this, options, callback)!;
     let isTimeout = false;
     let isConnected = false;
     let connectTimer: NodeJS.Timeout | null = null;
@@ -55,6 +115,7 @@ export function TosAgent(opts: TosAgentOptions) {
 
       connectTimer = setTimeout(() => {
         isTimeout = true;
+        monitor?.onConnectTimeout();
       }, tosOpts.connectionTimeout);
     });
 
@@ -68,6 +129,7 @@ export function TosAgent(opts: TosAgentOptions) {
         socket.destroy(new Error('Connect timeout'));
       }
     });
+    monitor?.onCreate(socket, getSocketEvent(options));
 
     return socket;
   };
@@ -0,0 +1,105 @@
+import http from 'http';
+import { Socket } from 'net';
+import { SocketEvent } from '../events';
+
+export interface HostConnectionStats {
+  /**
+   * the sockets which are sending requests
+   */
+  active: number;
+  /**
+   * the keep-alive sockets which wait for the next request
+   */
+  idle: number;
+  /**
+   * the requests which wait for a socket because of `maxConnections`
+   */
+  queued: number;
+}
+
+export interface ConnectionStats {
+  /**
+   * the key is `host:port`
+   */
+  hosts: Record<string, HostConnectionStats>;
+  /**
+   * the followings are counted since the client is created
+   */
+  createdConnections: number;
+  reusedConnections: number;
+  closedConnections: number;
+  connectTimeouts: number;
+}
+
+type SocketEventType = 'socketCreate' | 'socketReuse' | 'socketClose';
+
+// the agent name is `host:port:localAddress...`
+function getHostOfAgentName(name: string) {
+  return name.split(':').slice(0, 2).join(':');
+}
+
+/**
+ * collect the state of the agents' connection pools and the socket events
+ */
+export class ConnectionMonitor {
+  private agents = new Set<http.Agent>();
+  private socketEvents = new WeakMap<Socket, SocketEvent>();
+  private counters = {
+    createdConnections: 0,
+    reusedConnections: 0,
+    closedConnections: 0,
+    connectTimeouts: 0,
+  };
+
+  constructor(
+    private onEvent: (type: SocketEventType, event: SocketEvent) => void
+  ) {}
+
+  addAgent(agent: http.Agent) {
+    this.agents.add(agent);
+  }
+
+  onCreate(socket: Socket, event: SocketEvent) {
+    ++this.counters.createdConnections;
+    this.socketEvents.set(socket, event);
+    this.onEvent('socketCreate', event);
+    socket.once('close', () => {
+      ++this.counters.closedConnections;
+      this.onEvent('socketClose', event);
+    });
+  }
+
+  onReuse(socket: Socket) {
+    const event = this.socketEvents.get(socket);
+    if (!event) {
+      return;
+    }
+    ++this.counters.reusedConnections;
+    this.onEvent('socketReuse', event);
+  }
+
+  onConnectTimeout() {
+    ++this.counters.connectTimeouts;
+  }
+
+  getStats(): ConnectionStats {
+    const hosts: Record<string, HostConnectionStats> = {};
+    const add = (
+      group: NodeJS.ReadOnlyDict<unknown[]>,
+      key: keyof HostConnectionStats
+    ) => {
+      Object.keys(group).forEach((name) => {
+        const host = getHostOfAgentName(name);
+        hosts[host] = hosts[host] || { active: 0, idle: 0, queued: 0 };
+        hosts[host][key] += group[name]?.length || 0;
+      });
+    };
+
+    this.agents.forEach((agent) => {
+      add(agent.sockets, 'active');
+      add(agent.freeSockets, 'idle');
+      add(agent.requests, 'queued');
+    });
+    return { hosts, ...this.counters };
+  }
+}
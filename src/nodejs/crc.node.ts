@@ -1,4 +1,4 @@
-import TosClientError from '../TosClientError';
+import TosClientError, { TosClientErrorCode } from '../TosClientError';
 import { crc64 } from 'tos-crc64-js';
 export { combineCrc64 } from 'tos-crc64-js';
 
@@ -10,7 +10,10 @@ export class CRC {
   }
 
   async updateBlob(): Promise<string> {
-    throw new TosClientError('Not implemented in node.js environment.');
+    throw new TosClientError(
+      'Not implemented in node.js environment.',
+      TosClientErrorCode.NotSupported
+    );
   }
 
   update(value: Buffer): string {
@@ -1,4 +1,4 @@
-import TosClientError from '../TosClientError';
+import TosClientError, { TosClientErrorCode } from '../TosClientError';
 import { isBuffer } from '../utils';
 
 function makeTable() {
@@ -126,7 +126,8 @@ export class CRC {
   private checkFinal() {
     if (this.isFinal) {
       throw new TosClientError(
-        "TOS CRC don't call update() and final() after called final()"
+        "TOS CRC don't call update() and final() after called final()",
+        TosClientErrorCode.InvalidState
       );
     }
   }
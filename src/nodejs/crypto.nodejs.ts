@@ -16,7 +16,7 @@ export const hmacSha256 = function hmacSha256(
 };
 
 export const hashSha256 = function hashSha256(
-  message: string,
+  message: string | Buffer,
   decoding?: 'base64' | 'hex'
 ) {
   return digest(crypto.createHash('sha256').update(message), decoding);
@@ -42,3 +42,10 @@ export const stringify = function stringify(
 ) {
   return str.toString(decoding);
 };
+
+export const timingSafeEqual = function timingSafeEqual(a: string, b: string) {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  // `crypto.timingSafeEqual` throws if the lengths differ
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+};
@@ -0,0 +1,201 @@
+import dns from 'dns';
+import net from 'net';
+
+export interface LookupAddress {
+  address: string;
+  /**
+   * 4 or 6
+   */
+  family: number;
+}
+
+/**
+ * resolve the hostname by yourself, eg: pin the hosts of VPC endpoints.
+ * return undefined to resolve it by the system DNS.
+ */
+export type LookupHook = (
+  hostname: string
+) =>
+  | string
+  | LookupAddress[]
+  | undefined
+  | Promise<string | LookupAddress[] | undefined>;
+
+export interface DnsCacheOptions {
+  /**
+   * unit: ms
+   * default value: 60s
+   */
+  ttl?: number;
+
+  /**
+   * unit: ms
+   * cache the failed lookups for this time, 0 means not to cache them.
+   * default value: 1s
+   */
+  negativeTtl?: number;
+}
+
+interface CacheEntry {
+  expiredAt: number;
+  addresses?: LookupAddress[];
+  error?: Error;
+  // the index of the address for round-robin
+  next: number;
+}
+
+const MAX_CACHE_ENTRIES = 1000;
+
+type LookupCallback = (
+  err: NodeJS.ErrnoException | null,
+  address?: string | LookupAddress[],
+  family?: number
+) => void;
+
+function systemLookup(hostname: string, family: number) {
+  return new Promise<LookupAddress[]>((resolve, reject) => {
+    dns.lookup(hostname, { all: true, family }, (err, addresses) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+      resolve(addresses);
+    });
+  });
+}
+
+/**
+ * the `lookup` of sockets, it supports `LookupHook`, caching and round-robin across the addresses
+ */
+export class DnsResolver {
+  private cache = new Map<string, CacheEntry>();
+  private pending = new Map<string, Promise<CacheEntry>>();
+  private cacheOpts: Required<DnsCacheOptions> | null;
+
+  constructor(
+    private hook: LookupHook | undefined,
+    cacheOpts: DnsCacheOptions | boolean | undefined
+  ) {
+    this.cacheOpts = cacheOpts
+      ? {
+          ttl: 60_000,
+          negativeTtl: 1_000,
+          ...(cacheOpts === true ? {} : cacheOpts),
+        }
+      : null;
+  }
+
+  /**
+   * the `lookup` option of `net.connect`, `options.all` is supported.
+   * `LookupFunction` of @types/node doesn't declare `options.all`, so cast it.
+   */
+  lookup = ((
+    hostname: string,
+    options: dns.LookupOptions | number | undefined,
+    callback: LookupCallback
+  ) => {
+    const opts = typeof options === 'number' ? { family: options } : options;
+    const family = opts?.family === 4 || opts?.family === 6 ? opts.family : 0;
+
+    this.resolve(hostname, family).then(
+      (addresses) => {
+        if (opts?.all) {
+          callback(null, addresses);
+          return;
+        }
+        callback(null, addresses[0].address, addresses[0].family);
+      },
+      (err) => callback(err)
+    );
+  }) as unknown as net.LookupFunction;
+
+  /**
+   * the addresses are rotated if they are cached, so the first one changes every time
+   */
+  async resolve(hostname: string, family: number): Promise<LookupAddress[]> {
+    const ipFamily = net.isIP(hostname);
+    if (ipFamily) {
+      return [{ address: hostname, family: ipFamily }];
+    }
+    if (!this.cacheOpts) {
+      return this.resolveWithoutCache(hostname, family);
+    }
+
+    const key = `${hostname}|${family}`;
+    let entry = this.cache.get(key);
+    if (!entry || entry.expiredAt <= Date.now()) {
+      entry = await this.load(key, hostname, family);
+    }
+    if (entry.error) {
+      throw entry.error;
+    }
+
+    const addresses = entry.addresses!;
+    const start = entry.next++ % addresses.length;
+    return [...addresses.slice(start), ...addresses.slice(0, start)];
+  }
+
+  clear() {
+    this.cache.clear();
+  }
+
+  // concurrent lookups of the same host share one resolving
+  private load(key: string, hostname: string, family: number) {
+    let promise = this.pending.get(key);
+    if (!promise) {
+      const { ttl, negativeTtl } = this.cacheOpts!;
+      promise = this.resolveWithoutCache(hostname, family)
+        .then(
+          (addresses): CacheEntry => ({
+            addresses,
+            expiredAt: Date.now() + ttl,
+            next: 0,
+          }),
+          (error): CacheEntry => ({
+            error,
+            expiredAt: Date.now() + negativeTtl,
+            next: 0,
+          })
+        )
+        .then((entry) => {
+          this.pending.delete(key);
+          if (entry.addresses || negativeTtl > 0) {
+            this.set(key, entry);
+          }
+          return entry;
+        });
+      this.pending.set(key, promise);
+    }
+    return promise;
+  }
+
+  private set(key: string, entry: CacheEntry) {
+    this.cache.delete(key);
+    if (this.cache.size >= MAX_CACHE_ENTRIES) {
+      // delete the oldest one
+      const oldestKey = this.cache.keys().next().value;
+      this.cache.delete(oldestKey);
+    }
+    this.cache.set(key, entry);
+  }
+
+  private async resolveWithoutCache(hostname: string, family: number) {
+    const hookResult = await this.hook?.(hostname);
+    let addresses: LookupAddress[] =
+      typeof hookResult === 'string'
+        ? [{ address: hookResult, family: net.isIP(hookResult) }]
+        : hookResult || (await systemLookup(hostname, family));
+    if (family) {
+      addresses = addresses.filter((it) => it.family === family);
+    }
+
+    if (!addresses.length) {
+      const err: NodeJS.ErrnoException = new Error(
+        `getaddrinfo ENOTFOUND ${hostname}`
+      );
+      err.code = 'ENOTFOUND';
+      throw err;
+    }
+    return addresses;
+  }
+}
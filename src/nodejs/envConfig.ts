@@ -0,0 +1,192 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { TOSConstructorOptions } from '../methods/base';
+import { TosClientErrorCode, TosValidationError } from '../TosClientError';
+
+export interface FromEnvOptions extends Partial<TOSConstructorOptions> {
+  /**
+   * the profile in the config file
+   * default value: `TOS_PROFILE` environment variable or `default`
+   */
+  profile?: string;
+  /**
+   * the INI or JSON config file
+   * default value: `TOS_CONFIG_FILE` environment variable or `~/.tos/config`
+   */
+  configFile?: string;
+}
+
+type ConfigValueType = 'string' | 'number' | 'boolean';
+
+interface ConfigField {
+  option: keyof TOSConstructorOptions;
+  env: string;
+  // the key in the config file
+  key: string;
+  type: ConfigValueType;
+}
+
+const CONFIG_FIELDS: ConfigField[] = [
+  ['accessKeyId', 'TOS_ACCESS_KEY', 'access_key'],
+  ['accessKeySecret', 'TOS_SECRET_KEY', 'secret_key'],
+  ['stsToken', 'TOS_SECURITY_TOKEN', 'security_token'],
+  ['region', 'TOS_REGION', 'region'],
+  ['endpoint', 'TOS_ENDPOINT', 'endpoint'],
+  ['bucket', 'TOS_BUCKET', 'bucket'],
+  ['secure', 'TOS_SECURE', 'secure', 'boolean'],
+  ['requestTimeout', 'TOS_REQUEST_TIMEOUT', 'request_timeout', 'number'],
+  [
+    'connectionTimeout',
+    'TOS_CONNECTION_TIMEOUT',
+    'connection_timeout',
+    'number',
+  ],
+  ['maxRetryCount', 'TOS_MAX_RETRY_COUNT', 'max_retry_count', 'number'],
+  ['maxConnections', 'TOS_MAX_CONNECTIONS', 'max_connections', 'number'],
+  ['proxyHost', 'TOS_PROXY_HOST', 'proxy_host'],
+  ['proxyPort', 'TOS_PROXY_PORT', 'proxy_port', 'number'],
+].map(([option, env, key, type = 'string']) => ({
+  option: option as keyof TOSConstructorOptions,
+  env,
+  key,
+  type: type as ConfigValueType,
+}));
+
+function parseValue(value: string, type: ConfigValueType, source: string) {
+  if (type === 'number') {
+    const num = Number(value);
+    if (value.trim() === '' || Number.isNaN(num)) {
+      throw new TosValidationError(
+        `the value of \`${source}\` must be a number`,
+        TosClientErrorCode.InvalidParam
+      );
+    }
+    return num;
+  }
+  if (type === 'boolean') {
+    if (!['true', 'false'].includes(value.toLowerCase())) {
+      throw new TosValidationError(
+        `the value of \`${source}\` must be true or false`,
+        TosClientErrorCode.InvalidParam
+      );
+    }
+    return value.toLowerCase() === 'true';
+  }
+  return value;
+}
+
+/**
+ * parse the sections of INI, `[profile dev]` is the same as `[dev]`
+ */
+export function parseIni(content: string) {
+  const sections: Record<string, Record<string, string>> = {};
+  let section: Record<string, string> | null = null;
+  content.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) {
+      return;
+    }
+
+    const sectionMatched = line.match(/^\[\s*(?:profile\s+)?([^\]]+?)\s*\]$/);
+    if (sectionMatched) {
+      section = sections[sectionMatched[1]] = {};
+      return;
+    }
+
+    const index = line.indexOf('=');
+    if (index === -1 || !section) {
+      return;
+    }
+    section[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+  });
+  return sections;
+}
+
+function readProfile(
+  configFile: string,
+  profile: string,
+  isRequired: boolean
+): Record<string, unknown> {
+  let content: string;
+  try {
+    content = fs.readFileSync(configFile, 'utf8');
+  } catch (err: any) {
+    if (err?.code === 'ENOENT' && !isRequired) {
+      return {};
+    }
+    throw new TosValidationError(
+      `failed to read the config file \`${configFile}\`: ${err?.message}`,
+      TosClientErrorCode.InvalidProfile
+    );
+  }
+
+  let profiles: Record<string, Record<string, unknown>>;
+  if (configFile.endsWith('.json') || content.trim().startsWith('{')) {
+    try {
+      profiles = JSON.parse(content);
+    } catch (err: any) {
+      throw new TosValidationError(
+        `the config file \`${configFile}\` isn't a valid JSON: ${err?.message}`,
+        TosClientErrorCode.InvalidProfile
+      );
+    }
+  } else {
+    profiles = parseIni(content);
+  }
+
+  const values = profiles[profile];
+  if (!values || typeof values !== 'object') {
+    if (!isRequired) {
+      return {};
+    }
+    throw new TosValidationError(
+      `the profile \`${profile}\` isn't found in \`${configFile}\``,
+      TosClientErrorCode.InvalidProfile
+    );
+  }
+  return values;
+}
+
+/**
+ * the priority: `options` > environment variables > the profile of the config file
+ */
+export function loadOptionsFromEnv(
+  options: FromEnvOptions = {},
+  env: NodeJS.ProcessEnv = process.env
+): TOSConstructorOptions {
+  const { profile: _profile, configFile: _configFile, ...overrides } = options;
+  const profile = _profile || env.TOS_PROFILE || 'default';
+  const configFile =
+    _configFile ||
+    env.TOS_CONFIG_FILE ||
+    path.join(os.homedir(), '.tos', 'config');
+  // the default profile in the default file is optional
+  const isRequired =
+    !!(_configFile || env.TOS_CONFIG_FILE) || profile !== 'default';
+  const profileValues = readProfile(configFile, profile, isRequired);
+
+  const loaded: Record<string, unknown> = {};
+  CONFIG_FIELDS.forEach((field) => {
+    const envValue = env[field.env];
+    if (envValue != null && envValue !== '') {
+      loaded[field.option] = parseValue(envValue, field.type, field.env);
+      return;
+    }
+
+    const fileValue = profileValues[field.key];
+    if (fileValue != null && fileValue !== '') {
+      loaded[field.option] =
+        typeof fileValue === 'string'
+          ? parseValue(fileValue, field.type, `${profile}.${field.key}`)
+          : fileValue;
+    }
+  });
+
+  Object.entries(overrides).forEach(([key, value]) => {
+    if (value !== undefined) {
+      loaded[key] = value;
+    }
+  });
+  return loaded as unknown as TOSConstructorOptions;
+}
@@ -1,6 +1,7 @@
 import { Readable, Transform } from 'stream';
 import { makeStreamErrorHandler, pipeStreamWithErrorHandle } from '../utils';
 import { IRateLimiter } from '../interface';
+import { wait } from '../retryStrategy';
 
 export interface DefaultRateLimiter {
   rate: number;
@@ -63,7 +64,10 @@ export function createDefaultRateLimiter(
   };
 }
 
-function createRateLimiterTransform(rateLimiter: IRateLimiter) {
+function createRateLimiterTransform(
+  rateLimiter: IRateLimiter,
+  abortSignal?: AbortSignal
+) {
   return new Transform({
     async transform(chunk, _encoding, callback) {
       try {
@@ -73,7 +77,7 @@ function createRateLimiterTransform(rateLimiter: IRateLimiter) {
           const { ok, timeToWait } = await rateLimiter.Acquire(chunkSize);
 
           if (!ok) {
-            await wait(timeToWait);
+            await wait(timeToWait, abortSignal);
           }
           finished = ok;
         }
@@ -89,9 +93,10 @@ function createRateLimiterTransform(rateLimiter: IRateLimiter) {
 
 export function createRateLimiterStream(
   stream: NodeJS.ReadableStream | Readable,
-  rateLimiter: IRateLimiter
+  rateLimiter: IRateLimiter,
+  abortSignal?: AbortSignal
 ) {
-  const pipeRateLimit = createRateLimiterTransform(rateLimiter);
+  const pipeRateLimit = createRateLimiterTransform(rateLimiter, abortSignal);
 
   return pipeStreamWithErrorHandle(
     stream,
@@ -99,9 +104,3 @@ export function createRateLimiterStream(
     'createRateLimiterStream'
   );
 }
-
-export function wait(milliseconds: number) {
-  return new Promise((r) => {
-    setTimeout(() => r(''), milliseconds);
-  });
-}
@@ -0,0 +1,342 @@
+import { TosCredentials } from './credentials';
+import { ISigV4Credentials, SignersV4, SIG_QUERY } from './signatureV4';
+import { TosClientErrorCode, TosValidationError } from './TosClientError';
+import { parse, stringify, timingSafeEqual } from './universal/crypto';
+
+export interface PreSignedUrlCondition {
+  key: 'key' | 'bucket';
+  value: string;
+  operator: 'eq' | 'starts-with';
+}
+
+export interface ParsedPreSignedUrl {
+  /**
+   * the signed host, it's the TOS host if the url is generated with `proxy`
+   */
+  host: string;
+  /**
+   * it's undefined if the bucket can't be inferred, eg: custom domain
+   */
+  bucket?: string;
+  key?: string;
+  algorithm: string;
+  accessKeyId: string;
+  /**
+   * eg: 20240101/cn-beijing/tos/request
+   */
+  credentialScope: string;
+  region: string;
+  signedAt: Date;
+  /**
+   * unit: second
+   */
+  expires: number;
+  expiresAt: Date;
+  signedHeaders: string[];
+  securityToken?: string;
+  signature: string;
+  /**
+   * the url is generated by `preSignedPolicyURL` if it exists
+   */
+  policy?: {
+    conditions: PreSignedUrlCondition[];
+  };
+  /**
+   * the query which isn't used for signing, eg: versionId
+   */
+  query: Record<string, string>;
+}
+
+export interface VerifyPreSignedUrlOptions {
+  /**
+   * the method is not included in the url, all common methods are tried by default
+   */
+  method?: string;
+  /**
+   * the signed headers except `host`, they must be sent with the url
+   */
+  headers?: Record<string, string>;
+  /**
+   * default value: now
+   */
+  now?: Date;
+  /**
+   * unit: ms
+   * the url whose `X-Tos-Date` is later than `now` by more than it is invalid.
+   * default value: 900000
+   */
+  maxClockSkew?: number;
+}
+
+export type VerifyPreSignedUrlFailedReason =
+  | 'Expired'
+  | 'SignedInFuture'
+  | 'AccessKeyMismatch'
+  | 'MissingSignedHeaders'
+  | 'PolicyMismatch'
+  | 'SignatureMismatch';
+
+export interface VerifyPreSignedUrlOutput {
+  valid: boolean;
+  reason?: VerifyPreSignedUrlFailedReason;
+  /**
+   * the method which the signature matches, the policy signature doesn't sign the method
+   */
+  method?: string;
+  parsed: ParsedPreSignedUrl;
+}
+
+const PROXY_HOST_QUERY = 'x-proxy-tos-host';
+const SIGNING_QUERY_KEYS = Object.values(SIG_QUERY);
+const TRIED_METHODS = ['GET', 'PUT', 'HEAD', 'POST', 'DELETE'];
+
+// 20240101T000000Z
+function parseTosDate(value: string) {
+  const m = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (!m) {
+    return null;
+  }
+  const [, y, mon, d, hh, mm, ss] = m;
+  return new Date(Date.UTC(+y, +mon - 1, +d, +hh, +mm, +ss));
+}
+
+function invalidUrl(reason: string): never {
+  throw new TosValidationError(
+    `the pre-signed url is invalid, ${reason}`,
+    TosClientErrorCode.InvalidParam
+  );
+}
+
+function parsePolicy(value: string): PreSignedUrlCondition[] {
+  let policy: any;
+  try {
+    policy = JSON.parse(stringify(parse(value, 'base64'), 'utf-8'));
+  } catch (err) {
+    invalidUrl(`\`${SIG_QUERY.v4_policy}\` isn't base64 encoded JSON`);
+  }
+  if (!Array.isArray(policy?.conditions)) {
+    invalidUrl(`\`${SIG_QUERY.v4_policy}\` doesn't have conditions`);
+  }
+  return policy.conditions.map((it: string[]) => ({
+    operator: it[0],
+    key: `${it[1]}`.replace(/^\$/, ''),
+    value: it[2],
+  }));
+}
+
+function inferBucket(
+  hostname: string,
+  region: string,
+  conditions?: PreSignedUrlCondition[]
+) {
+  const bucketCondition = conditions?.find(
+    (it) => it.key === 'bucket' && it.operator === 'eq'
+  );
+  if (bucketCondition) {
+    return bucketCondition.value;
+  }
+
+  // the region of the scope is the endpoint for pre-signed urls
+  if (hostname.endsWith(`.${region}`)) {
+    return hostname.slice(0, -region.length - 1);
+  }
+  return hostname.match(/^([^.]+)\.tos-[^.]+\./)?.[1];
+}
+
+/**
+ * parse the url generated by `getPreSignedUrl`, `preSignedPolicyURL` or `signRequest`
+ */
+export function parsePreSignedUrl(url: string): ParsedPreSignedUrl {
+  let urlObj: URL;
+  try {
+    urlObj = new URL(url);
+  } catch (err) {
+    invalidUrl(`\`${url}\` isn't a url`);
+  }
+
+  const signingQuery: Record<string, string> = {};
+  const query: Record<string, string> = {};
+  urlObj.searchParams.forEach((value, key) => {
+    if (SIGNING_QUERY_KEYS.includes(key)) {
+      signingQuery[key] = value;
+    } else if (key !== PROXY_HOST_QUERY) {
+      query[key] = value;
+    }
+  });
+
+  const requiredKeys = [
+    SIG_QUERY.v4_algorithm,
+    SIG_QUERY.v4_credential,
+    SIG_QUERY.v4_date,
+    SIG_QUERY.v4_expires,
+    SIG_QUERY.v4_signature,
+  ];
+  requiredKeys.forEach((key) => {
+    if (!signingQuery[key]) {
+      invalidUrl(`it lacks \`${key}\` query`);
+    }
+  });
+
+  const credentialParts = signingQuery[SIG_QUERY.v4_credential].split('/');
+  if (credentialParts.length < 5) {
+    invalidUrl(`\`${SIG_QUERY.v4_credential}\` is malformed`);
+  }
+  const scopeParts = credentialParts.slice(-4);
+  const signedAt = parseTosDate(signingQuery[SIG_QUERY.v4_date]);
+  if (!signedAt) {
+    invalidUrl(`\`${SIG_QUERY.v4_date}\` is malformed`);
+  }
+  const expires = +signingQuery[SIG_QUERY.v4_expires];
+  if (!(expires >= 0)) {
+    invalidUrl(`\`${SIG_QUERY.v4_expires}\` is malformed`);
+  }
+
+  const policyValue = signingQuery[SIG_QUERY.v4_policy];
+  const conditions = policyValue ? parsePolicy(policyValue) : undefined;
+  const host = urlObj.searchParams.get(PROXY_HOST_QUERY) || urlObj.host;
+  const region = scopeParts[1];
+  const key = decodeURIComponent(urlObj.pathname.slice(1));
+
+  return {
+    host,
+    bucket: inferBucket(host.replace(/:\d+$/, ''), region, conditions),
+    key: key || undefined,
+    algorithm: signingQuery[SIG_QUERY.v4_algorithm],
+    accessKeyId: credentialParts.slice(0, -4).join('/'),
+    credentialScope: scopeParts.join('/'),
+    region,
+    signedAt,
+    expires,
+    expiresAt: new Date(signedAt.valueOf() + expires * 1000),
+    signedHeaders: signingQuery[SIG_QUERY.v4_signedHeaders]
+      ? signingQuery[SIG_QUERY.v4_signedHeaders].split(';')
+      : [],
+    securityToken: signingQuery[SIG_QUERY.v4_security_token],
+    signature: signingQuery[SIG_QUERY.v4_signature],
+    policy: conditions ? { conditions } : undefined,
+    query,
+  };
+}
+
+// the clocks of the signer and the verifier may be skewed
+const DEFAULT_MAX_CLOCK_SKEW = 15 * 60 * 1000;
+
+function matchConditions(parsed: ParsedPreSignedUrl) {
+  const conditions = parsed.policy?.conditions || [];
+  const match = (it: PreSignedUrlCondition, value = '') =>
+    it.operator === 'eq' ? value === it.value : value.startsWith(it.value);
+
+  const bucketConditions = conditions.filter((it) => it.key === 'bucket');
+  if (!bucketConditions.every((it) => match(it, parsed.bucket))) {
+    return false;
+  }
+  // list requests don't have key
+  const keyConditions = conditions.filter((it) => it.key === 'key');
+  if (parsed.key == null || !keyConditions.length) {
+    return true;
+  }
+  return keyConditions.some((it) => match(it, parsed.key));
+}
+
+/**
+ * recompute the signature of a pre-signed url locally, the request isn't sent
+ */
+export function verifyPreSignedUrl(
+  url: string,
+  credentials: Pick<TosCredentials, 'accessKeyId' | 'accessKeySecret'>,
+  options: VerifyPreSignedUrlOptions = {}
+): VerifyPreSignedUrlOutput {
+  const parsed = parsePreSignedUrl(url);
+  const fail = (reason: VerifyPreSignedUrlFailedReason) => ({
+    valid: false,
+    reason,
+    parsed,
+  });
+
+  const now = options.now || new Date();
+  if (now.valueOf() > parsed.expiresAt.valueOf()) {
+    return fail('Expired');
+  }
+  const maxClockSkew = options.maxClockSkew ?? DEFAULT_MAX_CLOCK_SKEW;
+  if (parsed.signedAt.valueOf() - now.valueOf() > maxClockSkew) {
+    return fail('SignedInFuture');
+  }
+  if (parsed.accessKeyId !== credentials.accessKeyId) {
+    return fail('AccessKeyMismatch');
+  }
+
+  const [, region, serviceName] = parsed.credentialScope.split('/');
+  const makeSigner = () =>
+    new SignersV4(
+      {
+        algorithm: parsed.algorithm,
+        region,
+        serviceName,
+        bucket: '',
+        securityToken: parsed.securityToken,
+        date: parsed.signedAt,
+      },
+      new ISigV4Credentials(
+        parsed.securityToken,
+        credentials.accessKeySecret,
+        credentials.accessKeyId
+      )
+    );
+
+  if (parsed.policy) {
+    if (!matchConditions(parsed)) {
+      return fail('PolicyMismatch');
+    }
+    const conditions = parsed.policy.conditions.map((it) => [
+      it.operator,
+      `$${it.key}`,
+      it.value,
+    ]);
+    const signedQuery = makeSigner().getSignaturePolicyQuery(
+      { policy: { conditions } },
+      parsed.expires
+    );
+    const urlPolicy = new URL(url).searchParams.get(SIG_QUERY.v4_policy);
+    return signedQuery[SIG_QUERY.v4_policy] === urlPolicy &&
+      timingSafeEqual(signedQuery[SIG_QUERY.v4_signature], parsed.signature)
+      ? { valid: true, parsed }
+      : fail('SignatureMismatch');
+  }
+
+  const contentSha256 = new URL(url).searchParams.get(SIG_QUERY.v4_content_sha);
+  const headers: Record<string, string> = {};
+  for (const key of parsed.signedHeaders) {
+    if (key === 'host') {
+      continue;
+    }
+    const value =
+      key === 'x-tos-content-sha256' ? contentSha256 : options.headers?.[key];
+    if (value == null) {
+      return fail('MissingSignedHeaders');
+    }
+    headers[key] = value;
+  }
+
+  const methods = options.method
+    ? [options.method.toUpperCase()]
+    : TRIED_METHODS;
+  const method = methods.find((method) => {
+    const signedQuery = makeSigner().getSignatureQuery(
+      {
+        method,
+        path: `/${encodeURIComponent(parsed.key || '')}`,
+        host: parsed.host,
+        headers: { ...headers },
+        query: parsed.query,
+        extraSignedHeaders: parsed.signedHeaders,
+      },
+      parsed.expires
+    );
+    return timingSafeEqual(
+      signedQuery[SIG_QUERY.v4_signature],
+      parsed.signature
+    );
+  });
+
+  return method ? { valid: true, method, parsed } : fail('SignatureMismatch');
+}
@@ -1,6 +1,7 @@
+import crypto from 'crypto';
+import http from 'http';
 import url from 'url';
 import { createProxyMiddleware } from 'http-proxy-middleware';
-import cloneDeep from 'lodash/cloneDeep';
 
 interface CreateTosProxyMiddlewareOpts {
   // destHost equals to /etc/hosts configuration
@@ -12,53 +13,730 @@ interface CreateTosProxyMiddlewareOpts {
    * 2. TOS server force https protocol
    */
   protocol?: 'http' | 'https';
+  /**
+   * the hosts which the requests can be forwarded to, it's checked before `destHost`.
+   * only the hosts of TOS, eg: `bucket.tos-cn-beijing.volces.com`, are allowed by default.
+   */
+  allowlist?: TosProxyAllowlist;
+  /**
+   * called after the host is allowed,
+   * return false or throw a `TosProxyError` to reject the request.
+   */
+  authorize?: (
+    req: http.IncomingMessage,
+    target: TosProxyTarget
+  ) => boolean | Promise<boolean>;
+  /**
+   * unit: B
+   * the chunked body is counted when it's forwarded, the request is aborted if it's too large.
+   */
+  maxBodySize?: number;
+  rateLimit?: TosProxyRateLimit;
+  /**
+   * sign the requests by the credentials of the server,
+   * use it with the clients whose `proxy.signByProxy` is true.
+   */
+  signing?: TosProxySigningOptions;
+}
+
+export interface TosProxySigningOptions {
+  region: string;
+  /**
+   * the function is called for each request, so the STS credentials can be refreshed
+   */
+  credentials:
+    | TosProxyCredentials
+    | (() => TosProxyCredentials | Promise<TosProxyCredentials>);
+  /**
+   * authenticate the user by the request, eg: the cookie, and return the policy of the user.
+   * the request is rejected if it returns null.
+   */
+  getPolicy: (
+    req: http.IncomingMessage,
+    target: TosProxyTarget
+  ) =>
+    | TosProxyPolicy
+    | null
+    | undefined
+    | Promise<TosProxyPolicy | null | undefined>;
+}
+
+export interface TosProxyCredentials {
+  accessKeyId: string;
+  accessKeySecret: string;
+  stsToken?: string;
 }
 
 /**
- *
- * @param context is context of http-proxy-middleware. refer: https://github.com/chimurai/http-proxy-middleware
- * @param {CreateTosProxyMiddlewareOpts} opts
+ * read: get or head the objects, eg: `getObjectV2`, `headObject`, `listParts`
+ * write: put or post the objects, eg: `putObject`, `uploadFile`, `copyObject`
+ * delete: delete the objects, eg: `deleteObject`, `abortMultipartUpload`, `deleteMultiObjects`
+ * list: list the objects, eg: `listObjectsType2`, `listObjectVersions`, `listMultipartUploads`
+ * bucket: the other requests of the bucket or the service, eg: `putBucketCORS`
  */
+export type TosProxyOperation = 'read' | 'write' | 'delete' | 'list' | 'bucket';
 
-export function createTosProxyMiddleware(
-  context: string,
-  opts?: CreateTosProxyMiddlewareOpts
+export interface TosProxyPolicy {
+  operations: TosProxyOperation[];
+  /**
+   * default value: all buckets
+   */
+  buckets?: (string | RegExp)[];
+  /**
+   * the keys must start with one of the prefixes, and the listing must have a `prefix` under them.
+   * it isn't checked for `bucket` operations.
+   * `deleteMultiObjects` is denied unless '' is one of the prefixes, because the keys are in the body.
+   * default value: all keys
+   */
+  prefixes?: string[];
+}
+
+export interface TosProxyAllowlist {
+  /**
+   * eg: ['cn-beijing']
+   */
+  regions?: string[];
+  /**
+   * the bucket name or the pattern of it
+   */
+  buckets?: (string | RegExp)[];
+  /**
+   * the hosts which aren't the hosts of TOS, eg: custom domains.
+   * set it to [/.*\/] to allow all hosts.
+   */
+  hosts?: (string | RegExp)[];
+}
+
+export interface TosProxyRateLimit {
+  /**
+   * the max count of the requests of a client in a window
+   */
+  max: number;
+  /**
+   * unit: ms
+   * default value: 60000
+   */
+  windowMs?: number;
+  /**
+   * default value: the remote address of the request
+   */
+  keyGenerator?: (req: http.IncomingMessage) => string;
+}
+
+export interface TosProxyTarget {
+  /**
+   * the value of `x-proxy-tos-host` query
+   */
+  host: string;
+  bucket?: string;
+  region?: string;
+}
+
+export enum TosProxyErrorCode {
+  MissingProxyHost = 'MissingProxyHost',
+  ProxyHostNotAllowed = 'ProxyHostNotAllowed',
+  ProxyUnauthorized = 'ProxyUnauthorized',
+  ProxyAccessDenied = 'ProxyAccessDenied',
+  ProxyBodyTooLarge = 'ProxyBodyTooLarge',
+  ProxyRateLimited = 'ProxyRateLimited',
+  ProxyInvalidQuery = 'ProxyInvalidQuery',
+  ProxyBadGateway = 'ProxyBadGateway',
+  ProxyNotFound = 'ProxyNotFound',
+}
+
+/**
+ * it's responded as `{ Code, Message }` JSON with `x-tos-request-id` like the errors of TOS server,
+ * so the SDK throws a `TosServerError` with the code.
+ */
+export class TosProxyError extends Error {
+  constructor(
+    public statusCode: number,
+    public code: TosProxyErrorCode | string,
+    message: string,
+    public headers: Record<string, string> = {}
+  ) {
+    super(message);
+    Object.setPrototypeOf(this, TosProxyError.prototype);
+  }
+}
+
+interface KoaContextLike {
+  req: http.IncomingMessage;
+  res: http.ServerResponse;
+  respond?: boolean;
+}
+
+type NextFunction = (err?: unknown) => void;
+
+const proxyParamKey = 'x-proxy-tos-host';
+// [bucket.]tos-[s3-]{region}.[i]volces.com, eg: bucket.tos-cn-beijing.volces.com
+const tosHostReg =
+  /^(?:([^.]+)\.)?tos-(?:s3-)?([a-z0-9-]+)\.i?(?:volces|bytepluses)\.com(?::\d+)?$/;
+const hostReg = /^[a-z0-9.-]+(?::\d+)?$/i;
+const listQueryKeys = [
+  'prefix',
+  'delimiter',
+  'marker',
+  'max-keys',
+  'encoding-type',
+  'list-type',
+  'continuation-token',
+  'start-after',
+  'fetch-owner',
+  'versions',
+  'key-marker',
+  'version-id-marker',
+  'uploads',
+  'upload-id-marker',
+];
+
+function matchPattern(value: string, pattern: string | RegExp) {
+  return typeof pattern === 'string' ? value === pattern : pattern.test(value);
+}
+
+function parseTarget(host: string): TosProxyTarget {
+  const matched = host.toLowerCase().match(tosHostReg);
+  if (!matched) {
+    return { host };
+  }
+  return { host, bucket: matched[1], region: matched[2] };
+}
+
+function isAllowed(target: TosProxyTarget, allowlist: TosProxyAllowlist) {
+  const { regions, buckets, hosts = [] } = allowlist;
+  if (hosts.some((it) => matchPattern(target.host, it))) {
+    return true;
+  }
+  if (!target.region) {
+    return false;
+  }
+  if (regions && !regions.includes(target.region)) {
+    return false;
+  }
+  if (buckets) {
+    return (
+      target.bucket != null &&
+      buckets.some((it) => matchPattern(target.bucket!, it))
+    );
+  }
+  return true;
+}
+
+function getObject(target: TosProxyTarget, path: string) {
+  const [first, ...rest] = path.slice(1).split('/');
+  // the path style request of TOS endpoint: /bucket/key
+  if (!target.bucket && target.region) {
+    return {
+      bucket: decodeURIComponent(first) || undefined,
+      key: decodeURIComponent(rest.join('/')),
+    };
+  }
+  return {
+    bucket: target.bucket,
+    key: decodeURIComponent(path.slice(1)),
+  };
+}
+
+function getOperation(
+  method: string,
+  key: string,
+  query: Record<string, unknown>
+): TosProxyOperation {
+  if (!key) {
+    // deleteMultiObjects: POST /?delete
+    if (method === 'POST' && 'delete' in query) {
+      return 'delete';
+    }
+    const isList =
+      method === 'GET' &&
+      Object.keys(query).every((it) => listQueryKeys.includes(it));
+    return isList ? 'list' : 'bucket';
+  }
+  if (method === 'GET' || method === 'HEAD') {
+    return 'read';
+  }
+  return method === 'DELETE' ? 'delete' : 'write';
+}
+
+function checkPolicy(
+  policy: TosProxyPolicy,
+  operation: TosProxyOperation,
+  bucket: string | undefined,
+  key: string
 ) {
-  const proxyParamKey = 'x-proxy-tos-host';
-  return createProxyMiddleware(context, {
+  const { buckets, prefixes } = policy;
+  const isAllowed =
+    policy.operations.includes(operation) &&
+    (!buckets ||
+      (bucket != null && buckets.some((it) => matchPattern(bucket, it)))) &&
+    (!prefixes ||
+      operation === 'bucket' ||
+      prefixes.some((it) => key.startsWith(it)));
+  if (!isAllowed) {
+    throw new TosProxyError(
+      403,
+      TosProxyErrorCode.ProxyAccessDenied,
+      `the policy doesn't allow \`${operation}\` on \`${bucket ?? ''}/${key}\``
+    );
+  }
+}
+
+// the policy is checked by the same query as the signature, so the repeated keys are rejected
+function parseQuery(search: string) {
+  const query: Record<string, string> = {};
+  new URLSearchParams(search).forEach((value, key) => {
+    if (key in query) {
+      throw new TosProxyError(
+        400,
+        TosProxyErrorCode.ProxyInvalidQuery,
+        `the query \`${key}\` is repeated`
+      );
+    }
+    query[key] = value;
+  });
+  return query;
+}
+
+// eg: /bucket/key?versionId=1
+function parseCopySource(value: string) {
+  const [path] = value.split('?');
+  const [bucket, ...rest] = decodeURIComponent(path)
+    .replace(/^\//, '')
+    .split('/');
+  return { bucket, key: rest.join('/') };
+}
+
+function createRateLimiter(opts: TosProxyRateLimit) {
+  const { max, windowMs = 60000 } = opts;
+  const keyGenerator =
+    opts.keyGenerator ??
+    ((req: http.IncomingMessage) => req.socket.remoteAddress || '');
+  let counts = new Map<string, number>();
+  let windowStart = Date.now();
+
+  // return the seconds to wait if the request is limited
+  return (req: http.IncomingMessage) => {
+    const now = Date.now();
+    if (now - windowStart >= windowMs) {
+      counts = new Map();
+      windowStart = now;
+    }
+    const key = keyGenerator(req);
+    const count = (counts.get(key) ?? 0) + 1;
+    counts.set(key, count);
+    return count > max ? Math.ceil((windowStart + windowMs - now) / 1000) : 0;
+  };
+}
+
+function sendError(res: http.ServerResponse, err: TosProxyError) {
+  if (res.headersSent) {
+    if (!res.writableEnded) {
+      res.destroy();
+    }
+    return;
+  }
+  const requestId = `proxy-${crypto.randomBytes(8).toString('hex')}`;
+  res.statusCode = err.statusCode;
+  Object.keys(err.headers).forEach((key) => {
+    res.setHeader(key, err.headers[key]);
+  });
+  res.setHeader('content-type', 'application/json');
+  res.setHeader('x-tos-request-id', requestId);
+  res.end(
+    JSON.stringify({
+      Code: err.code,
+      Message: err.message,
+      RequestId: requestId,
+    })
+  );
+}
+
+function getRequestUrl(req: http.IncomingMessage) {
+  // express changes `req.url` when the middleware is mounted on a path
+  return url.parse((req as any).originalUrl || req.url || '/', true);
+}
+
+function getRequestProtocol(req: http.IncomingMessage) {
+  return (
+    (req as any).protocol ?? ((req.socket as any).encrypted ? 'https' : 'http')
+  );
+}
+
+function hmacSha256(key: string | Buffer, data: string) {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+// ! * ' ( ) aren't encoded by encodeURIComponent, the same as `SignersV4`
+function encodeReservedChars(str: string) {
+  return str.replace(
+    /[!*'()]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+function getDateTime(date: Date) {
+  return date.toISOString().replace(/\.\d+/, '').replace(/[-:]/g, '');
+}
+
+/**
+ * sign the headers by TOS4-HMAC-SHA256 like `signRequest` of the SDK,
+ * the proxy doesn't import the SDK so that it's built alone.
+ */
+function signHeaders(input: {
+  method: string;
+  host: string;
+  pathname: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  credentials: TosProxyCredentials;
+  region: string;
+}) {
+  const { credentials, region, pathname, query } = input;
+  const datetime = getDateTime(new Date());
+  const scope = [datetime.slice(0, 8), region, 'tos', 'request'].join('/');
+  const headers: Record<string, string> = {
+    ...input.headers,
+    host: input.host,
+    'x-tos-date': datetime,
+    'x-tos-content-sha256':
+      input.headers['x-tos-content-sha256'] || 'UNSIGNED-PAYLOAD',
+  };
+  if (credentials.stsToken) {
+    headers['x-tos-security-token'] = credentials.stsToken;
+  }
+
+  const canonicalQuery = Object.keys(query)
+    .sort()
+    .map(
+      (key) => `${encodeURIComponent(key)}=${encodeURIComponent(query[key])}`
+    )
+    .join('&');
+  const canonicalPath = `/${encodeURIComponent(
+    decodeURIComponent(pathname.slice(1))
+  ).replace(/%2F/g, '/')}`;
+  const signedKeys = Object.keys(headers)
+    .filter((key) => key === 'host' || key.startsWith('x-tos-'))
+    .sort();
+  const canonicalHeaders = signedKeys
+    .map((key) => `${key}:${headers[key].replace(/\s+/g, ' ').trim()}`)
+    .join('\n');
+  const canonicalRequest = [
+    input.method,
+    encodeReservedChars(canonicalPath),
+    encodeReservedChars(canonicalQuery),
+    `${canonicalHeaders}\n`,
+    signedKeys.join(';'),
+    headers['x-tos-content-sha256'],
+  ].join('\n');
+  const stringToSign = [
+    'TOS4-HMAC-SHA256',
+    datetime,
+    scope,
+    crypto.createHash('sha256').update(canonicalRequest).digest('hex'),
+  ].join('\n');
+
+  const signingKey = ['tos', 'request'].reduce(
+    (key, it) => hmacSha256(key, it),
+    hmacSha256(
+      hmacSha256(credentials.accessKeySecret, datetime.slice(0, 8)),
+      region
+    )
+  );
+  const signature = crypto
+    .createHmac('sha256', signingKey)
+    .update(stringToSign)
+    .digest('hex');
+  headers.authorization = `TOS4-HMAC-SHA256 Credential=${
+    credentials.accessKeyId
+  }/${scope}, SignedHeaders=${signedKeys.join(';')}, Signature=${signature}`;
+  return headers;
+}
+
+function createTosProxy(context: string, opts: CreateTosProxyMiddlewareOpts) {
+  const rateLimiter = opts.rateLimit && createRateLimiter(opts.rateLimit);
+  const allowlist = opts.allowlist ?? {};
+  const { maxBodySize, signing } = opts;
+  // the signed headers are set to the forwarded request
+  const signedHeadersMap = new WeakMap<
+    http.IncomingMessage,
+    Record<string, string>
+  >();
+  // the host which the request is forwarded to, it's signed as well
+  const destHostMap = new WeakMap<http.IncomingMessage, string>();
+  const getDestHost = (originHost: string) => {
+    if (!opts.destHost) {
+      return originHost;
+    }
+    return typeof opts.destHost === 'function'
+      ? opts.destHost(originHost)
+      : opts.destHost;
+  };
+  const makeBodyTooLargeError = () =>
+    new TosProxyError(
+      413,
+      TosProxyErrorCode.ProxyBodyTooLarge,
+      `the body is larger than ${maxBodySize} bytes`
+    );
+
+  const proxy = createProxyMiddleware(() => true, {
     secure: false,
     /**
      * 这里不开可能会导致 https 转发建联失败
      */
     changeOrigin: true,
-    pathRewrite: (_path, req) => {
-      const path = req.path;
-      const query = cloneDeep(req.query) as any;
-      delete query[proxyParamKey];
-
-      const newPath = url.format({
-        pathname: path.replace(context, ''),
-        query,
+    pathRewrite: (_path, req) => rewritePath(req),
+    router: (req) => {
+      const realProtocol = opts.protocol ?? getRequestProtocol(req);
+      const destHost =
+        destHostMap.get(req) ??
+        getDestHost(getRequestUrl(req).query[proxyParamKey] as string);
+      return `${realProtocol}://${destHost}`;
+    },
+    onProxyReq: (proxyReq, req, res) => {
+      const signedHeaders = signedHeadersMap.get(req);
+      if (signedHeaders) {
+        Object.keys(signedHeaders).forEach((key) => {
+          proxyReq.setHeader(key, signedHeaders[key]);
+        });
+      }
+      if (maxBodySize == null) {
+        return;
+      }
+      // the body is piped to `proxyReq` after this callback
+      let size = 0;
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBodySize && !proxyReq.destroyed) {
+          sendError(res, makeBodyTooLargeError());
+          proxyReq.destroy();
+        }
       });
-      return newPath;
     },
-    router: function(req) {
-      let originHost = req.query[proxyParamKey] as string;
-      const realProtocol = opts?.protocol ?? req.protocol;
+    onError: (err, _req, res) => {
+      sendError(
+        res,
+        new TosProxyError(502, TosProxyErrorCode.ProxyBadGateway, err.message)
+      );
+    },
+  });
+
+  const rewritePath = (req: http.IncomingMessage) => {
+    const { pathname, query } = url.parse(req.url || '/', true);
+    delete query[proxyParamKey];
 
-      if (!originHost) {
-        throw Error(`代理缺少 ${proxyParamKey} 参数`);
+    const newPath = url.format({
+      pathname: (pathname || '').replace(context, ''),
+      query,
+    });
+    return newPath;
+  };
+
+  const sign = async (
+    req: http.IncomingMessage,
+    target: TosProxyTarget,
+    destHost: string,
+    signing: TosProxySigningOptions
+  ) => {
+    const policy = await signing.getPolicy(req, target);
+    if (!policy) {
+      throw new TosProxyError(
+        403,
+        TosProxyErrorCode.ProxyUnauthorized,
+        'the request is unauthorized'
+      );
+    }
+
+    const { pathname, search } = url.parse(rewritePath(req));
+    const query = parseQuery(search || '');
+    const method = (req.method || 'GET').toUpperCase();
+    const { bucket, key } = getObject(target, pathname || '/');
+    const operation = getOperation(method, key, query);
+    // the listed keys are under the `prefix` query
+    const checkedKey = operation === 'list' ? query.prefix ?? '' : key;
+    checkPolicy(policy, operation, bucket, checkedKey);
+    const copySource = req.headers['x-tos-copy-source'];
+    if (typeof copySource === 'string') {
+      const source = parseCopySource(copySource);
+      checkPolicy(policy, 'read', source.bucket, source.key);
+    }
+
+    const headers: Record<string, string> = {};
+    Object.keys(req.headers).forEach((key) => {
+      const value = req.headers[key];
+      if (key.startsWith('x-tos-') && typeof value === 'string') {
+        headers[key] = value;
       }
+    });
+    const credentials =
+      typeof signing.credentials === 'function'
+        ? await signing.credentials()
+        : signing.credentials;
+    const signedHeaders = signHeaders({
+      method,
+      host: destHost,
+      pathname: pathname || '/',
+      query,
+      headers,
+      credentials,
+      region: signing.region,
+    });
+    signedHeadersMap.set(req, signedHeaders);
+  };
 
-      if (opts?.destHost) {
-        if (typeof opts.destHost === 'function') {
-          originHost = opts.destHost(originHost);
-        } else {
-          originHost = opts.destHost;
-        }
+  const check = async (req: http.IncomingMessage) => {
+    const host = getRequestUrl(req).query[proxyParamKey];
+    if (typeof host !== 'string' || !host) {
+      throw new TosProxyError(
+        400,
+        TosProxyErrorCode.MissingProxyHost,
+        `the request lacks \`${proxyParamKey}\` query`
+      );
+    }
+
+    const target = parseTarget(host);
+    if (!hostReg.test(host) || !isAllowed(target, allowlist)) {
+      throw new TosProxyError(
+        403,
+        TosProxyErrorCode.ProxyHostNotAllowed,
+        `the host \`${host}\` isn't allowed`
+      );
+    }
+
+    if (rateLimiter) {
+      const retryAfter = rateLimiter(req);
+      if (retryAfter) {
+        throw new TosProxyError(
+          429,
+          TosProxyErrorCode.ProxyRateLimited,
+          `too many requests, retry after ${retryAfter}s`,
+          { 'retry-after': `${retryAfter}` }
+        );
       }
+    }
+
+    if (opts.authorize && !(await opts.authorize(req, target))) {
+      throw new TosProxyError(
+        403,
+        TosProxyErrorCode.ProxyUnauthorized,
+        'the request is unauthorized'
+      );
+    }
+
+    if (
+      maxBodySize != null &&
+      +(req.headers['content-length'] ?? 0) > maxBodySize
+    ) {
+      throw makeBodyTooLargeError();
+    }
+
+    const destHost = getDestHost(host);
+    destHostMap.set(req, destHost);
+    if (signing) {
+      await sign(req, target, destHost, signing);
+    }
+  };
 
-      return `${realProtocol}://${originHost}`;
+  return {
+    match: (req: http.IncomingMessage) =>
+      (getRequestUrl(req).pathname || '').startsWith(context),
+    handle: async (req: http.IncomingMessage, res: http.ServerResponse) => {
+      try {
+        await check(req);
+      } catch (err) {
+        if (!(err instanceof TosProxyError)) {
+          throw err;
+        }
+        sendError(res, err);
+        return;
+      }
+      await new Promise<void>((resolve, reject) => {
+        res.once('close', resolve);
+        proxy(req as any, res as any, reject);
+      });
     },
-  });
+  };
+}
+
+/**
+ * the middleware of express style
+ * @param context the path prefix of the proxy, eg: `/tos`
+ * @param {CreateTosProxyMiddlewareOpts} opts
+ */
+export function createTosProxyMiddleware(
+  context: string,
+  opts: CreateTosProxyMiddlewareOpts = {}
+) {
+  const proxy = createTosProxy(context, opts);
+  return (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    next: NextFunction
+  ) => {
+    if (!proxy.match(req)) {
+      next();
+      return;
+    }
+    proxy.handle(req, res).catch(next);
+  };
+}
+
+/**
+ * the middleware of koa
+ */
+export function createTosProxyKoaMiddleware(
+  context: string,
+  opts: CreateTosProxyMiddlewareOpts = {}
+) {
+  const proxy = createTosProxy(context, opts);
+  return async (ctx: KoaContextLike, next: () => Promise<unknown>) => {
+    if (!proxy.match(ctx.req)) {
+      await next();
+      return;
+    }
+    // the response is written by the proxy
+    ctx.respond = false;
+    await proxy.handle(ctx.req, ctx.res);
+  };
+}
+
+/**
+ * the listener of `http.createServer`,
+ * the requests out of `context` are responded with 404 if `next` isn't provided.
+ */
+export function createTosProxyHandler(
+  context: string,
+  opts: CreateTosProxyMiddlewareOpts = {}
+) {
+  const proxy = createTosProxy(context, opts);
+  return (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    next?: NextFunction
+  ) => {
+    const onError = (err?: unknown) => {
+      if (next) {
+        next(err);
+        return;
+      }
+      sendError(
+        res,
+        err
+          ? new TosProxyError(
+              502,
+              TosProxyErrorCode.ProxyBadGateway,
+              `${(err as Error).message ?? err}`
+            )
+          : new TosProxyError(
+              404,
+              TosProxyErrorCode.ProxyNotFound,
+              `the path isn't under \`${context}\``
+            )
+      );
+    };
+    if (!proxy.match(req)) {
+      onError();
+      return;
+    }
+    proxy.handle(req, res).catch(onError);
+  };
 }
@@ -0,0 +1,234 @@
+import { CancelError } from './CancelError';
+
+export interface RetryBudgetOptions {
+  /**
+   * the max tokens of the budget
+   */
+  capacity: number;
+
+  /**
+   * the tokens which one retry costs
+   * default value: 5
+   */
+  retryCost?: number;
+
+  /**
+   * the tokens which one succeeded request returns to the budget
+   * default value: 1
+   */
+  successRefund?: number;
+}
+
+export interface RetryStrategy {
+  /**
+   * decide whether to retry the failed request.
+   * `attempt` starts from 1, it's the number of the coming retry.
+   *
+   * default: retry network errors, 429 and 5xx status codes
+   */
+  shouldRetry?: (error: any, attempt: number) => boolean;
+
+  /**
+   * unit: ms
+   * the time to wait before the coming retry, `attempt` starts from 1.
+   *
+   * default: exponential backoff with full jitter, the `Retry-After` header is honoured
+   */
+  delay?: (attempt: number, error: any) => number;
+
+  /**
+   * unit: ms
+   * default value: 100
+   */
+  baseDelay?: number;
+
+  /**
+   * unit: ms
+   * default value: 20s
+   */
+  maxDelay?: number;
+
+  /**
+   * limit retries of a client to avoid making throttling worse.
+   * default: no limit
+   */
+  retryBudget?: RetryBudgetOptions;
+}
+
+const DEFAULT_BASE_DELAY = 100;
+const DEFAULT_MAX_DELAY = 20_000;
+
+export function isNetworkError(error: any) {
+  // no response or no requestId, ignore no network(error.code is undefined)
+  return (
+    (!error.response && Boolean(error.code)) ||
+    (error.response && !error.response.headers?.['x-tos-request-id'])
+  );
+}
+
+export function isCanRetryStatusCode(error: any) {
+  if (!error.response) {
+    return false;
+  }
+
+  const { status } = error.response;
+  if (status === 429 || status >= 500) {
+    return true;
+  }
+  return false;
+}
+
+// the request must not reach the server if these errors happen
+const NOT_SENT_NETWORK_ERROR_CODES = [
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+];
+
+/**
+ * whether a non-idempotent request can be retried safely,
+ * it's true only when the server must not handle the failed request.
+ */
+export function isSafeToRetryNonIdempotent(error: any) {
+  if (!error.response) {
+    return NOT_SENT_NETWORK_ERROR_CODES.includes(error.code);
+  }
+
+  // throttled by TOS server, the request isn't handled
+  const { status, headers } = error.response;
+  return (
+    Boolean(headers?.['x-tos-request-id']) && (status === 429 || status === 503)
+  );
+}
+
+export function isIdempotentMethod(method: string) {
+  return ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS'].includes(
+    method.toUpperCase()
+  );
+}
+
+export function defaultShouldRetry(error: any) {
+  return isNetworkError(error) || isCanRetryStatusCode(error);
+}
+
+/**
+ * unit: ms
+ * parse `Retry-After` header, it's seconds or a http date
+ */
+export function getRetryAfter(error: any): number | undefined {
+  const value = error?.response?.headers?.['retry-after'];
+  if (value == null || value === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = new Date(value).valueOf();
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * exponential backoff with full jitter
+ */
+export function getBackoffDelay(
+  attempt: number,
+  baseDelay: number = DEFAULT_BASE_DELAY,
+  maxDelay: number = DEFAULT_MAX_DELAY
+) {
+  const ceil = Math.min(maxDelay, baseDelay * 2 ** Math.max(0, attempt - 1));
+  return Math.floor(Math.random() * ceil);
+}
+
+export class RetryBudget {
+  private tokens: number;
+
+  constructor(private opts: RetryBudgetOptions) {
+    this.tokens = opts.capacity;
+  }
+
+  /**
+   * return false if the budget is exhausted
+   */
+  acquire(): boolean {
+    const cost = this.opts.retryCost ?? 5;
+    if (this.tokens < cost) {
+      return false;
+    }
+    this.tokens -= cost;
+    return true;
+  }
+
+  release() {
+    const refund = this.opts.successRefund ?? 1;
+    this.tokens = Math.min(this.opts.capacity, this.tokens + refund);
+  }
+}
+
+export class RetryStrategyExecutor {
+  private budget: RetryBudget | null;
+
+  constructor(private strategy: RetryStrategy = {}) {
+    this.budget = strategy.retryBudget
+      ? new RetryBudget(strategy.retryBudget)
+      : null;
+  }
+
+  shouldRetry(error: any, attempt: number): boolean {
+    const { shouldRetry = defaultShouldRetry } = this.strategy;
+    if (!shouldRetry(error, attempt)) {
+      return false;
+    }
+    if (this.budget && !this.budget.acquire()) {
+      return false;
+    }
+    return true;
+  }
+
+  getDelay(attempt: number, error: any): number {
+    const { delay, baseDelay, maxDelay = DEFAULT_MAX_DELAY } = this.strategy;
+    if (delay) {
+      return Math.max(0, delay(attempt, error));
+    }
+
+    const backoffDelay = getBackoffDelay(attempt, baseDelay, maxDelay);
+    const retryAfter = getRetryAfter(error);
+    if (retryAfter == null) {
+      return backoffDelay;
+    }
+    return Math.min(maxDelay, Math.max(backoffDelay, retryAfter));
+  }
+
+  onSuccess() {
+    this.budget?.release();
+  }
+}
+
+/**
+ * it rejects with `CancelError` if `abortSignal` is aborted before the time is up
+ */
+export function wait(milliseconds: number, abortSignal?: AbortSignal) {
+  return new Promise((resolve, reject) => {
+    if (abortSignal?.aborted) {
+      reject(new CancelError('the request is aborted'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelError('the request is aborted'));
+    };
+    const timer = setTimeout(() => {
+      abortSignal?.removeEventListener('abort', onAbort);
+      resolve('');
+    }, milliseconds);
+    abortSignal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,147 @@
+import { TosCredentials } from './credentials';
+import { ISigV4Credentials, SignersV4 } from './signatureV4';
+import { TosClientErrorCode, TosValidationError } from './TosClientError';
+import { hashSha256 } from './universal/crypto';
+import { getSortedQueryString } from './utils';
+
+export interface SignRequestInput {
+  method: string;
+  /**
+   * the full url, eg: https://bucket.tos-cn-beijing.volces.com/key?versionId=1
+   */
+  url: string;
+  /**
+   * `host` and `x-tos-*` headers are signed, they must be sent as they are
+   */
+  headers?: Record<string, string | undefined>;
+  /**
+   * the SHA256 of body is signed if it's provided, otherwise `UNSIGNED-PAYLOAD` is signed.
+   * `Buffer` body is only supported in nodejs environment.
+   */
+  body?: string | Buffer;
+  credentials: Pick<
+    TosCredentials,
+    'accessKeyId' | 'accessKeySecret' | 'stsToken'
+  >;
+  region: string;
+  /**
+   * unit: second
+   * sign the query of url if it's provided, otherwise sign the headers
+   */
+  expires?: number;
+  /**
+   * the signing time
+   * default value: now
+   */
+  date?: Date;
+}
+
+export interface SignRequestOutput {
+  /**
+   * the signed url if `expires` is provided, otherwise it's the original url
+   */
+  url: string;
+  /**
+   * the headers which must be sent, they include the signed headers when signing the headers
+   */
+  headers: Record<string, string>;
+}
+
+function normalizeHeaders(headers: SignRequestInput['headers']) {
+  const normalized: Record<string, string> = {};
+  Object.keys(headers || {}).forEach((key) => {
+    const value = headers?.[key];
+    if (value != null) {
+      normalized[key.toLowerCase()] = value;
+    }
+  });
+  return normalized;
+}
+
+/**
+ * sign a request by TOS4-HMAC-SHA256, the request can be sent by any HTTP client
+ */
+export function signRequest(input: SignRequestInput): SignRequestOutput {
+  const { credentials } = input;
+  if (!credentials?.accessKeyId || !credentials?.accessKeySecret) {
+    throw new TosValidationError(
+      'lack params: credentials.accessKeyId, credentials.accessKeySecret.',
+      TosClientErrorCode.MissingParam
+    );
+  }
+  if (!input.region) {
+    throw new TosValidationError(
+      'lack params: region.',
+      TosClientErrorCode.MissingParam
+    );
+  }
+
+  let url: URL;
+  try {
+    url = new URL(input.url);
+  } catch (err) {
+    throw new TosValidationError(
+      `the url \`${input.url}\` is invalid`,
+      TosClientErrorCode.InvalidParam
+    );
+  }
+
+  const headers = normalizeHeaders(input.headers);
+  if (input.body != null && !headers['x-tos-content-sha256']) {
+    headers['x-tos-content-sha256'] = hashSha256(input.body, 'hex');
+  }
+  const query: Record<string, string> = {};
+  url.searchParams.forEach((value, key) => {
+    query[key] = value;
+  });
+
+  const sig = new SignersV4(
+    {
+      algorithm: 'TOS4-HMAC-SHA256',
+      region: input.region,
+      serviceName: 'tos',
+      bucket: '',
+      securityToken: credentials.stsToken,
+      date: input.date,
+    },
+    new ISigV4Credentials(
+      credentials.stsToken,
+      credentials.accessKeySecret,
+      credentials.accessKeyId
+    )
+  );
+  // the same encoding as the requests of the client
+  const path = `/${encodeURIComponent(
+    decodeURIComponent(url.pathname.slice(1))
+  )}`;
+  const method = input.method.toUpperCase();
+
+  if (input.expires != null) {
+    const signedQuery = sig.getSignatureQuery(
+      { method, path, host: url.host, headers: { ...headers }, query },
+      input.expires
+    );
+    const queryStr = Object.keys(signedQuery)
+      .map(
+        (key) =>
+          `${encodeURIComponent(key)}=${encodeURIComponent(signedQuery[key])}`
+      )
+      .join('&');
+    return {
+      url: `${url.origin}${url.pathname}?${queryStr}`,
+      headers,
+    };
+  }
+
+  const signedHeaders = sig.signatureHeader({
+    method,
+    path,
+    host: url.host,
+    headers: { ...headers },
+    query: getSortedQueryString(query),
+  });
+  signedHeaders.forEach((value, key) => {
+    headers[key] = value;
+  });
+  return { url: input.url, headers };
+}
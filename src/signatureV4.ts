@@ -52,8 +52,24 @@ export interface ISigOptions {
   datetime?: string;
   host?: string;
   port?: number;
+  // it's set by `signatureHeader` if the payload is signed by chunks
+  chunkSigner?: ChunkSigner;
+  // the headers are signed besides host and x-tos-*, eg: content-type
+  extraSignedHeaders?: string[];
 }
 
+/**
+ * sign the chunks in sequence, every signature covers the previous one
+ */
+export interface ChunkSigner {
+  sign(chunkHash: string): string;
+}
+
+/**
+ * the value of `x-tos-content-sha256` header if the payload is signed by chunks
+ */
+export const STREAMING_PAYLOAD_HASH = 'STREAMING-TOS4-HMAC-SHA256-PAYLOAD';
+
 export interface ISigQueryOptions extends Omit<ISigOptions, 'query'> {
   query?: Record<string, any>;
 }
@@ -95,6 +111,10 @@ interface ISignV4Opt {
   serviceName?: string;
   securityToken?: string;
   bucket: string;
+  // unit: ms, it corrects the skewed local clock
+  clockOffset?: number;
+  // the fixed signing time, eg: for test vectors
+  date?: Date;
 }
 /**
  * @api private
@@ -176,7 +196,7 @@ export class SignersV4 implements ISign {
           }
       }
       */
-    header.set('x-tos-content-sha256', this.hexEncodedBodyHash());
+    header.set('x-tos-content-sha256', this.hexEncodedBodyHash(opt));
     if (this.options.securityToken) {
       header.set('x-tos-security-token', this.options.securityToken);
     }
@@ -189,6 +209,13 @@ export class SignersV4 implements ISign {
     opt.path = this.getEncodePath(opt.path);
     const sign = this.signature(opt, 0, credentials);
     header.set('authorization', sign);
+    if (header.get('x-tos-content-sha256') === STREAMING_PAYLOAD_HASH) {
+      opt.chunkSigner = this.makeChunkSigner(
+        opt.datetime,
+        sign.split('Signature=')[1],
+        credentials || this.credentials
+      );
+    }
 
     return header;
   };
@@ -233,7 +260,7 @@ export class SignersV4 implements ISign {
     const res = {
       ...(opt.query || {}),
       [SIG_QUERY.v4_algorithm]: this.options.algorithm,
-      [SIG_QUERY.v4_content_sha]: this.hexEncodedBodyHash(),
+      [SIG_QUERY.v4_content_sha]: this.hexEncodedBodyHash(opt),
       [SIG_QUERY.v4_credential]:
         this.credentials.GetAccessKey() + '/' + credString,
       [SIG_QUERY.v4_date]: opt.datetime,
@@ -284,9 +311,34 @@ export class SignersV4 implements ISign {
     return res;
   };
 
-  private hexEncodedBodyHash = () => {
-    return 'UNSIGNED-PAYLOAD';
-    // return this.hexEncodedHash('');
+  // the payload is signed if `x-tos-content-sha256` is provided
+  private hexEncodedBodyHash = (opt?: ISigOptions) => {
+    return opt?.headers?.['x-tos-content-sha256'] || 'UNSIGNED-PAYLOAD';
+  };
+
+  private makeChunkSigner = (
+    datetime: string,
+    seedSignature: string,
+    credentials: ISigCredentials
+  ): ChunkSigner => {
+    const signingKey = this.getSigningKey(credentials, datetime.substr(0, 8));
+    const scope = this.credentialString(datetime);
+    const emptyHash = this.hexEncodedHash('');
+    let previousSignature = seedSignature;
+    return {
+      sign: (chunkHash: string) => {
+        const stringToSign = [
+          `${this.options.algorithm}-PAYLOAD`,
+          datetime,
+          scope,
+          previousSignature,
+          emptyHash,
+          chunkHash,
+        ].join('\n');
+        previousSignature = hmacSha256(signingKey, stringToSign, 'hex');
+        return previousSignature;
+      },
+    };
   };
 
   private authorization = (
@@ -313,7 +365,10 @@ export class SignersV4 implements ISign {
   };
 
   private getDateTime = () => {
-    const date = new Date(new Date().toUTCString());
+    const now = this.options.date
+      ? this.options.date.valueOf()
+      : Date.now() + (this.options.clockOffset || 0);
+    const date = new Date(new Date(now).toUTCString());
     const datetime =
       date
         .toISOString()
@@ -373,7 +428,7 @@ export class SignersV4 implements ISign {
     parts.push(this.getEncodePath(opt.query as string, false));
     parts.push(this.canonicalHeaders(opt) + '\n');
     parts.push(this.signedHeaders(opt));
-    parts.push(this.hexEncodedBodyHash());
+    parts.push(this.hexEncodedBodyHash(opt));
     return parts.join('\n');
   };
 
@@ -386,7 +441,10 @@ export class SignersV4 implements ISign {
 
   private canonicalHeaders = (opt: ISigOptions) => {
     const parts: string[] = [];
-    const needSignHeaders = getNeedSignedHeaders(opt.headers);
+    const needSignHeaders = getNeedSignedHeaders(
+      opt.headers,
+      opt.extraSignedHeaders
+    );
 
     for (let key of needSignHeaders) {
       const value = opt.headers[key];
@@ -403,7 +461,10 @@ export class SignersV4 implements ISign {
 
   private signedHeaders = (opt: ISigOptions) => {
     const keys: string[] = [];
-    const needSignHeaders = getNeedSignedHeaders(opt.headers);
+    const needSignHeaders = getNeedSignedHeaders(
+      opt.headers,
+      opt.extraSignedHeaders
+    );
 
     for (let key of needSignHeaders) {
       key = key.toLowerCase();
@@ -458,10 +519,13 @@ export class ISigV4Credentials implements ISigCredentials {
   }
 }
 
-function getNeedSignedHeaders(headers: Record<string, unknown> | undefined) {
+function getNeedSignedHeaders(
+  headers: Record<string, unknown> | undefined,
+  extraKeys: string[] = []
+) {
   const needSignHeaders: string[] = [];
   Object.keys(headers || {}).forEach((key: string) => {
-    if (key === 'host' || key.startsWith('x-tos-')) {
+    if (key === 'host' || key.startsWith('x-tos-') || extraKeys.includes(key)) {
       if (headers[key] != null) {
         needSignHeaders.push(key);
       }
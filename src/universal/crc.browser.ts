@@ -1,4 +1,4 @@
-import TosClientError from '../TosClientError';
+import TosClientError, { TosClientErrorCode } from '../TosClientError';
 
 // not enabled in browser environment, because:
 // 1. crcjs maybe make browser long task
@@ -7,10 +7,16 @@ export class CRC {
   reset() {}
 
   async updateBlob(): Promise<string> {
-    throw new TosClientError('Not implemented.(CRC may cause browser lag.)');
+    throw new TosClientError(
+      'Not implemented.(CRC may cause browser lag.)',
+      TosClientErrorCode.NotSupported
+    );
   }
 
   update(_value: Buffer): string {
-    throw new TosClientError('Not implemented.(CRC may cause browser lag.)');
+    throw new TosClientError(
+      'Not implemented.(CRC may cause browser lag.)',
+      TosClientErrorCode.NotSupported
+    );
   }
 }
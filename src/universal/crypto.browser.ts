@@ -4,7 +4,7 @@ import cryptoHashMd5 from 'crypto-js/md5';
 import cryptoEncBase64 from 'crypto-js/enc-base64';
 import cryptoEncHex from 'crypto-js/enc-hex';
 import cryptoEncUtf8 from 'crypto-js/enc-utf8';
-import TosClientError from '../TosClientError';
+import TosClientError, { TosClientErrorCode } from '../TosClientError';
 import { isBuffer } from '../utils';
 
 function getEnc(coding: 'utf-8' | 'base64' | 'hex') {
@@ -16,7 +16,10 @@ function getEnc(coding: 'utf-8' | 'base64' | 'hex') {
     case 'hex':
       return cryptoEncHex;
     default:
-      throw new TosClientError('The coding is not supported');
+      throw new TosClientError(
+        'The coding is not supported',
+        TosClientErrorCode.NotSupported
+      );
   }
 }
 
@@ -37,9 +40,16 @@ export const hmacSha256 = function hmacSha256(
 };
 
 export const hashSha256 = function hashSha256(
-  message: string,
+  message: string | Buffer,
   decoding?: 'base64' | 'hex'
 ) {
+  if (isBuffer(message)) {
+    throw new TosClientError(
+      'not support buffer in browser environment',
+      TosClientErrorCode.NotSupported
+    );
+  }
+
   return decode(cryptoHashSha256(message), decoding);
 };
 
@@ -48,7 +58,10 @@ export const hashMd5 = function hashMd5(
   decoding?: 'base64' | 'hex'
 ) {
   if (isBuffer(message)) {
-    throw new TosClientError('not support buffer in browser environment');
+    throw new TosClientError(
+      'not support buffer in browser environment',
+      TosClientErrorCode.NotSupported
+    );
   }
 
   return decode(cryptoHashMd5(message), decoding);
@@ -67,3 +80,15 @@ export const stringify = function stringify(
 ) {
   return getEnc(decoding).stringify(str);
 };
+
+// compare all chars so that the time doesn't depend on the position of the first difference
+export const timingSafeEqual = function timingSafeEqual(a: string, b: string) {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
@@ -7,10 +7,12 @@ interface CryptoModule {
     message: string,
     decoding?: 'base64' | 'hex'
   ) => string;
-  hashSha256: (message: string, decoding?: 'base64' | 'hex') => string;
+  hashSha256: (message: string | Buffer, decoding?: 'base64' | 'hex') => string;
   hashMd5: (message: string | Buffer, decoding?: 'base64' | 'hex') => string;
   parse: (str: string, encoding: 'utf-8' | 'base64' | 'hex') => string;
   stringify: (str: string, decoding: 'utf-8' | 'base64' | 'hex') => string;
+  // compare the signatures in constant time
+  timingSafeEqual: (a: string, b: string) => boolean;
 }
 
 let crypto = null as unknown as CryptoModule;
@@ -20,6 +22,7 @@ if (process.env.TARGET_ENVIRONMENT === 'node') {
   crypto = cryptoBrowser as unknown as CryptoModule;
 }
 
-const { hmacSha256, hashSha256, hashMd5, parse, stringify } = crypto;
+const { hmacSha256, hashSha256, hashMd5, parse, stringify, timingSafeEqual } =
+  crypto;
 
-export { hmacSha256, hashSha256, hashMd5, parse, stringify };
+export { hmacSha256, hashSha256, hashMd5, parse, stringify, timingSafeEqual };
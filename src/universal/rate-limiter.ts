@@ -6,7 +6,8 @@ interface RateLimiterModule {
   createDefaultRateLimiter(capacity: number, rate: number): IRateLimiter;
   createRateLimiterStream(
     stream: NodeJS.ReadableStream,
-    rateLimiter: IRateLimiter
+    rateLimiter: IRateLimiter,
+    abortSignal?: AbortSignal
   ): NodeJS.ReadableStream;
 }
 
@@ -7,7 +7,11 @@ import {
 import get from 'lodash/get';
 import set from 'lodash/set';
 import { CancelError } from './CancelError';
-import TosClientError from './TosClientError';
+import {
+  TosChecksumMismatchError,
+  TosClientErrorCode,
+  TosValidationError,
+} from './TosClientError';
 import { Headers } from './interface';
 import { TOSConstructorOptions, TosResponse } from './methods/base';
 import qs from 'qs';
@@ -147,6 +151,10 @@ export const normalizeProxy = (proxy: TOSConstructorOptions['proxy']) => {
   ) {
     proxy.needProxyParams = true;
   }
+  // the signing proxy gets the host from the params
+  if (proxy?.signByProxy) {
+    proxy.needProxyParams = true;
+  }
 
   return proxy;
 };
@@ -329,8 +337,9 @@ export function fillRequestHeaders<T extends { headers?: Headers }>(
     const confV = requestHeadersMap[k];
     if (!confV) {
       // maybe warning
-      throw new TosClientError(
-        `\`${k}\` isn't in keys of \`requestHeadersMap\``
+      throw new TosValidationError(
+        `\`${k}\` isn't in keys of \`requestHeadersMap\``,
+        TosClientErrorCode.InvalidParam
       );
     }
 
@@ -376,7 +385,10 @@ export function fillRequestQuery<T>(
     const confV = requestQueryMap[k];
     if (!confV) {
       // maybe warning
-      throw new TosClientError(`\`${k}\` isn't in keys of \`requestQueryMap\``);
+      throw new TosValidationError(
+        `\`${k}\` isn't in keys of \`requestQueryMap\``,
+        TosClientErrorCode.InvalidParam
+      );
     }
 
     const oriValue = v[k];
@@ -449,8 +461,10 @@ export function checkCRC64WithHeaders(crc: CRCCls | string, headers: Headers) {
 
   const crcStr = typeof crc === 'string' ? crc : crc.getCrc64();
   if (crcStr !== serverCRC64) {
-    throw new TosClientError(
-      `validate file crc64 failed. Expect crc64 ${serverCRC64}, actual crc64 ${crcStr}. Please try again.`
+    throw new TosChecksumMismatchError(
+      `validate file crc64 failed. Expect crc64 ${serverCRC64}, actual crc64 ${crcStr}. Please try again.`,
+      serverCRC64,
+      crcStr
     );
   }
 }
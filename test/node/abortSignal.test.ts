@@ -0,0 +1,97 @@
+import TOS from '../../src/browser-index';
+import { CancelError } from '../../src/CancelError';
+import { safeAwait } from '../../src/utils';
+import {
+  makeAbortController,
+  mockClientOptions,
+  replyMockResponse,
+  startMockServer,
+} from './utils';
+
+describe('abortSignal', () => {
+  it('abort the in-flight request', async () => {
+    const server = await startMockServer((_req, res) => {
+      setTimeout(() => replyMockResponse(res), 2000);
+    });
+    const client = new TOS({ ...mockClientOptions, endpoint: server.endpoint });
+
+    const controller = makeAbortController();
+    setTimeout(() => controller.abort(), 100);
+    const start = Date.now();
+    const [err] = await safeAwait(
+      client.listObjectsType2({ abortSignal: controller.signal })
+    );
+    expect(err).toBeInstanceOf(CancelError);
+    expect(Date.now() - start).toBeLessThan(1000);
+    await server.close();
+  });
+
+  it("don't send request if it has been aborted", async () => {
+    const server = await startMockServer((_req, res) => replyMockResponse(res));
+    const client = new TOS({ ...mockClientOptions, endpoint: server.endpoint });
+
+    const controller = makeAbortController();
+    controller.abort();
+    const [err] = await safeAwait(
+      client.headBucket({ abortSignal: controller.signal })
+    );
+    expect(err).toBeInstanceOf(CancelError);
+    expect(server.requests.length).toBe(0);
+    await server.close();
+  });
+
+  it('stop the pending retry', async () => {
+    const server = await startMockServer((_req, res) => {
+      res.statusCode = 503;
+      res.end();
+    });
+    const client = new TOS({
+      ...mockClientOptions,
+      endpoint: server.endpoint,
+      retryStrategy: { delay: () => 10_000 },
+    });
+
+    const controller = makeAbortController();
+    setTimeout(() => controller.abort(), 200);
+    const start = Date.now();
+    const [err] = await safeAwait(
+      client.getObjectV2({ key: 'a', abortSignal: controller.signal })
+    );
+    expect(err).toBeInstanceOf(CancelError);
+    expect(Date.now() - start).toBeLessThan(2000);
+    expect(server.requests.length).toBe(1);
+    await server.close();
+  });
+
+  it('nested requests share the abortSignal', async () => {
+    const server = await startMockServer((req, res) => {
+      req.resume();
+      req.on('end', () => {
+        if (req.method === 'POST' && req.url?.includes('uploads')) {
+          replyMockResponse(res, {
+            body: { Bucket: 'mock-bucket', Key: 'a', UploadId: 'upload-id' },
+          });
+          return;
+        }
+        // uploadPart never responds in time
+        setTimeout(() => replyMockResponse(res), 2000);
+      });
+    });
+    const client = new TOS({ ...mockClientOptions, endpoint: server.endpoint });
+
+    const controller = makeAbortController();
+    setTimeout(() => controller.abort(), 200);
+    const start = Date.now();
+    const [err] = await safeAwait(
+      client.uploadFile({
+        key: 'a',
+        file: Buffer.alloc(10),
+        abortSignal: controller.signal,
+      })
+    );
+    expect(err).toBeInstanceOf(CancelError);
+    expect(Date.now() - start).toBeLessThan(1000);
+    expect(server.requests.map((it) => it.method)).toEqual(['POST', 'PUT']);
+    await server.close();
+  });
+});
@@ -0,0 +1,72 @@
+import TOS from '../../src/browser-index';
+import { mockClientOptions } from './utils';
+
+describe('buildPostForm', () => {
+  it('build the ordered fields with conditions', async () => {
+    const client = new TOS(mockClientOptions);
+    const { url, fields } = await client.buildPostForm({
+      key: 'uploads/a.png',
+      fields: { 'Content-Type': 'image/png', 'x-tos-meta-a': 'b' },
+      conditions: [
+        { type: 'starts-with', field: 'key', value: 'uploads/' },
+        { type: 'starts-with', field: 'content-type', value: 'image/' },
+        { type: 'content-length-range', min: 1, max: 1024 },
+      ],
+      successActionStatus: 201,
+      fileSize: 100,
+    });
+
+    expect(url).toBe('http://mock-bucket.tos-cn-beijing.volces.com');
+    expect(Object.keys(fields)).toEqual([
+      'key',
+      'Content-Type',
+      'x-tos-meta-a',
+      'success_action_status',
+      'x-tos-algorithm',
+      'x-tos-date',
+      'x-tos-credential',
+      'policy',
+      'x-tos-signature',
+    ]);
+    expect(fields['success_action_status']).toBe('201');
+
+    const policy = JSON.parse(
+      Buffer.from(fields.policy, 'base64').toString('utf-8')
+    );
+    expect(policy.conditions).toEqual(
+      expect.arrayContaining([
+        ['starts-with', '$key', 'uploads/'],
+        ['starts-with', '$content-type', 'image/'],
+        ['content-length-range', 1, 1024],
+        { bucket: 'mock-bucket' },
+        { key: 'uploads/a.png' },
+        { success_action_status: '201' },
+      ])
+    );
+  });
+
+  it('check the fields before signing', async () => {
+    const client = new TOS(mockClientOptions);
+    const build = (
+      input: Partial<Parameters<typeof client.buildPostForm>[0]>
+    ) => client.buildPostForm({ key: 'uploads/a.png', ...input });
+
+    await expect(
+      build({ conditions: [{ type: 'eq', field: 'key', value: 'other' }] })
+    ).rejects.toThrow("doesn't satisfy the condition");
+    await expect(
+      build({
+        conditions: [{ type: 'starts-with', field: 'Content-Type', value: '' }],
+      })
+    ).rejects.toThrow("isn't in the form");
+    await expect(
+      build({
+        conditions: [{ type: 'content-length-range', min: 1, max: 10 }],
+        fileSize: 11,
+      })
+    ).rejects.toBeInstanceOf(TOS.TosValidationError);
+    await expect(
+      build({ successActionStatus: 302 as any })
+    ).rejects.toBeInstanceOf(TOS.TosValidationError);
+  });
+});
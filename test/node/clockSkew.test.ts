@@ -0,0 +1,90 @@
+import { IncomingMessage } from 'http';
+import TOS from '../../src/browser-index';
+import { mockClientOptions, replyMockResponse, startMockServer } from './utils';
+
+// the server clock is 1 hour faster than the local clock
+const SERVER_CLOCK_OFFSET = 60 * 60 * 1000;
+
+// 20240101T000000Z
+function parseTosDate(value: string) {
+  const [, y, m, d, hh, mm, ss] = value.match(
+    /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/
+  )!;
+  return Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss);
+}
+
+function isSkewed(value: string) {
+  const serverTime = Date.now() + SERVER_CLOCK_OFFSET;
+  return Math.abs(parseTosDate(value) - serverTime) > 15 * 60 * 1000;
+}
+
+function startSkewedServer() {
+  return startMockServer((req: IncomingMessage, res) => {
+    const date = new Date(Date.now() + SERVER_CLOCK_OFFSET).toUTCString();
+    if (isSkewed(req.headers['x-tos-date'] as string)) {
+      replyMockResponse(res, {
+        statusCode: 403,
+        headers: { date },
+        body:
+          req.method === 'HEAD'
+            ? undefined
+            : { Code: 'RequestTimeTooSkewed', Message: 'skewed' },
+      });
+      return;
+    }
+    replyMockResponse(res, { headers: { date } });
+  });
+}
+
+describe('clock skew', () => {
+  it('correct the clock and retry the request', async () => {
+    const server = await startSkewedServer();
+    const client = new TOS({
+      ...mockClientOptions,
+      endpoint: server.endpoint,
+      maxRetryCount: 0,
+    });
+
+    const res = await client.putObject({ key: 'a', body: Buffer.from('a') });
+    expect(res.statusCode).toBe(200);
+    expect(server.requests.length).toBe(2);
+    expect(
+      Math.abs(client.clockSkew.offset - SERVER_CLOCK_OFFSET)
+    ).toBeLessThan(2000);
+
+    // the corrected clock is used by the following requests
+    await client.headObject('a');
+    expect(server.requests.length).toBe(3);
+    await server.close();
+  });
+
+  it('correct the clock by the Date header of HEAD request', async () => {
+    const server = await startSkewedServer();
+    const client = new TOS({
+      ...mockClientOptions,
+      endpoint: server.endpoint,
+    });
+
+    const res = await client.headObject('a');
+    expect(res.statusCode).toBe(200);
+    expect(server.requests.length).toBe(2);
+    await server.close();
+  });
+
+  it('sign URLs and post forms with the corrected clock', async () => {
+    const client = new TOS(mockClientOptions);
+    client.clockSkew.offset = SERVER_CLOCK_OFFSET;
+
+    const url = new URL(client.getPreSignedUrl('a'));
+    expect(isSkewed(url.searchParams.get('X-Tos-Date')!)).toBe(false);
+
+    const policyUrl = client.preSignedPolicyURL({
+      conditions: [{ key: 'key', value: 'a' }],
+    });
+    const policyQuery = new URLSearchParams(policyUrl.signedQuery);
+    expect(isSkewed(policyQuery.get('X-Tos-Date')!)).toBe(false);
+
+    const fields = await client.calculatePostSignature({ key: 'a' });
+    expect(isSkewed(fields['x-tos-date'] as string)).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+import TOS from '../../src/browser-index';
+import { SocketEvent } from '../../src/events';
+import { mockClientOptions, replyMockResponse, startMockServer } from './utils';
+
+describe('connection stats', () => {
+  it('count the connections and emit socket events', async () => {
+    const server = await startMockServer((_req, res, index) =>
+      // the server closes the connection after the third request
+      replyMockResponse(res, {
+        headers: {
+          'content-length': '0',
+          connection: index === 2 ? 'close' : 'keep-alive',
+        },
+      })
+    );
+    const client = new TOS({ ...mockClientOptions, endpoint: server.endpoint });
+    const events: [string, SocketEvent][] = [];
+    client.on('socketCreate', (event) => events.push(['create', event]));
+    client.on('socketReuse', (event) => events.push(['reuse', event]));
+
+    await client.headObject('a');
+    await client.headObject('b');
+    // the socket is released after the response is received
+    await new Promise((r) => setTimeout(r, 10));
+
+    const host = server.endpoint;
+    const stats = client.getConnectionStats();
+    expect(stats.createdConnections).toBe(1);
+    expect(stats.reusedConnections).toBe(1);
+    expect(stats.connectTimeouts).toBe(0);
+    expect(stats.hosts[host]).toEqual({ active: 0, idle: 1, queued: 0 });
+    expect(events).toEqual([
+      ['create', { host, isHttps: false }],
+      ['reuse', { host, isHttps: false }],
+    ]);
+
+    const closed = new Promise<SocketEvent>((resolve) =>
+      client.on('socketClose', resolve)
+    );
+    await client.headObject('c');
+    expect(await closed).toEqual({ host, isHttps: false });
+    expect(client.getConnectionStats().closedConnections).toBe(1);
+    await server.close();
+  });
+
+  it('count the queued requests', async () => {
+    const replies: (() => void)[] = [];
+    const server = await startMockServer((_req, res) => {
+      replies.push(() =>
+        replyMockResponse(res, {
+          headers: { 'content-length': '0', connection: 'close' },
+        })
+      );
+    });
+    const waitRequest = async () => {
+      while (!replies.length) {
+        await new Promise((r) => setTimeout(r, 10));
+      }
+      return replies.shift()!;
+    };
+    const client = new TOS({
+      ...mockClientOptions,
+      endpoint: server.endpoint,
+      maxConnections: 1,
+    });
+
+    const pending = Promise.all([
+      client.headObject('a'),
+      client.headObject('b'),
+    ]);
+    const replyFirst = await waitRequest();
+    const host = server.endpoint;
+    expect(client.getConnectionStats().hosts[host]).toEqual({
+      active: 1,
+      idle: 0,
+      queued: 1,
+    });
+
+    replyFirst();
+    (await waitRequest())();
+    await pending;
+    await server.close();
+  });
+});
@@ -0,0 +1,131 @@
+import TOS from '../../src/browser-index';
+import { TosCredentials } from '../../src/credentials';
+import { mockClientOptions, replyMockResponse, startMockServer } from './utils';
+
+function getAccessKeyOfRequest(authorization: string | undefined) {
+  const matched = (authorization || '').match(/Credential=([^/]+)\//);
+  return matched?.[1];
+}
+
+describe('credentialsProvider', () => {
+  it('cache credentials and avoid parallel refreshes', async () => {
+    const server = await startMockServer((_req, res) => replyMockResponse(res));
+    let callCount = 0;
+    const client = new TOS({
+      region: mockClientOptions.region,
+      bucket: mockClientOptions.bucket,
+      secure: false,
+      endpoint: server.endpoint,
+      credentialsProvider: async () => {
+        ++callCount;
+        await new Promise((r) => setTimeout(r, 50));
+        return {
+          accessKeyId: `ak-${callCount}`,
+          accessKeySecret: 'sk',
+          stsToken: 'token',
+          expiration: new Date(Date.now() + 3600_000),
+        };
+      },
+    });
+
+    await Promise.all([
+      client.headObject('a'),
+      client.headObject('b'),
+      client.headObject('c'),
+    ]);
+    await client.headObject('d');
+    expect(callCount).toBe(1);
+    server.requests.forEach((req) => {
+      expect(getAccessKeyOfRequest(req.headers['authorization'])).toBe('ak-1');
+      expect(req.headers['x-tos-security-token']).toBe('token');
+    });
+    await server.close();
+  });
+
+  it('refresh credentials before they expire', async () => {
+    const server = await startMockServer((_req, res) => replyMockResponse(res));
+    let callCount = 0;
+    const client = new TOS({
+      region: mockClientOptions.region,
+      bucket: mockClientOptions.bucket,
+      secure: false,
+      endpoint: server.endpoint,
+      credentialsRefreshThreshold: 1000,
+      credentialsProvider: {
+        getCredentials(): TosCredentials {
+          ++callCount;
+          return {
+            accessKeyId: `ak-${callCount}`,
+            accessKeySecret: 'sk',
+            // the first credentials will expire soon
+            expiration:
+              callCount === 1 ? Date.now() + 500 : Date.now() + 3600_000,
+          };
+        },
+      },
+    });
+
+    await client.headObject('a');
+    await new Promise((r) => setTimeout(r, 600));
+    await client.headObject('b');
+    expect(callCount).toBe(2);
+    expect(
+      getAccessKeyOfRequest(server.requests[1].headers['authorization'])
+    ).toBe('ak-2');
+    await server.close();
+  });
+
+  it('re-sign retried requests with fresh credentials', async () => {
+    const server = await startMockServer((_req, res, index) => {
+      if (index === 0) {
+        res.statusCode = 502;
+        res.end();
+        return;
+      }
+      replyMockResponse(res);
+    });
+    let callCount = 0;
+    const client = new TOS({
+      region: mockClientOptions.region,
+      bucket: mockClientOptions.bucket,
+      secure: false,
+      endpoint: server.endpoint,
+      credentialsProvider: async () => {
+        ++callCount;
+        return {
+          accessKeyId: `ak-${callCount}`,
+          accessKeySecret: 'sk',
+          // already expired, so every request needs new credentials
+          expiration: Date.now() - 1,
+        };
+      },
+    });
+
+    const res = await client.headObject('a');
+    expect(res.statusCode).toBe(200);
+    expect(
+      getAccessKeyOfRequest(server.requests[0].headers['authorization'])
+    ).toBe('ak-1');
+    expect(
+      getAccessKeyOfRequest(server.requests[1].headers['authorization'])
+    ).toBe('ak-2');
+    await server.close();
+  });
+
+  it('sync methods need loaded credentials', async () => {
+    const client = new TOS({
+      region: mockClientOptions.region,
+      bucket: mockClientOptions.bucket,
+      credentialsProvider: async () => ({
+        accessKeyId: 'ak',
+        accessKeySecret: 'sk',
+      }),
+    });
+
+    expect(() => client.getPreSignedUrl('a')).toThrow(
+      'please call `refreshCredentials` first'
+    );
+    await client.refreshCredentials();
+    expect(client.getPreSignedUrl('a')).toContain('X-Tos-Credential=ak%2F');
+  });
+});
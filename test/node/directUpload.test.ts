@@ -0,0 +1,230 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import TOS, {
+  directUploadFile,
+  UploadEventType,
+  verifyPreSignedUrl,
+} from '../../src/browser-index';
+import { mockClientOptions, replyMockResponse, startMockServer } from './utils';
+
+const partSize = 5 * 1024 * 1024;
+const file = Buffer.alloc(partSize * 2 + 100, 'a');
+
+function startUploadServer(failedPart?: number) {
+  let failed = false;
+  return startMockServer((req: IncomingMessage, res: ServerResponse) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+      const { searchParams } = new URL(req.url!, 'http://localhost');
+      if (searchParams.has('uploads')) {
+        replyMockResponse(res, {
+          body: { Bucket: 'mock-bucket', Key: 'a', UploadId: 'upload-id' },
+        });
+        return;
+      }
+      const partNumber = searchParams.get('partNumber');
+      if (partNumber) {
+        if (!failed && +partNumber === failedPart) {
+          failed = true;
+          replyMockResponse(res, { statusCode: 500, body: { Code: 'Mock' } });
+          return;
+        }
+        replyMockResponse(res, {
+          headers: {
+            etag: `"etag-${partNumber}-${Buffer.concat(chunks).length}"`,
+          },
+        });
+        return;
+      }
+      replyMockResponse(res, { body: { Location: 'mock-location' } });
+    });
+  });
+}
+
+describe('direct upload', () => {
+  it('upload parts by presigned urls and complete by server', async () => {
+    const server = await startUploadServer(2);
+    try {
+      const client = new TOS({
+        ...mockClientOptions,
+        endpoint: server.endpoint,
+      });
+      const { data: session } = await client.createDirectUpload({
+        key: 'a',
+        fileSize: file.length,
+        partSize,
+      });
+      expect(session.uploadId).toBe('upload-id');
+      expect(session.parts.map((it) => it.partSize)).toEqual([
+        partSize,
+        partSize,
+        100,
+      ]);
+      // the session is sent to the browser
+      const browserSession = JSON.parse(JSON.stringify(session));
+
+      const events: UploadEventType[] = [];
+      const percents: number[] = [];
+      const ret = await directUploadFile({
+        file,
+        session: browserSession,
+        taskNum: 2,
+        uploadEventChange: (e) => events.push(e.type),
+        progress: (p) => percents.push(p),
+        complete: async (parts) => {
+          expect(parts).toEqual([
+            { partNumber: 1, eTag: `"etag-1-${partSize}"` },
+            { partNumber: 2, eTag: `"etag-2-${partSize}"` },
+            { partNumber: 3, eTag: '"etag-3-100"' },
+          ]);
+          const { data } = await client.completeMultipartUpload({
+            key: 'a',
+            uploadId: session.uploadId,
+            parts,
+          });
+          return data;
+        },
+      });
+
+      expect(ret.Location).toBe('mock-location');
+      expect(
+        events.filter((it) => it === UploadEventType.UploadPartSucceed)
+      ).toHaveLength(3);
+      expect(events[events.length - 1]).toBe(
+        UploadEventType.CompleteMultipartUploadSucceed
+      );
+      expect(percents[0]).toBe(0);
+      expect(percents[percents.length - 1]).toBe(1);
+
+      // the failed part is retried
+      const partRequests = server.requests.filter((it) =>
+        it.url!.includes('partNumber')
+      );
+      expect(partRequests).toHaveLength(4);
+      for (const req of partRequests) {
+        expect(req.headers.authorization).toBeUndefined();
+        const ret = verifyPreSignedUrl(
+          `http://${req.headers.host}${req.url}`,
+          {
+            accessKeyId: mockClientOptions.accessKeyId,
+            accessKeySecret: mockClientOptions.accessKeySecret,
+          },
+          { method: 'PUT' }
+        );
+        expect(ret.valid).toBe(true);
+      }
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('resume from checkpoint and refresh the expired urls', async () => {
+    const server = await startUploadServer();
+    try {
+      const client = new TOS({
+        ...mockClientOptions,
+        endpoint: server.endpoint,
+      });
+      const { data: session } = await client.createDirectUpload({
+        key: 'a',
+        fileSize: file.length,
+        partSize,
+        // it's expired for `directUploadFile`
+        partUrlExpires: 30,
+      });
+
+      const refreshed: number[][] = [];
+      await directUploadFile({
+        file,
+        session,
+        checkpoint: {
+          bucket: session.bucket,
+          key: session.key,
+          part_size: partSize,
+          upload_id: session.uploadId,
+          parts_info: [
+            {
+              part_number: 1,
+              part_size: partSize,
+              offset: 0,
+              etag: '"etag-1"',
+              hash_crc64ecma: '',
+              is_completed: true,
+            },
+          ],
+        },
+        refreshParts: async (partNumbers) => {
+          refreshed.push(partNumbers);
+          const { parts } = await client.signDirectUploadParts({
+            key: session.key,
+            uploadId: session.uploadId,
+            fileSize: session.fileSize,
+            partSize: session.partSize,
+            partNumbers,
+          });
+          return parts;
+        },
+        complete: async (parts) => {
+          expect(parts.map((it) => it.eTag)).toEqual([
+            '"etag-1"',
+            `"etag-2-${partSize}"`,
+            '"etag-3-100"',
+          ]);
+        },
+      });
+
+      expect(refreshed).toEqual([[2, 3]]);
+      const partNumbers = server.requests
+        .map((it) => new URL(it.url!, 'http://localhost'))
+        .map((it) => it.searchParams.get('partNumber'))
+        .filter(Boolean);
+      expect(partNumbers.sort()).toEqual(['2', '3']);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('log the checkpoint of the other session and upload again', async () => {
+    const server = await startUploadServer();
+    try {
+      const client = new TOS({
+        ...mockClientOptions,
+        endpoint: server.endpoint,
+      });
+      const { data: session } = await client.createDirectUpload({
+        key: 'a',
+        fileSize: file.length,
+        partSize,
+      });
+      const logger = {
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+      };
+      await directUploadFile({
+        file,
+        session,
+        logger,
+        checkpoint: {
+          bucket: session.bucket,
+          key: session.key,
+          part_size: partSize,
+          upload_id: 'other-upload-id',
+          parts_info: [],
+        },
+        complete: async () => {},
+      });
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        "the checkpoint doesn't belong to the session, upload the file again",
+        expect.objectContaining({
+          method: 'directUploadFile',
+          uploadId: session.uploadId,
+        })
+      );
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,84 @@
+import TOS from '../../src/browser-index';
+import { DnsResolver } from '../../src/nodejs/dnsCache';
+import { safeAwait } from '../../src/utils';
+import { mockClientOptions, replyMockResponse, startMockServer } from './utils';
+
+describe('dns cache', () => {
+  it('pin the host by lookup hook', async () => {
+    const server = await startMockServer((_req, res) => replyMockResponse(res));
+    const port = server.endpoint.split(':')[1];
+    const resolvedHosts: string[] = [];
+    const client = new TOS({
+      ...mockClientOptions,
+      endpoint: `tos.vpc.example.invalid:${port}`,
+      lookup: (hostname) => {
+        resolvedHosts.push(hostname);
+        return '127.0.0.1';
+      },
+      dnsCache: true,
+    });
+
+    await client.headObject('a');
+    await client.headObject('b');
+    expect(server.requests.length).toBe(2);
+    expect(server.requests[0].headers.host).toBe(
+      `${mockClientOptions.bucket}.tos.vpc.example.invalid:${port}`
+    );
+    // the second connection is reused or resolved from the cache
+    expect(resolvedHosts).toEqual([
+      `${mockClientOptions.bucket}.tos.vpc.example.invalid`,
+    ]);
+    await server.close();
+  });
+
+  it('cache the addresses and rotate them', async () => {
+    let count = 0;
+    const resolver = new DnsResolver(
+      () => {
+        ++count;
+        return [
+          { address: '10.0.0.1', family: 4 },
+          { address: '10.0.0.2', family: 4 },
+          { address: 'fd00::1', family: 6 },
+        ];
+      },
+      { ttl: 50 }
+    );
+
+    const [first, second] = await Promise.all([
+      resolver.resolve('a.com', 4),
+      resolver.resolve('a.com', 4),
+    ]);
+    expect(count).toBe(1);
+    expect(first.map((it) => it.address)).toEqual(['10.0.0.1', '10.0.0.2']);
+    expect(second.map((it) => it.address)).toEqual(['10.0.0.2', '10.0.0.1']);
+
+    await new Promise((r) => setTimeout(r, 60));
+    await resolver.resolve('a.com', 4);
+    expect(count).toBe(2);
+
+    const addresses = await resolver.resolve('a.com', 0);
+    expect(addresses.length).toBe(3);
+    expect(count).toBe(3);
+  });
+
+  it('cache the failed lookups for negativeTtl', async () => {
+    let count = 0;
+    const resolver = new DnsResolver(
+      () => {
+        ++count;
+        return [];
+      },
+      { negativeTtl: 50 }
+    );
+
+    const [err] = await safeAwait(resolver.resolve('a.com', 0));
+    expect((err as NodeJS.ErrnoException).code).toBe('ENOTFOUND');
+    await safeAwait(resolver.resolve('a.com', 0));
+    expect(count).toBe(1);
+
+    await new Promise((r) => setTimeout(r, 60));
+    await safeAwait(resolver.resolve('a.com', 0));
+    expect(count).toBe(2);
+  });
+});
@@ -0,0 +1,102 @@
+import TOS from '../../src/browser-index';
+import { EndpointChangeEvent } from '../../src/events';
+import { safeAwait } from '../../src/utils';
+import { mockClientOptions, replyMockResponse, startMockServer } from './utils';
+
+describe('endpoint failover', () => {
+  it('route requests to the next endpoint after continuous failures', async () => {
+    const unhealthy = await startMockServer((_req, res) => {
+      res.statusCode = 502;
+      res.end();
+    });
+    const healthy = await startMockServer((_req, res) => {
+      replyMockResponse(res);
+    });
+    const client = new TOS({
+      ...mockClientOptions,
+      endpoints: [unhealthy.endpoint, healthy.endpoint],
+      endpointFailover: { failureThreshold: 2 },
+      maxRetryCount: 3,
+      retryStrategy: { delay: () => 0 },
+    });
+    const events: EndpointChangeEvent[] = [];
+    client.on('endpointChange', (event) => events.push(event));
+
+    const res = await client.headObject('a');
+    expect(res.statusCode).toBe(200);
+    expect(unhealthy.requests.length).toBe(2);
+    expect(healthy.requests.length).toBe(1);
+    // the retried request is signed for the new host
+    expect(healthy.requests[0].headers.host).toBe(healthy.endpoint);
+    expect(events).toEqual([
+      {
+        previousEndpoint: unhealthy.endpoint,
+        endpoint: healthy.endpoint,
+        reason: 'failover',
+        error: expect.anything(),
+      },
+    ]);
+
+    // the following requests are sent to the healthy endpoint directly
+    await client.headObject('a');
+    expect(unhealthy.requests.length).toBe(2);
+    expect(healthy.requests.length).toBe(2);
+
+    await unhealthy.close();
+    await healthy.close();
+  });
+
+  it('try the preferred endpoint again after recoveryTime', async () => {
+    let isDown = true;
+    const preferred = await startMockServer((_req, res) => {
+      if (isDown) {
+        replyMockResponse(res, { statusCode: 503 });
+        return;
+      }
+      replyMockResponse(res);
+    });
+    const backup = await startMockServer((_req, res) => {
+      replyMockResponse(res);
+    });
+    const client = new TOS({
+      ...mockClientOptions,
+      endpoints: [preferred.endpoint, backup.endpoint],
+      endpointFailover: { failureThreshold: 1, recoveryTime: 50 },
+      maxRetryCount: 0,
+    });
+    const reasons: string[] = [];
+    client.on('endpointChange', (event) => reasons.push(event.reason));
+
+    const [err] = await safeAwait(client.headObject('a'));
+    expect(err?.statusCode).toBe(503);
+    await client.headObject('a');
+    expect(backup.requests.length).toBe(1);
+
+    isDown = false;
+    await new Promise((r) => setTimeout(r, 60));
+    await client.headObject('a');
+    expect(preferred.requests.length).toBe(2);
+    expect(reasons).toEqual(['failover', 'recover']);
+
+    await preferred.close();
+    await backup.close();
+  });
+
+  it("don't route the request whose endpoint is overridden", async () => {
+    const server = await startMockServer((_req, res) => {
+      replyMockResponse(res);
+    });
+    const client = new TOS({
+      ...mockClientOptions,
+      endpoints: ['127.0.0.1:1', '127.0.0.1:2'],
+    });
+
+    const res = await client.headObject({
+      key: 'a',
+      requestOptions: { endpoint: server.endpoint },
+    });
+    expect(res.statusCode).toBe(200);
+    expect(server.requests.length).toBe(1);
+    await server.close();
+  });
+});
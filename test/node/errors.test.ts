@@ -0,0 +1,75 @@
+import TOS, {
+  isAuthError,
+  isNotFound,
+  isRetryable,
+  isThrottling,
+  TosClientErrorCode,
+  TosNetworkError,
+  TosServerError,
+  TosValidationError,
+} from '../../src/browser-index';
+import { safeAwait } from '../../src/utils';
+import { mockClientOptions, replyMockResponse, startMockServer } from './utils';
+
+describe('errors', () => {
+  it('throw validation errors with stable codes', async () => {
+    const client = new TOS({ ...mockClientOptions, bucket: undefined });
+    const [err] = await safeAwait(client.headObject('a'));
+    expect(err).toBeInstanceOf(TosValidationError);
+    expect(err.code).toBe(TosClientErrorCode.MissingParam);
+
+    const [bucketErr] = await safeAwait(client.createBucket({ bucket: '-a-' }));
+    expect(bucketErr.code).toBe(TosClientErrorCode.InvalidBucketName);
+  });
+
+  it('wrap the errors without a response of TOS server', async () => {
+    const server = await startMockServer((_req, res) => {
+      res.statusCode = 502;
+      res.end();
+    });
+    const client = new TOS({
+      ...mockClientOptions,
+      endpoint: server.endpoint,
+      maxRetryCount: 0,
+    });
+
+    const [err] = await safeAwait(client.headObject('a'));
+    expect(err).toBeInstanceOf(TosNetworkError);
+    expect(err.code).toBe(TosClientErrorCode.NetworkError);
+    expect(err.statusCode).toBe(502);
+    expect(isRetryable(err)).toBe(true);
+    await server.close();
+
+    const [refusedErr] = await safeAwait(client.headObject('a'));
+    expect(refusedErr).toBeInstanceOf(TosNetworkError);
+    expect(refusedErr.cause.code).toBe('ECONNREFUSED');
+  });
+
+  it('classify server errors', async () => {
+    const responses = [
+      { statusCode: 404, body: { Code: 'NoSuchKey' } },
+      { statusCode: 429, body: { Code: 'ExceedQPSLimit' } },
+      { statusCode: 403, body: { Code: 'SignatureDoesNotMatch' } },
+    ];
+    const server = await startMockServer((_req, res, index) =>
+      replyMockResponse(res, responses[index])
+    );
+    const client = new TOS({
+      ...mockClientOptions,
+      endpoint: server.endpoint,
+      maxRetryCount: 0,
+    });
+
+    const errors: TosServerError[] = [];
+    for (let i = 0; i < responses.length; ++i) {
+      const [err] = await safeAwait(client.getObjectV2('a'));
+      expect(err).toBeInstanceOf(TosServerError);
+      errors.push(err);
+    }
+    expect(errors.map(isNotFound)).toEqual([true, false, false]);
+    expect(errors.map(isThrottling)).toEqual([false, true, false]);
+    expect(errors.map(isAuthError)).toEqual([false, false, true]);
+    expect(errors.map(isRetryable)).toEqual([false, true, false]);
+    await server.close();
+  });
+});
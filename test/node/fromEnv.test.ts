@@ -0,0 +1,106 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import TOS, { TosClientErrorCode } from '../../src/browser-index';
+import { loadOptionsFromEnv } from '../../src/nodejs/envConfig';
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tos-config-'));
+const iniFile = path.join(tmpDir, 'config');
+const jsonFile = path.join(tmpDir, 'config.json');
+fs.writeFileSync(
+  iniFile,
+  [
+    '# comment',
+    '[default]',
+    'access_key = ini-ak',
+    'secret_key = ini-sk',
+    'region = cn-beijing',
+    '',
+    '[profile dev]',
+    'access_key = dev-ak',
+    'secret_key = dev-sk',
+    'region = cn-shanghai',
+    'request_timeout = 3000',
+    'secure = false',
+  ].join('\n')
+);
+fs.writeFileSync(
+  jsonFile,
+  JSON.stringify({
+    default: {
+      access_key: 'json-ak',
+      secret_key: 'json-sk',
+      region: 'cn-beijing',
+    },
+  })
+);
+
+describe('fromEnv', () => {
+  const oriEnv = { ...process.env };
+  afterEach(() => {
+    process.env = { ...oriEnv };
+  });
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('read environment variables', () => {
+    process.env.TOS_ACCESS_KEY = 'env-ak';
+    process.env.TOS_SECRET_KEY = 'env-sk';
+    process.env.TOS_SECURITY_TOKEN = 'env-token';
+    process.env.TOS_REGION = 'cn-guangzhou';
+    process.env.TOS_ENDPOINT = 'tos-cn-guangzhou.volces.com';
+    process.env.TOS_CONFIG_FILE = iniFile;
+
+    const client = TOS.fromEnv({ bucket: 'my-bucket' });
+    expect(client).toBeInstanceOf(TOS);
+    expect(client.opts).toMatchObject({
+      accessKeyId: 'env-ak',
+      accessKeySecret: 'env-sk',
+      stsToken: 'env-token',
+      region: 'cn-guangzhou',
+      endpoint: 'tos-cn-guangzhou.volces.com',
+      bucket: 'my-bucket',
+    });
+  });
+
+  it('read the named profile', () => {
+    const opts = loadOptionsFromEnv(
+      { profile: 'dev', configFile: iniFile },
+      { TOS_SECRET_KEY: 'env-sk' }
+    );
+    expect(opts).toEqual({
+      accessKeyId: 'dev-ak',
+      accessKeySecret: 'env-sk',
+      region: 'cn-shanghai',
+      requestTimeout: 3000,
+      secure: false,
+    });
+
+    expect(loadOptionsFromEnv({ configFile: jsonFile }, {})).toEqual({
+      accessKeyId: 'json-ak',
+      accessKeySecret: 'json-sk',
+      region: 'cn-beijing',
+    });
+  });
+
+  it('validate the options', () => {
+    process.env.TOS_CONFIG_FILE = iniFile;
+    process.env.TOS_PROFILE = 'none';
+    expect(() => TOS.fromEnv()).toThrow(
+      expect.objectContaining({ code: TosClientErrorCode.InvalidProfile })
+    );
+
+    expect(() =>
+      loadOptionsFromEnv(
+        { configFile: jsonFile },
+        { TOS_REQUEST_TIMEOUT: '3s' }
+      )
+    ).toThrow('TOS_REQUEST_TIMEOUT');
+
+    // the same validation as the constructor
+    expect(() =>
+      TOS.fromEnv({ configFile: jsonFile, profile: 'default', region: '' })
+    ).toThrow('lack params: region');
+  });
+});
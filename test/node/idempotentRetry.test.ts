@@ -0,0 +1,152 @@
+import TOS from '../../src/browser-index';
+import { safeAwait } from '../../src/utils';
+import { mockClientOptions, replyMockResponse, startMockServer } from './utils';
+
+describe('idempotency-aware retry', () => {
+  it("don't retry non-idempotent request when server may handle it", async () => {
+    const server = await startMockServer((_req, res) => {
+      res.statusCode = 502;
+      res.end();
+    });
+    const client = new TOS({
+      ...mockClientOptions,
+      endpoint: server.endpoint,
+      retryStrategy: { delay: () => 0 },
+    });
+
+    const [err] = await safeAwait(
+      client.renameObject({ key: 'a', newKey: 'b' })
+    );
+    expect(err?.statusCode).toBe(502);
+    expect(server.requests.length).toBe(1);
+    await server.close();
+  });
+
+  it('retry non-idempotent request when it is throttled', async () => {
+    const server = await startMockServer((_req, res, index) => {
+      if (index === 0) {
+        replyMockResponse(res, {
+          statusCode: 429,
+          body: { Code: 'ExceedQPSLimit' },
+        });
+        return;
+      }
+      replyMockResponse(res);
+    });
+    const client = new TOS({
+      ...mockClientOptions,
+      endpoint: server.endpoint,
+      retryStrategy: { delay: () => 0 },
+    });
+
+    const res = await client.renameObject({ key: 'a', newKey: 'b' });
+    expect(res.statusCode).toBe(200);
+    expect(server.requests.length).toBe(2);
+    await server.close();
+  });
+
+  it('still retry idempotent request', async () => {
+    const server = await startMockServer((_req, res, index) => {
+      if (index === 0) {
+        res.statusCode = 502;
+        res.end();
+        return;
+      }
+      replyMockResponse(res);
+    });
+    const client = new TOS({
+      ...mockClientOptions,
+      endpoint: server.endpoint,
+      retryStrategy: { delay: () => 0 },
+    });
+
+    const res = await client.putObject({ key: 'a', body: Buffer.from('a') });
+    expect(res.statusCode).toBe(200);
+    expect(server.requests.length).toBe(2);
+    await server.close();
+  });
+
+  it('accept the landed append when retry gets OffsetNotMatched', async () => {
+    const server = await startMockServer((req, res, index) => {
+      req.resume();
+      req.on('end', () => {
+        if (index === 0) {
+          // the append lands, but the response is lost
+          res.statusCode = 502;
+          res.end();
+          return;
+        }
+        if (req.method === 'POST') {
+          replyMockResponse(res, {
+            statusCode: 409,
+            body: { Code: 'OffsetNotMatched', Message: 'offset not matched' },
+          });
+          return;
+        }
+        // headObject
+        replyMockResponse(res, {
+          headers: {
+            'content-length': '10',
+            'x-tos-next-append-offset': '10',
+          },
+        });
+      });
+    });
+    const client = new TOS({
+      ...mockClientOptions,
+      endpoint: server.endpoint,
+      retryStrategy: { delay: () => 0 },
+    });
+
+    const res = await client.appendObject({
+      key: 'a',
+      offset: 6,
+      body: Buffer.from('abcd'),
+    });
+    expect(res.statusCode).toBe(200);
+    expect(res.data.nextAppendOffset).toBe(10);
+    expect(server.requests.map((it) => it.method)).toEqual([
+      'POST',
+      'POST',
+      'HEAD',
+    ]);
+    await server.close();
+  });
+
+  it("don't accept the append when the object doesn't match", async () => {
+    const server = await startMockServer((req, res, index) => {
+      req.resume();
+      req.on('end', () => {
+        if (index === 0) {
+          res.statusCode = 502;
+          res.end();
+          return;
+        }
+        if (req.method === 'POST') {
+          replyMockResponse(res, {
+            statusCode: 409,
+            body: { Code: 'OffsetNotMatched', Message: 'offset not matched' },
+          });
+          return;
+        }
+        replyMockResponse(res, {
+          headers: {
+            'content-length': '20',
+            'x-tos-next-append-offset': '20',
+          },
+        });
+      });
+    });
+    const client = new TOS({
+      ...mockClientOptions,
+      endpoint: server.endpoint,
+      retryStrategy: { delay: () => 0 },
+    });
+
+    const [err] = await safeAwait(
+      client.appendObject({ key: 'a', offset: 6, body: Buffer.from('abcd') })
+    );
+    expect(err?.code).toBe('OffsetNotMatched');
+    await server.close();
+  });
+});
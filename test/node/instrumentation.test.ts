@@ -0,0 +1,157 @@
+import TOS from '../../src/browser-index';
+import { safeAwait } from '../../src/utils';
+import { mockClientOptions, replyMockResponse, startMockServer } from './utils';
+
+interface FakeSpan {
+  name: string;
+  parent?: FakeSpan;
+  attributes: Record<string, unknown>;
+  status?: { code: number; message?: string };
+  ended: boolean;
+}
+
+function makeFakeInstrumentation() {
+  const spans: FakeSpan[] = [];
+  const handles = new Map<unknown, FakeSpan>();
+  const metrics: { name: string; value: number; attributes?: any }[] = [];
+  const instrument = (name: string) => ({
+    add: (value: number, attributes?: any) =>
+      metrics.push({ name, value, attributes }),
+    record: (value: number, attributes?: any) =>
+      metrics.push({ name, value, attributes }),
+  });
+
+  const instrumentation = {
+    tracer: {
+      startSpan(
+        name: string,
+        options?: { attributes?: Record<string, unknown> },
+        context?: unknown
+      ) {
+        const span: FakeSpan = {
+          name,
+          parent: context as FakeSpan | undefined,
+          attributes: { ...options?.attributes },
+          ended: false,
+        };
+        spans.push(span);
+        const handle = {
+          setAttribute(key: string, value: unknown) {
+            span.attributes[key] = value;
+          },
+          setStatus(status: { code: number; message?: string }) {
+            span.status = status;
+          },
+          end() {
+            span.ended = true;
+          },
+        };
+        handles.set(handle, span);
+        return handle;
+      },
+    },
+    meter: {
+      createCounter: instrument,
+      createHistogram: instrument,
+    },
+    // the context is the parent span itself in the fake tracer
+    getSpanContext: (parentSpan: unknown) => handles.get(parentSpan),
+  };
+  return { instrumentation, spans, metrics };
+}
+
+describe('instrumentation', () => {
+  it('start a span for the call and every attempt', async () => {
+    const server = await startMockServer((req, res, index) => {
+      req.resume();
+      req.on('end', () => {
+        if (index === 0) {
+          replyMockResponse(res, { statusCode: 503, body: {} });
+          return;
+        }
+        replyMockResponse(res, {
+          headers: { 'x-tos-id-2': 'id2', 'content-length': '0' },
+        });
+      });
+    });
+    const { instrumentation, spans, metrics } = makeFakeInstrumentation();
+
+    const client = new TOS({
+      ...mockClientOptions,
+      endpoint: server.endpoint,
+      retryStrategy: { delay: () => 0 },
+      instrumentation,
+    });
+
+    await client.putObject({
+      key: 'a',
+      body: Buffer.from('abc'),
+      headers: { 'content-length': '3' },
+    });
+    await server.close();
+
+    const [callSpan, ...attemptSpans] = spans;
+    expect(callSpan.name).toBe('tos.putObject');
+    expect(callSpan.attributes).toMatchObject({
+      'tos.operation': 'putObject',
+      'tos.bucket': mockClientOptions.bucket,
+      'http.response.status_code': 200,
+      'tos.id2': 'id2',
+    });
+    expect(callSpan.attributes['tos.request_id']).toBeTruthy();
+    expect(callSpan.status?.code).toBe(1);
+    expect(callSpan.ended).toBe(true);
+
+    expect(attemptSpans.map((it) => it.name)).toEqual([
+      'tos.putObject.attempt',
+      'tos.putObject.attempt',
+    ]);
+    expect(attemptSpans.every((it) => it.parent === callSpan)).toBe(true);
+    expect(attemptSpans[0].attributes).toMatchObject({
+      'tos.attempt': 1,
+      'http.response.status_code': 503,
+      'tos.bytes_sent': 3,
+    });
+    expect(attemptSpans[0].status?.code).toBe(2);
+    expect(attemptSpans[1].attributes).toMatchObject({
+      'tos.attempt': 2,
+      'http.response.status_code': 200,
+      'tos.bytes_received': 0,
+    });
+
+    const names = metrics.map((it) => it.name);
+    expect(names.filter((it) => it === 'tos.client.attempts').length).toBe(2);
+    expect(names.filter((it) => it === 'tos.client.retries').length).toBe(1);
+    expect(names).toContain('tos.client.operation.duration');
+  });
+
+  it('end the call span with the error', async () => {
+    const server = await startMockServer((_req, res) => {
+      replyMockResponse(res, {
+        statusCode: 404,
+        body: { Code: 'NoSuchKey', Message: 'not found' },
+      });
+    });
+    const { instrumentation, spans, metrics } = makeFakeInstrumentation();
+    const client = new TOS({
+      ...mockClientOptions,
+      endpoint: server.endpoint,
+      instrumentation,
+    });
+
+    const [err] = await safeAwait(client.headObject('a'));
+    await server.close();
+
+    expect(err?.statusCode).toBe(404);
+    const callSpan = spans[0];
+    expect(callSpan.name).toBe('tos.headObject');
+    expect(callSpan.status?.code).toBe(2);
+    expect(callSpan.attributes['http.response.status_code']).toBe(404);
+    expect(callSpan.ended).toBe(true);
+    expect(metrics).toContainEqual({
+      name: 'tos.client.operation.duration',
+      value: expect.any(Number),
+      attributes: { 'tos.operation': 'headObject', 'tos.outcome': 'error' },
+    });
+  });
+});
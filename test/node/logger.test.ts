@@ -0,0 +1,111 @@
+import TOS from '../../src/browser-index';
+import { LogFields, redact } from '../../src/logger';
+import { safeAwait } from '../../src/utils';
+import { mockClientOptions, replyMockResponse, startMockServer } from './utils';
+
+describe('logger', () => {
+  it('redact credentials, signatures and SSE-C keys', () => {
+    const fields = redact({
+      headers: {
+        Authorization:
+          'TOS4-HMAC-SHA256 Credential=ak/20240101/cn-beijing/tos/request, SignedHeaders=host, Signature=abc',
+        'x-tos-security-token': 'token',
+        'x-tos-server-side-encryption-customer-key': 'sse-key',
+        'content-type': 'text/plain',
+      },
+      url: 'https://a.com/b?X-Tos-Credential=ak%2F20240101&X-Tos-Signature=abc&c=1',
+      opts: { accessKeyId: 'ak', accessKeySecret: 'sk', stsToken: 'token' },
+    }) as any;
+
+    expect(fields.headers).toEqual({
+      Authorization: '***',
+      'x-tos-security-token': '***',
+      'x-tos-server-side-encryption-customer-key': '***',
+      'content-type': 'text/plain',
+    });
+    expect(fields.url).toBe(
+      'https://a.com/b?X-Tos-Credential=***&X-Tos-Signature=***&c=1'
+    );
+    expect(fields.opts).toEqual({
+      accessKeyId: '***',
+      accessKeySecret: '***',
+      stsToken: '***',
+    });
+  });
+
+  it('log structured fields by level', async () => {
+    const server = await startMockServer((_req, res, index) => {
+      if (index === 0) {
+        res.statusCode = 503;
+        res.end();
+        return;
+      }
+      replyMockResponse(res);
+    });
+    const logs: [string, string, LogFields | undefined][] = [];
+    const makeLog = (level: string) => (msg: string, fields?: LogFields) => {
+      logs.push([level, msg, fields]);
+    };
+    const client = new TOS({
+      ...mockClientOptions,
+      stsToken: 'mock-token',
+      endpoint: server.endpoint,
+      retryStrategy: { delay: () => 0 },
+      logger: {
+        debug: makeLog('debug'),
+        info: makeLog('info'),
+        warn: makeLog('warn'),
+        error: makeLog('error'),
+      },
+      logLevel: 'debug',
+    });
+
+    await client.headObject('a');
+    expect(logs.map((it) => [it[0], it[1]])).toEqual([
+      ['debug', 'send request'],
+      ['warn', 'request failed, retry it'],
+      ['info', 'request succeeded'],
+    ]);
+    expect(logs[0][2]?.headers).toMatchObject({
+      authorization: '***',
+      'x-tos-security-token': '***',
+    });
+    expect(logs[2][2]).toMatchObject({
+      method: 'headObject',
+      bucket: mockClientOptions.bucket,
+      key: 'a',
+      requestId: 'mock-request-id',
+      attempt: 2,
+    });
+    expect(typeof logs[2][2]?.duration).toBe('number');
+    expect(JSON.stringify(logs)).not.toContain('mock-token');
+    await server.close();
+  });
+
+  it('filter logs by logLevel and write JSON lines', async () => {
+    const server = await startMockServer((_req, res) =>
+      replyMockResponse(res, { statusCode: 404 })
+    );
+    const lines: string[] = [];
+    const client = new TOS({
+      ...mockClientOptions,
+      endpoint: server.endpoint,
+      logger: TOS.createJsonLinesLogger({
+        stream: { write: (chunk: string) => lines.push(chunk) },
+      }),
+      logLevel: 'warn',
+    });
+
+    await safeAwait(client.headObject('a'));
+    expect(lines.length).toBe(1);
+    expect(lines[0].endsWith('\n')).toBe(true);
+    expect(JSON.parse(lines[0])).toMatchObject({
+      level: 'warn',
+      message: 'request failed',
+      method: 'headObject',
+      statusCode: 404,
+      attempt: 1,
+    });
+    await server.close();
+  });
+});
@@ -0,0 +1,109 @@
+import TOS from '../../src/browser-index';
+import { MiddlewareContext } from '../../src/middleware';
+import TosServerError from '../../src/TosServerError';
+import { safeAwait } from '../../src/utils';
+import { mockClientOptions, replyMockResponse, startMockServer } from './utils';
+
+describe('middleware', () => {
+  it('change the request before signing', async () => {
+    const server = await startMockServer((_req, res) => replyMockResponse(res));
+    const client = new TOS({ ...mockClientOptions, endpoint: server.endpoint });
+    const stages: string[] = [];
+    client.middlewareStack
+      .use('beforeSign', (context) => {
+        stages.push('beforeSign');
+        context.request.headers['x-tos-meta-name'] = '中';
+      })
+      .use('build', () => {
+        stages.push('build');
+      })
+      .use('afterSign', (context) => {
+        stages.push('afterSign');
+        expect(context.request.headers['authorization']).toContain(
+          'x-tos-meta-name'
+        );
+      });
+
+    await client.headObject('a');
+    expect(stages).toEqual(['build', 'beforeSign', 'afterSign']);
+    // encoded by the built-in middleware
+    expect(server.requests[0].headers['x-tos-meta-name']).toBe('%E4%B8%AD');
+    await server.close();
+  });
+
+  it('see the operation and the parsed response', async () => {
+    const server = await startMockServer((_req, res) =>
+      replyMockResponse(res, { body: { Contents: [], CommonPrefixes: [] } })
+    );
+    const client = new TOS({ ...mockClientOptions, endpoint: server.endpoint });
+    const contexts: MiddlewareContext[] = [];
+    client.middlewareStack.use('afterResponse', (context) => {
+      contexts.push({ ...context });
+    });
+
+    await client.headObject({ bucket: 'bucket2', key: 'a' });
+    await client.listObjectsType2({ prefix: 'b' });
+    expect(contexts.map((it) => [it.operation, it.bucket, it.key])).toEqual([
+      ['headObject', 'bucket2', 'a'],
+      ['listObjectsType2', mockClientOptions.bucket, undefined],
+    ]);
+    expect(contexts[1].response?.statusCode).toBe(200);
+    expect(contexts[1].response?.data).toMatchObject({ Contents: [] });
+    await server.close();
+  });
+
+  it('replace and recover from errors', async () => {
+    const server = await startMockServer((_req, res) =>
+      replyMockResponse(res, {
+        statusCode: 404,
+        body: { Code: 'NoSuchKey', Message: 'not found' },
+      })
+    );
+    const client = new TOS({ ...mockClientOptions, endpoint: server.endpoint });
+    const onError = (context: MiddlewareContext) => {
+      const { error } = context;
+      if (error instanceof TosServerError && error.statusCode === 404) {
+        context.error = new Error(`wrapped: ${error.statusCode}`);
+      }
+    };
+    client.middlewareStack.use('onError', onError);
+
+    const [err] = await safeAwait(client.getObjectV2('a'));
+    expect(err?.message).toBe('wrapped: 404');
+
+    client.middlewareStack.remove(onError).use(
+      'onError',
+      (context) => {
+        context.response = {
+          data: null,
+          statusCode: 404,
+          headers: {},
+          requestId: '',
+          id2: '',
+        };
+      },
+      { name: 'recover' }
+    );
+    const res = await client.headObject('a');
+    expect(res.statusCode).toBe(404);
+
+    client.middlewareStack.remove('recover');
+    const [err2] = await safeAwait(client.headObject('a'));
+    expect(err2).toBeInstanceOf(TosServerError);
+    await server.close();
+  });
+
+  it('rewrite the request for the proxy server', async () => {
+    const server = await startMockServer((_req, res) => replyMockResponse(res));
+    const client = new TOS({
+      ...mockClientOptions,
+      proxy: { url: `http://${server.endpoint}`, needProxyParams: true },
+    });
+
+    await client.headObject('a');
+    expect(server.requests[0].url).toContain(
+      `x-proxy-tos-host=${mockClientOptions.bucket}.tos-cn-beijing.volces.com`
+    );
+    await server.close();
+  });
+});
@@ -0,0 +1,381 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import axios, { AxiosError } from 'axios';
+import TOS from '../../src/browser-index';
+import mpAdapter from '../../src/axios-miniprogram-adapter';
+import { downloadFileInMiniProgram } from '../../src/methods/object/downloadFileInMiniProgram';
+import { getSize } from '../../src/methods/object/utils';
+import {
+  readMpFile,
+  statMpFile,
+  writeMpFile,
+} from '../../src/axios-miniprogram-adapter/utils/fileSystem';
+import { mockClientOptions, replyMockResponse, startMockServer } from './utils';
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tos-mp-'));
+
+// the file system manager of the mini-program on top of node fs
+const fileSystemManager: Record<string, (option: any) => void> = {};
+const fsMethods: Record<string, (option: any) => any> = {
+  stat: ({ path }) => ({
+    stats: {
+      size: fs.statSync(path).size,
+      lastModifiedTime: Math.floor(fs.statSync(path).mtimeMs / 1000),
+    },
+  }),
+  access: ({ path }) => fs.accessSync(path),
+  open: ({ filePath, flag }) => ({ fd: fs.openSync(filePath, flag) }),
+  read: ({ fd, arrayBuffer, offset, length, position }) => ({
+    arrayBuffer,
+    bytesRead: fs.readSync(
+      fd,
+      new Uint8Array(arrayBuffer),
+      offset,
+      length,
+      position
+    ),
+  }),
+  write: ({ fd, data, position }) => ({
+    bytesWritten: fs.writeSync(
+      fd,
+      new Uint8Array(data),
+      0,
+      undefined,
+      position
+    ),
+  }),
+  close: ({ fd }) => fs.closeSync(fd),
+  readFile: ({ filePath, encoding }) => ({
+    data: fs.readFileSync(filePath, encoding),
+  }),
+  writeFile: ({ filePath, data }) => fs.writeFileSync(filePath, data),
+  mkdir: ({ dirPath, recursive }) => fs.mkdirSync(dirPath, { recursive }),
+  rename: ({ oldPath, newPath }) => fs.renameSync(oldPath, newPath),
+  unlink: ({ filePath }) => fs.unlinkSync(filePath),
+};
+Object.keys(fsMethods).forEach((method) => {
+  fileSystemManager[method] = (option) => {
+    try {
+      option.success(fsMethods[method](option));
+    } catch (err: any) {
+      option.fail({ errMsg: `${method}:fail ${err.message}` });
+    }
+  };
+});
+
+function getHeaders(header: Record<string, unknown>) {
+  const headers: Record<string, string> = {};
+  Object.keys(header || {}).forEach((key) => {
+    if (header[key] != null) {
+      headers[key] = `${header[key]}`;
+    }
+  });
+  return headers;
+}
+
+function request(option: any): unknown {
+  const req = http.request(
+    option.url,
+    { method: option.method, headers: getHeaders(option.header) },
+    (res) => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('end', () => {
+        const body = Buffer.concat(chunks);
+        option.success({
+          statusCode: res.statusCode,
+          header: res.headers,
+          data: body.toString(),
+        });
+        option.complete();
+      });
+    }
+  );
+  req.on('error', (err) => {
+    option.fail({ errMsg: `request:fail ${err.message}` });
+    option.complete();
+  });
+  req.end(option.data == null ? undefined : Buffer.from(option.data));
+  return { abort: () => req.destroy() };
+}
+
+function downloadFile(option: any) {
+  let onHeadersReceived = (_res: any) => {};
+  let onProgressUpdate = (_res: any) => {};
+  const req = http.get(
+    option.url,
+    { headers: getHeaders(option.header) },
+    (res) => {
+      onHeadersReceived({ header: res.headers });
+      const filePath = option.filePath || path.join(tmpDir, 'tmp_download');
+      const total = +(res.headers['content-length'] || 0);
+      let written = 0;
+      const writeStream = fs.createWriteStream(filePath);
+      res.on('data', (chunk: Buffer) => {
+        written += chunk.length;
+        onProgressUpdate({
+          totalBytesWritten: written,
+          totalBytesExpectedToWrite: total,
+        });
+      });
+      res.pipe(writeStream).on('finish', () => {
+        const result = option.filePath
+          ? { filePath }
+          : { tempFilePath: filePath };
+        option.success({ ...result, statusCode: res.statusCode });
+        option.complete();
+      });
+    }
+  );
+  req.on('error', () => {
+    option.fail({ errMsg: 'downloadFile:fail abort' });
+    option.complete();
+  });
+  return {
+    abort: () => req.destroy(),
+    onHeadersReceived: (cb: any) => (onHeadersReceived = cb),
+    onProgressUpdate: (cb: any) => (onProgressUpdate = cb),
+  };
+}
+
+const mockWx = {
+  request: jest.fn(request),
+  downloadFile: jest.fn(downloadFile),
+  getFileSystemManager: () => fileSystemManager,
+};
+
+describe('mini-program adapter', () => {
+  beforeEach(() => {
+    (global as any).wx = mockWx;
+  });
+  afterEach(() => {
+    delete (global as any).wx;
+    jest.clearAllMocks();
+  });
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('download the body to the file with the progress', async () => {
+    const body = Buffer.alloc(64 * 1024, 'a');
+    const server = await startMockServer((req, res) => {
+      if (req.url === '/error') {
+        replyMockResponse(res, {
+          statusCode: 404,
+          body: { Code: 'NoSuchKey' },
+        });
+        return;
+      }
+      res.setHeader('etag', '"etag"');
+      res.end(body);
+    });
+    try {
+      const filePath = path.join(tmpDir, 'a.txt');
+      const onDownloadProgress = jest.fn();
+      const res = await axios({
+        adapter: mpAdapter,
+        url: `http://${server.endpoint}/a`,
+        headers: { 'x-tos-meta-a': 'a' },
+        onDownloadProgress,
+        __mpDownloadFile__: { filePath },
+      });
+
+      expect(res.data).toEqual({ filePath });
+      expect(res.headers.etag).toBe('"etag"');
+      expect(fs.readFileSync(filePath)).toEqual(body);
+      expect(server.requests[0].headers['x-tos-meta-a']).toBe('a');
+      expect(onDownloadProgress).toHaveBeenLastCalledWith({
+        loaded: body.length,
+        total: body.length,
+      });
+
+      // the body of the error is read from the file
+      const err: AxiosError = await axios({
+        adapter: mpAdapter,
+        url: `http://${server.endpoint}/error`,
+        __mpDownloadFile__: {},
+      }).catch((err) => err);
+      expect(err.response?.status).toBe(404);
+      expect(err.response?.data.Code).toBe('NoSuchKey');
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('abort the download when it is canceled', async () => {
+    const server = await startMockServer((_req, res) => {
+      res.write('a');
+    });
+    try {
+      const source = axios.CancelToken.source();
+      const p = axios({
+        adapter: mpAdapter,
+        url: `http://${server.endpoint}/a`,
+        cancelToken: source.token,
+        __mpDownloadFile__: {},
+      });
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      source.cancel('cancel');
+      const err = await p.catch((err) => err);
+      expect(axios.isCancel(err)).toBe(true);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('send the binary body as ArrayBuffer and report the progress', async () => {
+    mockWx.request.mockImplementationOnce((option) => {
+      option.success({ statusCode: 200, header: {}, data: '' });
+      option.complete();
+    });
+    const onUploadProgress = jest.fn();
+    await axios({
+      adapter: mpAdapter,
+      method: 'PUT',
+      url: 'http://localhost/a',
+      data: Buffer.from('hello'),
+      onUploadProgress,
+    });
+
+    const { data } = mockWx.request.mock.calls[0][0];
+    expect(data).toBeInstanceOf(ArrayBuffer);
+    expect(Buffer.from(data).toString()).toBe('hello');
+    expect(onUploadProgress).toHaveBeenCalledWith({ loaded: 5, total: 5 });
+  });
+
+  it('count the bytes of the string body', async () => {
+    mockWx.request.mockImplementationOnce((option) => {
+      option.success({ statusCode: 200, header: {}, data: '' });
+      option.complete();
+    });
+    const onUploadProgress = jest.fn();
+    await axios({
+      adapter: mpAdapter,
+      method: 'PUT',
+      url: 'http://localhost/a',
+      data: '你好😀',
+      onUploadProgress,
+    });
+    expect(onUploadProgress).toHaveBeenCalledWith({ loaded: 10, total: 10 });
+  });
+
+  it('report the progress of the platform if it is supported', async () => {
+    mockWx.request.mockImplementationOnce((option) => {
+      let onProgressUpdate = (_res: any) => {};
+      setTimeout(() => {
+        onProgressUpdate({ totalBytesSent: 2, totalBytesExpectedToSend: 5 });
+        onProgressUpdate({ totalBytesSent: 5, totalBytesExpectedToSend: 5 });
+        option.success({ statusCode: 200, header: {}, data: '' });
+        option.complete();
+      });
+      return {
+        abort: () => {},
+        onProgressUpdate: (cb: any) => (onProgressUpdate = cb),
+      };
+    });
+    const onUploadProgress = jest.fn();
+    await axios({
+      adapter: mpAdapter,
+      method: 'PUT',
+      url: 'http://localhost/a',
+      data: Buffer.from('hello'),
+      onUploadProgress,
+    });
+    expect(onUploadProgress.mock.calls).toEqual([
+      [{ loaded: 2, total: 5 }],
+      [{ loaded: 5, total: 5 }],
+    ]);
+  });
+
+  it('read and write the parts of the file', async () => {
+    const filePath = path.join(tmpDir, 'parts.txt');
+    fs.writeFileSync(filePath, '0123456789');
+
+    expect((await statMpFile(filePath)).size).toBe(10);
+    const part = await readMpFile(filePath, 3, 4);
+    expect(Buffer.from(part).toString()).toBe('3456');
+    expect(getSize(part)).toBe(4);
+
+    await writeMpFile(filePath, new Uint8Array([97, 98]).buffer, 8);
+    expect(fs.readFileSync(filePath, 'utf8')).toBe('01234567ab');
+  });
+
+  it('download the file by parts in mini-programs', async () => {
+    const body = Buffer.from('0123456789abcdefghij');
+    const server = await startMockServer((req, res) => {
+      const headers = {
+        etag: '"etag"',
+        'last-modified': 'Mon, 19 Oct 2026 00:00:00 GMT',
+      };
+      if (req.method === 'HEAD') {
+        replyMockResponse(res, {
+          headers: { ...headers, 'content-length': `${body.length}` },
+        });
+        return;
+      }
+      const [, start, end] = /bytes=(\d+)-(\d+)/.exec(req.headers.range!)!;
+      res.writeHead(206, headers);
+      res.end(body.slice(+start, +end + 1));
+    });
+    try {
+      const logger = {
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+      };
+      const client = new TOS({
+        ...mockClientOptions,
+        endpoint: server.endpoint,
+        isCustomDomain: true,
+        logger,
+        logLevel: 'warn',
+      });
+      (client as any).opts.requestAdapter = mpAdapter;
+      const filePath = path.join(tmpDir, 'download/b.txt');
+      const progress = jest.fn();
+      const onceBytes: number[] = [];
+      await downloadFileInMiniProgram.call(client, {
+        key: 'b',
+        filePath,
+        partSize: 8,
+        taskNum: 2,
+        progress,
+        dataTransferStatusChange: (status) => {
+          onceBytes.push(status.rwOnceBytes);
+        },
+      });
+
+      expect(fs.readFileSync(filePath)).toEqual(body);
+      expect(fs.readdirSync(path.dirname(filePath))).toEqual(['b.txt']);
+      expect(server.requests.map((it) => it.headers.range)).toEqual([
+        undefined,
+        'bytes=0-7',
+        'bytes=8-15',
+        'bytes=16-19',
+      ]);
+      expect(progress).toHaveBeenLastCalledWith(1, expect.anything());
+      expect(onceBytes.reduce((a, b) => a + b, 0)).toBe(body.length);
+      expect(logger.warn).not.toHaveBeenCalled();
+
+      // the temp file of the checkpoint is removed, so it's downloaded again
+      const [, checkpoint] =
+        progress.mock.calls[progress.mock.calls.length - 1];
+      await downloadFileInMiniProgram.call(client, {
+        key: 'b',
+        filePath,
+        partSize: 8,
+        checkpoint,
+      });
+      expect(logger.warn).toHaveBeenCalledWith(
+        'the checkpoint is invalid, download the object again',
+        expect.objectContaining({ method: 'downloadFile', key: 'b' })
+      );
+      expect(fs.readFileSync(filePath)).toEqual(body);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import TOS from '../../src/browser-index';
+import { getChunkedContentLength } from '../../src/nodejs/ChunkSigningStream';
+import { mockClientOptions, replyMockResponse, startMockServer } from './utils';
+
+const sha256 = (data: string | Buffer) =>
+  crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) =>
+  crypto.createHmac('sha256', key).update(data).digest();
+
+// verify the chunk signatures like TOS server
+function decodeChunkedBody(body: Buffer, authorization: string, date: string) {
+  const day = date.slice(0, 8);
+  const scope = `${day}/${mockClientOptions.region}/tos/request`;
+  const signingKey = ['cn-beijing', 'tos', 'request'].reduce(
+    (key, it) => hmac(key, it),
+    hmac(mockClientOptions.accessKeySecret, day)
+  );
+
+  let previousSignature = authorization.split('Signature=')[1];
+  const chunks: Buffer[] = [];
+  let rest = body;
+  while (rest.length) {
+    const headerEnd = rest.indexOf('\r\n');
+    const [sizeHex, signaturePart] = rest
+      .slice(0, headerEnd)
+      .toString()
+      .split(';');
+    const size = parseInt(sizeHex, 16);
+    const data = rest.slice(headerEnd + 2, headerEnd + 2 + size);
+    const expected = hmac(
+      signingKey,
+      [
+        'TOS4-HMAC-SHA256-PAYLOAD',
+        date,
+        scope,
+        previousSignature,
+        sha256(''),
+        sha256(data),
+      ].join('\n')
+    ).toString('hex');
+    expect(signaturePart).toBe(`chunk-signature=${expected}`);
+    previousSignature = expected;
+    chunks.push(data);
+    rest = rest.slice(headerEnd + 2 + size + 2);
+  }
+  return Buffer.concat(chunks);
+}
+
+function collectBody(req: NodeJS.ReadableStream) {
+  return new Promise<Buffer>((resolve) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+describe('payload signing', () => {
+  it('sign the stream of known length chunk by chunk', async () => {
+    const bodies: Buffer[] = [];
+    const server = await startMockServer(async (req, res) => {
+      bodies.push(await collectBody(req));
+      replyMockResponse(res);
+    });
+    const client = new TOS({
+      ...mockClientOptions,
+      endpoint: server.endpoint,
+      payloadSigning: 'chunked',
+    });
+
+    const data = crypto.randomBytes(150 * 1024);
+    await client.putObject({
+      key: 'a',
+      body: Readable.from([data]),
+      contentLength: data.length,
+    });
+
+    const { headers } = server.requests[0];
+    expect(headers['x-tos-content-sha256']).toBe(
+      'STREAMING-TOS4-HMAC-SHA256-PAYLOAD'
+    );
+    expect(headers['x-tos-decoded-content-length']).toBe(`${data.length}`);
+    expect(headers['content-length']).toBe(
+      `${getChunkedContentLength(data.length)}`
+    );
+    expect(headers['authorization']).toContain('x-tos-content-sha256');
+    const decoded = decodeChunkedBody(
+      bodies[0],
+      headers['authorization'] as string,
+      headers['x-tos-date'] as string
+    );
+    expect(decoded.equals(data)).toBe(true);
+    await server.close();
+  });
+
+  it('send the stream of unknown length with unsigned payload', async () => {
+    const bodies: Buffer[] = [];
+    const server = await startMockServer(async (req, res) => {
+      bodies.push(await collectBody(req));
+      replyMockResponse(res);
+    });
+    const client = new TOS({
+      ...mockClientOptions,
+      endpoint: server.endpoint,
+      payloadSigning: 'chunked',
+    });
+
+    const data = Buffer.alloc(100, 'a');
+    await client.putObject({ key: 'a', body: Readable.from([data]) });
+    const { headers } = server.requests[0];
+    expect(headers['x-tos-content-sha256']).toBe('UNSIGNED-PAYLOAD');
+    expect(headers['x-tos-decoded-content-length']).toBeUndefined();
+    expect(bodies[0].equals(data)).toBe(true);
+    await server.close();
+  });
+
+  it('sign the SHA256 of buffer bodies', async () => {
+    const server = await startMockServer((_req, res) => replyMockResponse(res));
+    const client = new TOS({
+      ...mockClientOptions,
+      endpoint: server.endpoint,
+      payloadSigning: 'sha256',
+    });
+
+    await client.putObject({ key: 'a', body: Buffer.from('hello') });
+    expect(server.requests[0].headers['x-tos-content-sha256']).toBe(
+      sha256('hello')
+    );
+    await server.close();
+  });
+});
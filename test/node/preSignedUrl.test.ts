@@ -0,0 +1,112 @@
+import TOS, {
+  parsePreSignedUrl,
+  verifyPreSignedUrl,
+} from '../../src/browser-index';
+import * as cryptoBrowser from '../../src/universal/crypto.browser';
+import * as cryptoNode from '../../src/nodejs/crypto.nodejs';
+import { mockClientOptions } from './utils';
+
+const credentials = {
+  accessKeyId: mockClientOptions.accessKeyId,
+  accessKeySecret: mockClientOptions.accessKeySecret,
+};
+
+describe('pre-signed url verification', () => {
+  it('parse and verify the url of getPreSignedUrl', () => {
+    const client = new TOS(mockClientOptions);
+    const url = client.getPreSignedUrl({
+      key: 'a/b (c).txt',
+      method: 'PUT',
+      expires: 600,
+      versionId: '1',
+    });
+
+    const parsed = parsePreSignedUrl(url);
+    expect(parsed.bucket).toBe('mock-bucket');
+    expect(parsed.key).toBe('a/b (c).txt');
+    expect(parsed.accessKeyId).toBe('mock-ak');
+    expect(parsed.signedHeaders).toEqual(['host']);
+    expect(parsed.query).toEqual({ versionId: '1' });
+    expect(parsed.expiresAt.valueOf() - parsed.signedAt.valueOf()).toBe(
+      600 * 1000
+    );
+
+    const ret = verifyPreSignedUrl(url, credentials);
+    expect(ret.valid).toBe(true);
+    expect(ret.method).toBe('PUT');
+
+    expect(
+      verifyPreSignedUrl(url.replace('versionId=1', 'versionId=2'), credentials)
+        .reason
+    ).toBe('SignatureMismatch');
+    expect(
+      verifyPreSignedUrl(url, { ...credentials, accessKeySecret: 'other' })
+        .reason
+    ).toBe('SignatureMismatch');
+    expect(
+      verifyPreSignedUrl(url, credentials, {
+        now: new Date(parsed.expiresAt.valueOf() + 1000),
+      }).reason
+    ).toBe('Expired');
+
+    // the url is signed later than now, the small skew is allowed
+    const signedAt = parsed.signedAt.valueOf();
+    expect(
+      verifyPreSignedUrl(url, credentials, {
+        now: new Date(signedAt - 16 * 60 * 1000),
+      }).reason
+    ).toBe('SignedInFuture');
+    expect(
+      verifyPreSignedUrl(url, credentials, {
+        now: new Date(signedAt - 60 * 1000),
+      }).valid
+    ).toBe(true);
+    expect(
+      verifyPreSignedUrl(url, credentials, {
+        now: new Date(signedAt - 60 * 1000),
+        maxClockSkew: 0,
+      }).reason
+    ).toBe('SignedInFuture');
+  });
+
+  it('parse and verify the url of preSignedPolicyURL', () => {
+    const client = new TOS(mockClientOptions);
+    const ret = client.preSignedPolicyURL({
+      conditions: [{ key: 'key', value: 'dir/', operator: 'starts-with' }],
+    });
+    const url = ret.getSignedURLForGetOrHead('dir/1');
+
+    const parsed = parsePreSignedUrl(url);
+    expect(parsed.bucket).toBe('mock-bucket');
+    expect(parsed.policy?.conditions).toEqual([
+      { key: 'key', value: 'dir/', operator: 'starts-with' },
+      { key: 'bucket', value: 'mock-bucket', operator: 'eq' },
+    ]);
+    expect(verifyPreSignedUrl(url, credentials).valid).toBe(true);
+    expect(
+      verifyPreSignedUrl(
+        ret.getSignedURLForList({ prefix: 'dir/' }),
+        credentials
+      ).valid
+    ).toBe(true);
+    expect(
+      verifyPreSignedUrl(ret.getSignedURLForGetOrHead('other/1'), credentials)
+        .reason
+    ).toBe('PolicyMismatch');
+  });
+
+  it('throw for the url without signature', () => {
+    expect(() =>
+      parsePreSignedUrl('https://mock-bucket.tos-cn-beijing.volces.com/a')
+    ).toThrow(TOS.TosValidationError);
+  });
+
+  it('compare the signatures in constant time', () => {
+    [cryptoBrowser, cryptoNode].forEach(({ timingSafeEqual }) => {
+      expect(timingSafeEqual('abcd', 'abcd')).toBe(true);
+      expect(timingSafeEqual('abcd', 'abce')).toBe(false);
+      expect(timingSafeEqual('abcd', 'abc')).toBe(false);
+      expect(timingSafeEqual('', '')).toBe(true);
+    });
+  });
+});
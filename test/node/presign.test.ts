@@ -0,0 +1,103 @@
+import TOS, { verifyPreSignedUrl } from '../../src/browser-index';
+import { mockClientOptions, startMockServer } from './utils';
+
+const credentials = {
+  accessKeyId: mockClientOptions.accessKeyId,
+  accessKeySecret: mockClientOptions.accessKeySecret,
+};
+
+describe('presign', () => {
+  it('presign uploadPart and completeMultipartUpload', async () => {
+    const server = await startMockServer(() => {});
+    try {
+      const client = new TOS({
+        ...mockClientOptions,
+        endpoint: server.endpoint,
+      });
+      const part = await client.presign(
+        'uploadPart',
+        { key: 'a/b', uploadId: 'upload-id', partNumber: 2 },
+        { expires: 600 }
+      );
+      expect(part.method).toBe('PUT');
+      const { searchParams } = new URL(part.url);
+      expect(searchParams.get('partNumber')).toBe('2');
+      expect(searchParams.get('uploadId')).toBe('upload-id');
+      expect(searchParams.get('X-Tos-Expires')).toBe('600');
+      expect(
+        verifyPreSignedUrl(part.url, credentials, {
+          method: 'PUT',
+          headers: part.headers,
+        }).valid
+      ).toBe(true);
+
+      const complete = await client.presign('completeMultipartUpload', {
+        key: 'a/b',
+        uploadId: 'upload-id',
+        parts: [{ eTag: 'etag', partNumber: 2 }],
+      });
+      expect(complete.method).toBe('POST');
+      expect(JSON.parse(complete.body!)).toEqual({
+        Parts: [{ ETag: 'etag', PartNumber: 2 }],
+      });
+
+      const head = await client.presign('headObject', { key: 'a/b' });
+      expect(head.method).toBe('HEAD');
+      // nothing is sent
+      expect(server.requests.length).toBe(0);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('presign appendObject without the body', async () => {
+    const client = new TOS(mockClientOptions);
+    const append = await client.presign('appendObject', {
+      key: 'a.log',
+      offset: 10,
+    });
+    expect(append.method).toBe('POST');
+    const { searchParams } = new URL(append.url);
+    expect(searchParams.has('append')).toBe(true);
+    expect(searchParams.get('offset')).toBe('10');
+    expect(
+      verifyPreSignedUrl(append.url, credentials, {
+        method: 'POST',
+        headers: append.headers,
+      }).valid
+    ).toBe(true);
+  });
+
+  it('enforce the signed headers', async () => {
+    const client = new TOS(mockClientOptions);
+    client.middlewareStack.use('build', (context) => {
+      context.request.headers['x-tos-meta-from'] = 'middleware';
+    });
+    const { url, headers } = await client.presign('putObject', {
+      key: 'a.txt',
+      contentType: 'text/plain',
+      meta: { a: 'b' },
+    });
+    expect(headers).toMatchObject({
+      'content-type': 'text/plain',
+      'x-tos-meta-a': 'b',
+      'x-tos-meta-from': 'middleware',
+    });
+    expect(new URL(url).searchParams.get('X-Tos-SignedHeaders')).toBe(
+      'content-type;host;x-tos-meta-a;x-tos-meta-from'
+    );
+
+    expect(verifyPreSignedUrl(url, credentials, { headers }).method).toBe(
+      'PUT'
+    );
+    expect(
+      verifyPreSignedUrl(url, credentials, {
+        headers: { ...headers, 'content-type': 'text/html' },
+      }).reason
+    ).toBe('SignatureMismatch');
+
+    await expect(
+      client.presign('uploadFile' as any, { key: 'a.txt' })
+    ).rejects.toBeInstanceOf(TOS.TosValidationError);
+  });
+});
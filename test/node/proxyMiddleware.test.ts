@@ -0,0 +1,344 @@
+import http from 'http';
+import net, { AddressInfo } from 'net';
+import TOS, {
+  signRequest,
+  TosClientError,
+  TosServerError,
+} from '../../src/browser-index';
+import {
+  createTosProxyHandler,
+  createTosProxyKoaMiddleware,
+  TosProxyErrorCode,
+  TosProxyPolicy,
+} from '../../src/proxy';
+import { mockClientOptions, replyMockResponse, startMockServer } from './utils';
+
+// close the keep-alive connections when closing the server
+function listen(listener: http.RequestListener) {
+  const server = http.createServer(listener);
+  const sockets = new Set<net.Socket>();
+  server.on('connection', (socket: net.Socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+  });
+
+  const close = () => {
+    sockets.forEach((it) => it.destroy());
+    return new Promise<void>((resolve) => server.close(() => resolve()));
+  };
+  return new Promise<{ port: number; close: () => Promise<void> }>(
+    (resolve) => {
+      server.listen(undefined, '127.0.0.1', () =>
+        resolve({ port: (server.address() as AddressInfo).port, close })
+      );
+    }
+  );
+}
+
+function makeClient(port: number, endpoint?: string) {
+  return new TOS({
+    ...mockClientOptions,
+    endpoint,
+    proxy: { url: `http://127.0.0.1:${port}/tos`, needProxyParams: true },
+    maxRetryCount: 0,
+  });
+}
+
+function get(url: string) {
+  return new Promise<http.IncomingMessage>((resolve) =>
+    http.get(url, (res) => resolve(res.resume()))
+  );
+}
+
+async function expectProxyError(p: Promise<unknown>, code: string) {
+  const err: any = await p.catch((err) => err);
+  expect(err).toBeInstanceOf(TosServerError);
+  expect(err.code).toBe(code);
+  return err as TosServerError;
+}
+
+describe('tos proxy middleware', () => {
+  it('forward the requests of the allowed hosts', async () => {
+    const upstream = await startMockServer((_req, res) => {
+      replyMockResponse(res);
+    });
+    const proxy = await listen(
+      createTosProxyHandler('/tos', {
+        destHost: upstream.endpoint,
+        allowlist: { regions: ['cn-beijing'], buckets: [/^mock-/] },
+      })
+    );
+    try {
+      const client = makeClient(proxy.port);
+      await client.putObject({ key: 'a', body: Buffer.from('hello') });
+      expect(upstream.requests).toHaveLength(1);
+      expect(upstream.requests[0].method).toBe('PUT');
+      expect(upstream.requests[0].url).toBe('/a');
+
+      await expectProxyError(
+        client.putObject({ bucket: 'other', key: 'a' }),
+        TosProxyErrorCode.ProxyHostNotAllowed
+      );
+      await expectProxyError(
+        makeClient(proxy.port, 'example.com').putObject({ key: 'a' }),
+        TosProxyErrorCode.ProxyHostNotAllowed
+      );
+      expect(upstream.requests).toHaveLength(1);
+
+      const res = await get(`http://127.0.0.1:${proxy.port}/tos/a`);
+      expect(res.statusCode).toBe(400);
+      expect(res.headers['content-type']).toBe('application/json');
+    } finally {
+      await proxy.close();
+      await upstream.close();
+    }
+  });
+
+  it('authorize, limit the body size and the rate', async () => {
+    const upstream = await startMockServer((_req, res) => {
+      replyMockResponse(res);
+    });
+    const proxy = await listen(
+      createTosProxyHandler('/tos', {
+        destHost: upstream.endpoint,
+        authorize: (req) => req.headers['x-tos-meta-token'] === 'token',
+        maxBodySize: 4,
+        rateLimit: { max: 3 },
+      })
+    );
+    try {
+      const client = makeClient(proxy.port);
+      const headers = { 'x-tos-meta-token': 'token' };
+      await client.putObject({ key: 'a', body: Buffer.from('a'), headers });
+      await expectProxyError(
+        client.putObject({ key: 'a', body: Buffer.from('a') }),
+        TosProxyErrorCode.ProxyUnauthorized
+      );
+      const err = await expectProxyError(
+        client.putObject({ key: 'a', body: Buffer.from('hello'), headers }),
+        TosProxyErrorCode.ProxyBodyTooLarge
+      );
+      expect(err.statusCode).toBe(413);
+
+      const limitedErr = await expectProxyError(
+        client.putObject({ key: 'a', body: Buffer.from('a'), headers }),
+        TosProxyErrorCode.ProxyRateLimited
+      );
+      expect(limitedErr.statusCode).toBe(429);
+      expect(Number(limitedErr.headers['retry-after'])).toBeGreaterThan(0);
+      expect(upstream.requests).toHaveLength(1);
+    } finally {
+      await proxy.close();
+      await upstream.close();
+    }
+  });
+
+  it('adapt koa', async () => {
+    const upstream = await startMockServer((_req, res) => {
+      replyMockResponse(res);
+    });
+    const middleware = createTosProxyKoaMiddleware('/tos', {
+      destHost: upstream.endpoint,
+    });
+    const proxy = await listen((req, res) => {
+      const ctx = { req, res, respond: true };
+      middleware(ctx, async () => {
+        res.statusCode = 404;
+        res.end();
+      });
+    });
+    try {
+      await makeClient(proxy.port).headObject('a');
+      expect(upstream.requests[0].method).toBe('HEAD');
+
+      const res = await get(`http://127.0.0.1:${proxy.port}/other`);
+      expect(res.statusCode).toBe(404);
+    } finally {
+      await proxy.close();
+      await upstream.close();
+    }
+  });
+
+  it('sign the requests by the policy of the user', async () => {
+    const upstream = await startMockServer((req, res) => {
+      const { searchParams } = new URL(req.url!, 'http://localhost');
+      if (searchParams.has('uploads')) {
+        replyMockResponse(res, {
+          body: { Bucket: 'mock-bucket', Key: 'a', UploadId: 'upload-id' },
+        });
+        return;
+      }
+      if (searchParams.has('partNumber')) {
+        replyMockResponse(res, { headers: { etag: '"etag"' } });
+        return;
+      }
+      replyMockResponse(res, {
+        body: { Name: 'mock-bucket', Contents: [], IsTruncated: false },
+      });
+    });
+    const policies: Record<string, TosProxyPolicy> = {
+      alice: {
+        operations: ['read', 'write', 'list'],
+        buckets: ['mock-bucket'],
+        prefixes: ['users/alice/'],
+      },
+    };
+    const credentials = { accessKeyId: 'server-ak', accessKeySecret: 'sk' };
+    const proxy = await listen(
+      createTosProxyHandler('/tos', {
+        destHost: upstream.endpoint,
+        signing: {
+          region: 'cn-beijing',
+          credentials: async () => credentials,
+          getPolicy: (req) => policies[`${req.headers['x-user-token']}`],
+        },
+      })
+    );
+    try {
+      // the client doesn't hold credentials
+      const client = new TOS({
+        region: 'cn-beijing',
+        bucket: 'mock-bucket',
+        secure: false,
+        maxRetryCount: 0,
+        proxy: { url: `http://127.0.0.1:${proxy.port}/tos`, signByProxy: true },
+      });
+      client.middlewareStack.use('build', (context) => {
+        context.request.headers['x-user-token'] = 'alice';
+      });
+
+      await client.putObject({ key: 'users/alice/a', body: Buffer.from('a') });
+      await client.uploadFile({
+        key: 'users/alice/b',
+        file: Buffer.from('hello'),
+      });
+      await client.listObjectsType2({ prefix: 'users/alice/' });
+      expect(upstream.requests.map((it) => it.method)).toEqual([
+        'PUT',
+        'POST',
+        'PUT',
+        'POST',
+        'GET',
+      ]);
+
+      // the signature of the server credentials, it signs `destHost` which the request is sent to
+      const signedReqs = [upstream.requests[0], upstream.requests[4]];
+      signedReqs.forEach((req) => {
+        const headers: Record<string, string> = {};
+        Object.keys(req.headers).forEach((key) => {
+          if (key.startsWith('x-tos-') && key !== 'x-tos-date') {
+            headers[key] = req.headers[key] as string;
+          }
+        });
+        const date = req.headers['x-tos-date'] as string;
+        const signed = signRequest({
+          method: req.method!,
+          url: `http://${upstream.endpoint}${req.url}`,
+          headers,
+          credentials,
+          region: 'cn-beijing',
+          date: new Date(
+            date.replace(
+              /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/,
+              '$1-$2-$3T$4:$5:$6Z'
+            )
+          ),
+        });
+        expect(req.headers.authorization).toBe(signed.headers.authorization);
+        expect(req.headers.host).toBe(upstream.endpoint);
+      });
+
+      const denied = [
+        client.putObject({ key: 'users/bob/a' }),
+        client.deleteObject({ key: 'users/alice/a' }),
+        client.listObjectsType2({}),
+        client.copyObject({
+          srcBucket: 'mock-bucket',
+          srcKey: 'users/bob/a',
+          key: 'users/alice/a',
+        }),
+      ];
+      for (const p of denied) {
+        await expectProxyError(p, TosProxyErrorCode.ProxyAccessDenied);
+      }
+      expect(upstream.requests).toHaveLength(5);
+
+      expect(() => client.getPreSignedUrl('users/alice/a')).toThrow(
+        TosClientError
+      );
+      expect(() => client.getPreSignedUrl('users/alice/a')).toThrow(
+        /signing proxy/
+      );
+    } finally {
+      await proxy.close();
+      await upstream.close();
+    }
+  });
+
+  it('reject the repeated query and deleteMultiObjects under prefixes', async () => {
+    const upstream = await startMockServer((_req, res) => {
+      replyMockResponse(res, { body: { Deleted: [], Error: [] } });
+    });
+    const policies: Record<string, TosProxyPolicy> = {
+      alice: {
+        operations: ['list', 'delete'],
+        prefixes: ['users/alice/'],
+      },
+      admin: { operations: ['delete'], prefixes: [''] },
+    };
+    const proxy = await listen(
+      createTosProxyHandler('/tos', {
+        destHost: upstream.endpoint,
+        signing: {
+          region: 'cn-beijing',
+          credentials: { accessKeyId: 'server-ak', accessKeySecret: 'sk' },
+          getPolicy: (req) => policies[`${req.headers['x-user-token']}`],
+        },
+      })
+    );
+    try {
+      const host = 'mock-bucket.tos-cn-beijing.volces.com';
+      const res = await new Promise<http.IncomingMessage>((resolve) =>
+        http.get(
+          `http://127.0.0.1:${proxy.port}/tos/?prefix=users/alice/&prefix=users/bob/&x-proxy-tos-host=${host}`,
+          { headers: { 'x-user-token': 'alice' } },
+          (res) => resolve(res.resume())
+        )
+      );
+      expect(res.statusCode).toBe(400);
+
+      const makeUserClient = (user: string) => {
+        const client = new TOS({
+          region: 'cn-beijing',
+          bucket: 'mock-bucket',
+          secure: false,
+          maxRetryCount: 0,
+          proxy: {
+            url: `http://127.0.0.1:${proxy.port}/tos`,
+            signByProxy: true,
+          },
+        });
+        client.middlewareStack.use('build', (context) => {
+          context.request.headers['x-user-token'] = user;
+        });
+        return client;
+      };
+      // the keys in the body aren't checked by the prefixes
+      await expectProxyError(
+        makeUserClient('alice').deleteMultiObjects({
+          objects: [{ key: 'users/bob/a' }],
+        }),
+        TosProxyErrorCode.ProxyAccessDenied
+      );
+      expect(upstream.requests).toHaveLength(0);
+
+      await makeUserClient('admin').deleteMultiObjects({
+        objects: [{ key: 'users/bob/a' }],
+      });
+      expect(upstream.requests).toHaveLength(1);
+    } finally {
+      await proxy.close();
+      await upstream.close();
+    }
+  });
+});
@@ -0,0 +1,114 @@
+import TOS from '../../src/browser-index';
+import { TosTimeoutError } from '../../src/TosClientError';
+import { safeAwait } from '../../src/utils';
+import {
+  makeAbortController,
+  mockClientOptions,
+  replyMockResponse,
+  startMockServer,
+} from './utils';
+
+describe('requestOptions', () => {
+  it('override endpoint and region for one call', async () => {
+    const server1 = await startMockServer((_req, res) =>
+      replyMockResponse(res)
+    );
+    const server2 = await startMockServer((_req, res) =>
+      replyMockResponse(res)
+    );
+    const client = new TOS({
+      ...mockClientOptions,
+      endpoint: server1.endpoint,
+    });
+
+    await client.headObject({
+      key: 'a',
+      requestOptions: { endpoint: server2.endpoint, region: 'cn-shanghai' },
+    });
+    await client.headObject('b');
+    expect(server1.requests.length).toBe(1);
+    expect(server2.requests.length).toBe(1);
+    expect(server2.requests[0].headers['authorization']).toContain(
+      '/cn-shanghai/tos/'
+    );
+    await server1.close();
+    await server2.close();
+  });
+
+  it('override maxRetryCount and requestTimeout for one call', async () => {
+    const server = await startMockServer((_req, res, index) => {
+      if (index === 0) {
+        res.statusCode = 503;
+        res.end();
+        return;
+      }
+      setTimeout(() => replyMockResponse(res), 500);
+    });
+    const client = new TOS({
+      ...mockClientOptions,
+      endpoint: server.endpoint,
+      retryStrategy: { delay: () => 0 },
+    });
+
+    const [err1] = await safeAwait(
+      client.headObject({ key: 'a', requestOptions: { maxRetryCount: 0 } })
+    );
+    expect(err1?.statusCode).toBe(503);
+    expect(server.requests.length).toBe(1);
+
+    const [err2] = await safeAwait(
+      client.headObject({
+        key: 'a',
+        requestOptions: { maxRetryCount: 0, requestTimeout: 100 },
+      })
+    );
+    expect(err2).toBeInstanceOf(TosTimeoutError);
+    expect(server.requests.length).toBe(2);
+    await server.close();
+  });
+
+  it("don't send the common fields to server", async () => {
+    const server = await startMockServer((_req, res) =>
+      replyMockResponse(res, { body: { Contents: [], CommonPrefixes: [] } })
+    );
+    const client = new TOS({ ...mockClientOptions, endpoint: server.endpoint });
+
+    await client.listObjectsType2({
+      prefix: 'a',
+      abortSignal: makeAbortController().signal,
+      requestOptions: { requestTimeout: 1000 },
+    });
+    const url = server.requests[0].url || '';
+    expect(url).toContain('prefix=a');
+    expect(url).not.toContain('abortSignal');
+    expect(url).not.toContain('requestOptions');
+    await server.close();
+  });
+
+  it('withOptions returns a derived client', async () => {
+    const server1 = await startMockServer((_req, res) =>
+      replyMockResponse(res)
+    );
+    const server2 = await startMockServer((_req, res) =>
+      replyMockResponse(res)
+    );
+    const client = new TOS({
+      ...mockClientOptions,
+      endpoint: server1.endpoint,
+    });
+    const client2 = client.withOptions({ endpoint: server2.endpoint });
+
+    expect(client2.axiosInst).toBe(client.axiosInst);
+    expect(client2.opts.endpoint).toBe(server2.endpoint);
+    expect(client.opts.endpoint).toBe(server1.endpoint);
+    await client2.headObject('a');
+    await client.headObject('b');
+    expect(server1.requests.length).toBe(1);
+    expect(server2.requests.length).toBe(1);
+    expect(() =>
+      client.withOptions({ endpoint: 'tos-s3-cn-beijing.volces.com' })
+    ).toThrow('do not support s3 endpoint');
+    await server1.close();
+    await server2.close();
+  });
+});
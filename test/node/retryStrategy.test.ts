@@ -0,0 +1,105 @@
+import TOS from '../../src/browser-index';
+import { getBackoffDelay, getRetryAfter } from '../../src/retryStrategy';
+import { safeAwait } from '../../src/utils';
+import { mockClientOptions, replyMockResponse, startMockServer } from './utils';
+
+describe('retryStrategy', () => {
+  it('backoff delay with full jitter', () => {
+    for (let attempt = 1; attempt <= 10; ++attempt) {
+      const delay = getBackoffDelay(attempt, 100, 3000);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThan(Math.min(3000, 100 * 2 ** (attempt - 1)));
+    }
+  });
+
+  it('parse Retry-After header', () => {
+    const makeErr = (v: string) => ({
+      response: { headers: { 'retry-after': v } },
+    });
+    expect(getRetryAfter(makeErr('2'))).toBe(2000);
+    expect(getRetryAfter({ response: { headers: {} } })).toBe(undefined);
+    const date = new Date(Date.now() + 5000).toUTCString();
+    const v = getRetryAfter(makeErr(date))!;
+    expect(v).toBeGreaterThan(3000);
+    expect(v).toBeLessThanOrEqual(5000);
+  });
+
+  it('honour Retry-After header', async () => {
+    const server = await startMockServer((_req, res, index) => {
+      if (index === 0) {
+        replyMockResponse(res, {
+          statusCode: 429,
+          headers: { 'retry-after': '1' },
+          body: { Code: 'TooManyRequests' },
+        });
+        return;
+      }
+      replyMockResponse(res);
+    });
+    const client = new TOS({
+      ...mockClientOptions,
+      endpoint: server.endpoint,
+    });
+
+    const start = Date.now();
+    const res = await client.headObject('a');
+    expect(res.statusCode).toBe(200);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(1000);
+    await server.close();
+  });
+
+  it('custom shouldRetry and delay', async () => {
+    const server = await startMockServer((_req, res, index) => {
+      if (index < 2) {
+        res.statusCode = 400;
+        res.end();
+        return;
+      }
+      replyMockResponse(res);
+    });
+    const attempts: number[] = [];
+    const client = new TOS({
+      ...mockClientOptions,
+      endpoint: server.endpoint,
+      retryStrategy: {
+        shouldRetry: (err, attempt) => {
+          attempts.push(attempt);
+          return err.response?.status === 400;
+        },
+        delay: () => 0,
+      },
+    });
+
+    const res = await client.headObject('a');
+    expect(res.statusCode).toBe(200);
+    expect(attempts).toEqual([1, 2]);
+    await server.close();
+  });
+
+  it('stop retrying when the retry budget is exhausted', async () => {
+    const server = await startMockServer((_req, res) => {
+      res.statusCode = 503;
+      res.end();
+    });
+    const client = new TOS({
+      ...mockClientOptions,
+      endpoint: server.endpoint,
+      maxRetryCount: 3,
+      retryStrategy: {
+        delay: () => 0,
+        retryBudget: { capacity: 10, retryCost: 5 },
+      },
+    });
+
+    const [err1] = await safeAwait(client.headObject('a'));
+    expect(err1?.statusCode).toBe(503);
+    // 1 request + 2 retries
+    expect(server.requests.length).toBe(3);
+
+    const [err2] = await safeAwait(client.headObject('b'));
+    expect(err2?.statusCode).toBe(503);
+    // no tokens for retry
+    expect(server.requests.length).toBe(4);
+    await server.close();
+  });
+});
@@ -0,0 +1,111 @@
+import TOS, {
+  ShareLinkClient,
+  TosClientError,
+  TosClientErrorCode,
+  TosShareLinkExpiredError,
+} from '../../src/browser-index';
+import { mockClientOptions, replyMockResponse, startMockServer } from './utils';
+
+describe('share link', () => {
+  it('create the policy url of the prefix', () => {
+    const client = new TOS(mockClientOptions);
+    const { policyUrl, expiresAt } = client.createShareLink({
+      prefix: 'shared/',
+      expires: 600,
+    });
+
+    const url = new URL(policyUrl);
+    expect(url.hash).toBe('');
+    expect(url.searchParams.get('X-Tos-Policy')).toBeTruthy();
+    expect(expiresAt.valueOf() - Date.now()).toBeLessThanOrEqual(600 * 1000);
+
+    const shareLinkClient = new ShareLinkClient({ policyUrl });
+    expect(shareLinkClient.prefix).toBe('shared/');
+    expect(shareLinkClient.expiresAt).toEqual(expiresAt);
+    // the shared objects can't be written
+    expect((shareLinkClient as any).putObject).toBeUndefined();
+    expect((shareLinkClient as any).uploadFile).toBeUndefined();
+  });
+
+  it('check the prefix before sending', async () => {
+    const server = await startMockServer((_req, res) => {
+      replyMockResponse(res, {
+        body: { Name: 'mock-bucket', Contents: [], IsTruncated: false },
+      });
+    });
+    try {
+      const client = new TOS({
+        ...mockClientOptions,
+        endpoint: server.endpoint,
+      });
+      const { policyUrl } = client.createShareLink({
+        prefix: 'shared/',
+        isCustomDomain: true,
+      });
+      const shareLinkClient = new ShareLinkClient({ policyUrl });
+
+      await shareLinkClient.listObjectsType2({});
+      await shareLinkClient.headObject({ key: 'shared/a' });
+      expect(server.requests).toHaveLength(2);
+      const listQuery = new URL(server.requests[0].url!, 'http://localhost')
+        .searchParams;
+      expect(listQuery.get('prefix')).toBe('shared/');
+      expect(listQuery.get('X-Tos-Policy')).toBeTruthy();
+      expect(server.requests[1].method).toBe('HEAD');
+      expect(server.requests[1].url!.startsWith('/shared%2Fa?')).toBe(true);
+      expect(server.requests[1].headers.authorization).toBeUndefined();
+
+      const err = await shareLinkClient
+        .getObjectV2({ key: 'other/a' })
+        .catch((err) => err);
+      expect(err).toBeInstanceOf(TosClientError);
+      expect(err.code).toBe(TosClientErrorCode.OperationNotAllowed);
+      expect(server.requests).toHaveLength(2);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('throw the typed error after the link expires', async () => {
+    const server = await startMockServer((_req, res) => {
+      replyMockResponse(res, {
+        statusCode: 403,
+        body: { Code: 'AccessDenied' },
+      });
+    });
+    try {
+      const client = new TOS({
+        ...mockClientOptions,
+        endpoint: server.endpoint,
+      });
+      const { policyUrl, expiresAt } = client.createShareLink({
+        prefix: 'shared/',
+        expires: 1,
+        isCustomDomain: true,
+      });
+      const shareLinkClient = new ShareLinkClient({ policyUrl });
+
+      // the server rejects the request after the local check passes
+      const mockNow = jest
+        .spyOn(shareLinkClient.clockSkew, 'now')
+        .mockReturnValueOnce(expiresAt.valueOf() - 500)
+        .mockReturnValue(expiresAt.valueOf() + 500);
+      const err1 = await shareLinkClient
+        .headObject({ key: 'shared/a' })
+        .catch((err) => err);
+      expect(err1).toBeInstanceOf(TosShareLinkExpiredError);
+      expect(err1.code).toBe(TosClientErrorCode.ShareLinkExpired);
+      expect(err1.expiresAt).toEqual(expiresAt);
+      expect(server.requests).toHaveLength(1);
+
+      const err2 = await shareLinkClient
+        .listObjectsType2({})
+        .catch((err) => err);
+      expect(err2).toBeInstanceOf(TosShareLinkExpiredError);
+      expect(server.requests).toHaveLength(1);
+      mockNow.mockRestore();
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,97 @@
+import TOS, { signRequest } from '../../src/browser-index';
+import { mockClientOptions, replyMockResponse, startMockServer } from './utils';
+
+const credentials = {
+  accessKeyId: mockClientOptions.accessKeyId,
+  accessKeySecret: mockClientOptions.accessKeySecret,
+};
+const date = new Date('2024-01-01T00:00:00Z');
+const objectUrl = 'https://mock-bucket.tos-cn-beijing.volces.com/a/b%20c.txt';
+// sha256 of `hello`
+const helloSha256 =
+  '2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824';
+
+describe('signRequest', () => {
+  it('signs the headers', () => {
+    const { url, headers } = signRequest({
+      method: 'put',
+      url: `${objectUrl}?versionId=1`,
+      headers: { 'X-Tos-Meta-K': 'v' },
+      body: 'hello',
+      credentials,
+      region: 'cn-beijing',
+      date,
+    });
+
+    expect(url).toBe(`${objectUrl}?versionId=1`);
+    expect(headers).toEqual({
+      host: 'mock-bucket.tos-cn-beijing.volces.com',
+      'x-tos-meta-k': 'v',
+      'x-tos-date': '20240101T000000Z',
+      'x-tos-content-sha256': helloSha256,
+      authorization:
+        'TOS4-HMAC-SHA256 Credential=mock-ak/20240101/cn-beijing/tos/request, ' +
+        'SignedHeaders=host;x-tos-content-sha256;x-tos-date;x-tos-meta-k, ' +
+        'Signature=f3ee00f0ed7b97868b65d5c4c008be45d6c25ec1cf70a009345b83daff8c12a2',
+    });
+  });
+
+  it('signs the query', () => {
+    const { url } = signRequest({
+      method: 'GET',
+      url: objectUrl,
+      credentials,
+      region: 'cn-beijing',
+      expires: 3600,
+      date,
+    });
+
+    expect(url).toBe(
+      `${objectUrl}?X-Tos-Algorithm=TOS4-HMAC-SHA256` +
+        '&X-Tos-Content-Sha256=UNSIGNED-PAYLOAD' +
+        '&X-Tos-Credential=mock-ak%2F20240101%2Fcn-beijing%2Ftos%2Frequest' +
+        '&X-Tos-Date=20240101T000000Z&X-Tos-Expires=3600' +
+        '&X-Tos-SignedHeaders=host' +
+        '&X-Tos-Signature=b67862e43570a1cf085da2b355a680d991228d7b2122fc6c1e3b8cab82f6da89'
+    );
+    expect(() =>
+      signRequest({
+        method: 'GET',
+        url: 'not a url',
+        credentials,
+        region: 'cn-beijing',
+      })
+    ).toThrow(TOS.TosValidationError);
+  });
+
+  it('signs the same as the client', async () => {
+    const server = await startMockServer((_req, res) => {
+      replyMockResponse(res, { headers: { 'content-length': '0' } });
+    });
+    try {
+      const client = new TOS({
+        ...mockClientOptions,
+        endpoint: server.endpoint,
+      });
+      await client.headObject({ key: 'a/b (c).txt', versionId: '1' });
+      const req = server.requests[0];
+      const xTosDate = req.headers['x-tos-date'] as string;
+
+      const { headers } = signRequest({
+        method: req.method!,
+        url: `http://${req.headers.host}${req.url}`,
+        credentials,
+        region: mockClientOptions.region,
+        date: new Date(
+          xTosDate.replace(
+            /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/,
+            '$1-$2-$3T$4:$5:$6Z'
+          )
+        ),
+      });
+      expect(headers.authorization).toBe(req.headers.authorization);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -1,5 +1,8 @@
 import path from 'path';
 import fs from 'fs';
+import http, { IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { EventEmitter } from 'events';
 import { CRC } from '../../src/universal/crc';
 
 export const assetsPath = path.resolve(__dirname, '../assets');
@@ -89,3 +92,88 @@ export async function calcFileCrc(filePath: string): Promise<string> {
     stream.on('end', () => resolve(crcInst.getCrc64()));
   });
 }
+
+export interface MockServer {
+  server: Server;
+  // `${ip}:${port}`, it can be used as `endpoint` of TOS client
+  endpoint: string;
+  requests: IncomingMessage[];
+  close(): Promise<void>;
+}
+
+/**
+ * start a local server which acts as TOS server,
+ * `handler` receives the index of the request to simulate errors
+ */
+export function startMockServer(
+  handler: (req: IncomingMessage, res: ServerResponse, index: number) => void
+): Promise<MockServer> {
+  const requests: IncomingMessage[] = [];
+  return new Promise((resolve) => {
+    const server = http.createServer((req, res) => {
+      const index = requests.length;
+      requests.push(req);
+      handler(req, res, index);
+    });
+    server.listen(undefined, '127.0.0.1', () => {
+      const address = server.address() as AddressInfo;
+      resolve({
+        server,
+        endpoint: `127.0.0.1:${address.port}`,
+        requests,
+        close: () => new Promise((r) => server.close(() => r())),
+      });
+    });
+  });
+}
+
+export function replyMockResponse(
+  res: ServerResponse,
+  opts: {
+    statusCode?: number;
+    headers?: Record<string, string>;
+    body?: any;
+  } = {}
+) {
+  const { statusCode = 200, headers = {}, body } = opts;
+  res.writeHead(statusCode, {
+    'x-tos-request-id': 'mock-request-id',
+    'x-tos-id-2': 'mock-id2',
+    ...(body && typeof body === 'object'
+      ? { 'content-type': 'application/json' }
+      : {}),
+    ...headers,
+  });
+  res.end(body && typeof body === 'object' ? JSON.stringify(body) : body);
+}
+
+export const mockClientOptions = {
+  region: 'cn-beijing',
+  bucket: 'mock-bucket',
+  accessKeyId: 'mock-ak',
+  accessKeySecret: 'mock-sk',
+  secure: false,
+};
+
+/**
+ * the node environment of jest doesn't provide `AbortController`
+ */
+export function makeAbortController() {
+  const emitter = new EventEmitter();
+  const signal = {
+    aborted: false,
+    addEventListener: (_type: string, listener: () => void) =>
+      emitter.on('abort', listener),
+    removeEventListener: (_type: string, listener: () => void) =>
+      emitter.off('abort', listener),
+  };
+  return {
+    signal: signal as unknown as AbortSignal,
+    abort() {
+      if (!signal.aborted) {
+        signal.aborted = true;
+        emitter.emit('abort');
+      }
+    },
+  };
+}